@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import {
+    GoogleGenerativeAIError,
+    GoogleGenerativeAIFetchError,
+    GoogleGenerativeAIRequestInputError,
+    GoogleGenerativeAIResponseError,
+} from '@google/generative-ai';
+import { AppError, classifyModelError, toAppError } from './errors';
+
+const fetchError = (status: number, reasons: string[] = []) =>
+    new GoogleGenerativeAIFetchError('request failed', status, 'status text', reasons.map(reason => ({ reason })));
+
+describe('classifyModelError', () => {
+    it.each([
+        [401, 'AUTH', false],
+        [403, 'AUTH', false],
+        [404, 'AUTH', false],
+        [429, 'QUOTA', true],
+        [400, 'INVALID_INPUT', false],
+        [500, 'UPSTREAM_UNAVAILABLE', true],
+        [503, 'UPSTREAM_UNAVAILABLE', true],
+    ])('maps HTTP %i to %s', (status, code, retryable) => {
+        const error = classifyModelError(fetchError(status));
+        expect(error).toMatchObject({ code, retryable });
+        expect(error.details).toMatchObject({ status, statusText: 'status text' });
+    });
+
+    it('treats an invalid API key as AUTH whatever the status', () => {
+        expect(classifyModelError(fetchError(400, ['API_KEY_INVALID'])).code).toBe('AUTH');
+    });
+
+    it('maps the SDK\'s other error classes', () => {
+        expect(classifyModelError(new GoogleGenerativeAIResponseError('blocked')).code).toBe('SAFETY_BLOCKED');
+        expect(classifyModelError(new GoogleGenerativeAIRequestInputError('bad input')).code).toBe('INVALID_INPUT');
+        expect(classifyModelError(new GoogleGenerativeAIError('fetch failed'))).toMatchObject({ code: 'UPSTREAM_UNAVAILABLE', retryable: true });
+        expect(classifyModelError(new TypeError('fetch failed')).code).toBe('UPSTREAM_UNAVAILABLE');
+    });
+
+    it('never reads the message text', () => {
+        expect(classifyModelError(new Error('429 quota exceeded')).code).toBe('INTERNAL');
+    });
+
+    it('passes AppErrors through unchanged', () => {
+        const error = new AppError('TIMEOUT', 'Too slow.');
+        expect(classifyModelError(error)).toBe(error);
+    });
+});
+
+describe('toAppError', () => {
+    it('wraps other errors as INTERNAL with the cause', () => {
+        expect(toAppError('boom', 'Failed.').toInfo()).toEqual({ code: 'INTERNAL', message: 'Failed.', retryable: false, details: { cause: 'boom' } });
+    });
+});
@@ -0,0 +1,101 @@
+// Structured API errors. Every failure the API reports carries a code from the shared taxonomy,
+// a retryable flag and optional details, so clients never have to parse message text.
+
+import type { Response } from 'express';
+import {
+    GoogleGenerativeAIError,
+    GoogleGenerativeAIFetchError,
+    GoogleGenerativeAIRequestInputError,
+    GoogleGenerativeAIResponseError,
+} from '@google/generative-ai';
+import { ApiErrorResponse, ErrorCode, ErrorInfo } from 'shared';
+
+// HTTP status and default retryability per code
+const ERROR_CODE_DEFAULTS: Record<ErrorCode, { statusCode: number; retryable: boolean }> = {
+    INVALID_INPUT: { statusCode: 400, retryable: false },
+    NOT_FOUND: { statusCode: 404, retryable: false },
+    CONFLICT: { statusCode: 409, retryable: false },
+    CANCELLED: { statusCode: 499, retryable: false },
+    TIMEOUT: { statusCode: 504, retryable: true },
+    SAFETY_BLOCKED: { statusCode: 422, retryable: false },
+    AUTH: { statusCode: 502, retryable: false }, // The backend's credentials were rejected upstream, not the caller's
+    QUOTA: { statusCode: 429, retryable: true },
+    NO_IMAGE_RETURNED: { statusCode: 502, retryable: true },
+    UPSTREAM_UNAVAILABLE: { statusCode: 503, retryable: true },
+    STORAGE: { statusCode: 500, retryable: true },
+    INTERNAL: { statusCode: 500, retryable: false },
+};
+
+interface AppErrorOptions {
+    retryable?: boolean; // Overrides the code's default
+    statusCode?: number; // Overrides the code's default
+    details?: Record<string, unknown>;
+}
+
+export class AppError extends Error {
+    readonly code: ErrorCode;
+    readonly retryable: boolean;
+    readonly statusCode: number;
+    readonly details?: Record<string, unknown>;
+
+    constructor(code: ErrorCode, message: string, { retryable, statusCode, details }: AppErrorOptions = {}) {
+        super(message);
+        this.name = 'AppError';
+        this.code = code;
+        this.retryable = retryable ?? ERROR_CODE_DEFAULTS[code].retryable;
+        this.statusCode = statusCode ?? ERROR_CODE_DEFAULTS[code].statusCode;
+        this.details = details;
+    }
+
+    toInfo(): ErrorInfo {
+        return { code: this.code, message: this.message, retryable: this.retryable, ...(this.details && { details: this.details }) };
+    }
+
+    toResponse(): ApiErrorResponse {
+        return { success: false, ...this.toInfo() };
+    }
+}
+
+export function sendError(res: Response, error: AppError) {
+    return res.status(error.statusCode).json(error.toResponse());
+}
+
+// Wraps anything thrown by our own code as INTERNAL unless it already is an AppError
+export function toAppError(error: unknown, message = 'An unexpected internal server error occurred.') {
+    if (error instanceof AppError) return error;
+    return new AppError('INTERNAL', message, { details: { cause: error instanceof Error ? error.message : String(error) } });
+}
+
+// Maps a failed model call to the taxonomy using the SDK's error classes and HTTP status, never the message text
+export function classifyModelError(error: unknown): AppError {
+    if (error instanceof AppError) return error;
+
+    if (error instanceof GoogleGenerativeAIFetchError) {
+        const details = { status: error.status, statusText: error.statusText, errorDetails: error.errorDetails };
+        const reasons = (error.errorDetails ?? []).map(detail => detail.reason);
+        if (error.status === 401 || error.status === 403 || reasons.includes('API_KEY_INVALID')) {
+            return new AppError('AUTH', 'The image model rejected the server\'s credentials.', { details });
+        }
+        if (error.status === 404) {
+            return new AppError('AUTH', 'The image model was not found or this server has no access to it.', { details });
+        }
+        if (error.status === 429) {
+            return new AppError('QUOTA', 'The image model\'s rate limit or quota was exceeded.', { details });
+        }
+        if (error.status === 400) {
+            return new AppError('INVALID_INPUT', 'The image model rejected the request.', { details });
+        }
+        return new AppError('UPSTREAM_UNAVAILABLE', 'The image model service is unavailable.', { details });
+    }
+    if (error instanceof GoogleGenerativeAIResponseError) {
+        return new AppError('SAFETY_BLOCKED', 'The request was blocked by the model\'s safety filters.', { details: { response: error.response } });
+    }
+    if (error instanceof GoogleGenerativeAIRequestInputError) {
+        return new AppError('INVALID_INPUT', 'The request could not be sent to the image model.', { details: { cause: error.message } });
+    }
+    // fetch() itself failing (DNS, connection reset, ...) surfaces as the SDK's base error class, or a bare TypeError
+    if (error instanceof GoogleGenerativeAIError || error instanceof TypeError) {
+        return new AppError('UPSTREAM_UNAVAILABLE', 'Could not reach the image model service.', { details: { cause: error.message } });
+    }
+    return toAppError(error, 'Image generation failed due to an unexpected error.');
+}
@@ -0,0 +1,70 @@
+// Garment background removal through an external segmentation service.
+//
+// The backend has no image-processing dependencies, so segmentation runs in a separate service speaking
+// the rembg HTTP API (`rembg s`, or any compatible server): POST <url>/api/remove with a multipart `file`,
+// answered with a PNG whose background is transparent.
+
+import { AppError } from '../errors';
+
+export interface ImageBytes {
+    data: Buffer;
+    mimeType: string;
+}
+
+export interface BackgroundRemover {
+    describe(): string;
+    // Throws AppError (UPSTREAM_UNAVAILABLE, TIMEOUT) when the service fails
+    remove(image: ImageBytes, signal?: AbortSignal): Promise<ImageBytes>;
+}
+
+class RembgBackgroundRemover implements BackgroundRemover {
+    private url: string;
+    private timeoutMs: number;
+
+    constructor({ url, timeoutMs }: { url: string; timeoutMs: number }) {
+        this.url = url.replace(/\/+$/, '');
+        this.timeoutMs = timeoutMs;
+    }
+
+    describe() {
+        return `rembg service at ${this.url}`;
+    }
+
+    async remove({ data, mimeType }: ImageBytes, signal?: AbortSignal): Promise<ImageBytes> {
+        const form = new FormData();
+        form.append('file', new Blob([data], { type: mimeType }), `garment.${mimeType.split('/')[1] || 'png'}`);
+        const timeoutSignal = AbortSignal.timeout(this.timeoutMs);
+
+        let response: Response;
+        try {
+            response = await fetch(`${this.url}/api/remove`, {
+                method: 'POST',
+                body: form,
+                signal: signal ? AbortSignal.any([signal, timeoutSignal]) : timeoutSignal,
+            });
+        } catch (error) {
+            if (timeoutSignal.aborted) {
+                throw new AppError('TIMEOUT', 'Background removal took too long.', { details: { timeoutMs: this.timeoutMs } });
+            }
+            throw new AppError('UPSTREAM_UNAVAILABLE', 'The background removal service is unreachable.', {
+                details: { cause: error instanceof Error ? error.message : String(error) },
+            });
+        }
+
+        if (!response.ok) {
+            throw new AppError('UPSTREAM_UNAVAILABLE', `The background removal service failed (HTTP ${response.status}).`, {
+                retryable: response.status >= 500,
+                details: { status: response.status },
+            });
+        }
+        return { data: Buffer.from(await response.arrayBuffer()), mimeType: response.headers.get('content-type') || 'image/png' };
+    }
+}
+
+// BACKGROUND_REMOVAL_URL (unset disables server-side removal) and BACKGROUND_REMOVAL_TIMEOUT_MS (default 30000)
+export function createBackgroundRemover({
+    url = process.env.BACKGROUND_REMOVAL_URL || undefined,
+    timeoutMs = parseInt(process.env.BACKGROUND_REMOVAL_TIMEOUT_MS ?? '', 10) || 30000,
+}: { url?: string; timeoutMs?: number } = {}): BackgroundRemover | null {
+    return url ? new RembgBackgroundRemover({ url, timeoutMs }) : null;
+}
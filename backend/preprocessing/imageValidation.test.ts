@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { AppError } from '../errors';
+import { ImageLimits, imageLimitsFromEnv, inspectImage } from './imageValidation';
+
+const limits: ImageLimits = { minDimension: 64, maxDimension: 4096, maxPixels: 4_000_000 };
+
+// --- Minimal images: just enough header for the parsers ---
+
+function pngChunk(type: string, data = Buffer.alloc(0)) {
+    const header = Buffer.alloc(8);
+    header.writeUInt32BE(data.length, 0);
+    header.write(type, 4, 'latin1');
+    return Buffer.concat([header, data, Buffer.alloc(4)]); // CRC is not checked
+}
+
+function png(width: number, height: number, { animated = false } = {}) {
+    const ihdr = Buffer.alloc(13);
+    ihdr.writeUInt32BE(width, 0);
+    ihdr.writeUInt32BE(height, 4);
+    return Buffer.concat([
+        Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+        pngChunk('IHDR', ihdr),
+        ...(animated ? [pngChunk('acTL', Buffer.alloc(8))] : []),
+        pngChunk('IDAT', Buffer.alloc(4)),
+        pngChunk('IEND'),
+    ]);
+}
+
+function jpeg(width: number, height: number) {
+    const app0 = Buffer.from([0xff, 0xe0, 0x00, 0x04, 0x00, 0x00]);
+    const sof0 = Buffer.from([0xff, 0xc0, 0x00, 0x0b, 0x08, height >> 8, height & 0xff, width >> 8, width & 0xff, 0x01, 0x01, 0x11, 0x00]);
+    return Buffer.concat([Buffer.from([0xff, 0xd8]), app0, sof0, Buffer.from([0xff, 0xda, 0x00, 0x02, 0xff, 0xd9])]);
+}
+
+function webpExtended(width: number, height: number, { animated = false } = {}) {
+    const buffer = Buffer.alloc(30);
+    buffer.write('RIFF', 0, 'latin1');
+    buffer.writeUInt32LE(buffer.length - 8, 4);
+    buffer.write('WEBPVP8X', 8, 'latin1');
+    buffer.writeUInt32LE(10, 16);
+    buffer[20] = animated ? 0x02 : 0;
+    buffer.writeUIntLE(width - 1, 24, 3);
+    buffer.writeUIntLE(height - 1, 27, 3);
+    return buffer;
+}
+
+// The rejection's details.reason, or null when the image is accepted
+function rejectionReason(buffer: Buffer) {
+    try {
+        inspectImage(buffer, limits);
+        return null;
+    } catch (error) {
+        expect(error).toBeInstanceOf(AppError);
+        expect((error as AppError).code).toBe('INVALID_INPUT');
+        return (error as AppError).details?.reason;
+    }
+}
+
+describe('inspectImage', () => {
+    it('reads PNG, JPEG and WebP dimensions from their headers', () => {
+        expect(inspectImage(png(640, 480), limits)).toEqual({ mimeType: 'image/png', width: 640, height: 480, animated: false });
+        expect(inspectImage(jpeg(300, 1200), limits)).toEqual({ mimeType: 'image/jpeg', width: 300, height: 1200, animated: false });
+        expect(inspectImage(webpExtended(800, 600), limits)).toEqual({ mimeType: 'image/webp', width: 800, height: 600, animated: false });
+    });
+
+    it('identifies images by signature, not by what they claim to be', () => {
+        expect(rejectionReason(Buffer.from('GIF89a' + '\0'.repeat(20), 'latin1'))).toBe('unsupported_format');
+        expect(rejectionReason(Buffer.from('<?xml version="1.0"?>\n<svg xmlns="http://www.w3.org/2000/svg"></svg>'))).toBe('unsupported_format');
+        expect(rejectionReason(Buffer.from('not an image at all'))).toBe('corrupt');
+    });
+
+    it('rejects truncated files and malformed headers as corrupt', () => {
+        const complete = png(640, 480);
+        expect(rejectionReason(complete.subarray(0, complete.length - 12))).toBe('corrupt'); // IEND cut off
+        const noEnd = jpeg(640, 480);
+        expect(rejectionReason(noEnd.subarray(0, noEnd.length - 2))).toBe('corrupt');
+        const webp = webpExtended(640, 480);
+        webp.writeUInt32LE(1000, 4); // RIFF size beyond the file
+        expect(rejectionReason(webp)).toBe('corrupt');
+        expect(rejectionReason(png(0, 480))).toBe('corrupt');
+    });
+
+    it('rejects animated PNG and WebP', () => {
+        expect(rejectionReason(png(640, 480, { animated: true }))).toBe('animated');
+        expect(rejectionReason(webpExtended(640, 480, { animated: true }))).toBe('animated');
+    });
+
+    it('enforces the dimension and pixel limits', () => {
+        expect(rejectionReason(png(63, 480))).toBe('too_small');
+        expect(rejectionReason(png(64, 64))).toBeNull();
+        expect(rejectionReason(jpeg(4097, 100))).toBe('too_large');
+        expect(rejectionReason(png(2001, 2000))).toBe('too_large'); // Over 4 megapixels
+    });
+});
+
+describe('imageLimitsFromEnv', () => {
+    it('reads megapixels and falls back to the defaults', () => {
+        expect(imageLimitsFromEnv({ UPLOAD_MAX_MEGAPIXELS: '12.5', UPLOAD_MIN_DIMENSION: '-1' })).toEqual({ minDimension: 64, maxDimension: 8192, maxPixels: 12_500_000 });
+    });
+});
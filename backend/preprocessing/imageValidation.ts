@@ -0,0 +1,156 @@
+// Server-side checks for garment images. Client checks are easy to bypass, so every uploaded or inline image
+// is identified by its file signature (never the declared MIME type) and its header is parsed for the pixel
+// dimensions and animation flags. Only headers are read - the backend has no image decoder - so corrupt means
+// an unknown signature, a truncated file or a malformed header.
+
+import { ImageRejectionReason, UPLOAD_IMAGE_FORMATS } from 'shared';
+import { AppError } from '../errors';
+
+export interface ImageInfo {
+    mimeType: string; // Sniffed from the signature
+    width: number;
+    height: number;
+    animated: boolean;
+}
+
+export interface ImageLimits {
+    minDimension: number; // Shortest side, px
+    maxDimension: number; // Longest side, px
+    maxPixels: number; // Width x height; bounds the decoded size at 4 bytes per pixel
+}
+
+function positiveNumberFromEnv(value: string | undefined, fallback: number) {
+    const parsed = parseFloat(value ?? '');
+    return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+// UPLOAD_MIN_DIMENSION (default 64), UPLOAD_MAX_DIMENSION (default 8192), UPLOAD_MAX_MEGAPIXELS (default 40)
+export function imageLimitsFromEnv(env: NodeJS.ProcessEnv = process.env): ImageLimits {
+    return {
+        minDimension: positiveNumberFromEnv(env.UPLOAD_MIN_DIMENSION, 64),
+        maxDimension: positiveNumberFromEnv(env.UPLOAD_MAX_DIMENSION, 8192),
+        maxPixels: Math.round(positiveNumberFromEnv(env.UPLOAD_MAX_MEGAPIXELS, 40) * 1_000_000),
+    };
+}
+
+function rejectImage(reason: ImageRejectionReason, message: string, details: Record<string, unknown> = {}) {
+    return new AppError('INVALID_INPUT', message, { details: { reason, ...details } });
+}
+
+const corrupt = (format: string) => rejectImage('corrupt', `The ${format} image is corrupt or truncated.`, { format });
+
+// --- Signature parsers ---
+// Each returns the image info, or throws a "corrupt" rejection when the header doesn't hold together
+
+function parsePng(buffer: Buffer): ImageInfo {
+    if (buffer.length < 33 || buffer.toString('latin1', 12, 16) !== 'IHDR') throw corrupt('PNG');
+    const width = buffer.readUInt32BE(16);
+    const height = buffer.readUInt32BE(20);
+
+    // Walk the chunks: an acTL chunk before the image data marks an animated PNG, and IEND must be reached
+    let animated = false;
+    let offset = 8;
+    while (offset + 12 <= buffer.length) {
+        const length = buffer.readUInt32BE(offset);
+        const type = buffer.toString('latin1', offset + 4, offset + 8);
+        if (type === 'acTL') animated = true;
+        if (type === 'IEND') return { mimeType: 'image/png', width, height, animated };
+        offset += 12 + length;
+    }
+    throw corrupt('PNG');
+}
+
+// Start-of-frame markers carry the dimensions; C4 (DHT), C8 (JPG) and CC (DAC) share the range but don't
+const isStartOfFrame = (marker: number) => marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+
+function parseJpeg(buffer: Buffer): ImageInfo {
+    let offset = 2;
+    while (offset + 4 <= buffer.length) {
+        if (buffer[offset] !== 0xff) throw corrupt('JPEG');
+        const marker = buffer[offset + 1];
+        if (marker === 0xff) { // Fill byte
+            offset++;
+            continue;
+        }
+        if (marker === 0xd8 || marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) { // Markers without a payload
+            offset += 2;
+            continue;
+        }
+        if (marker === 0xda || marker === 0xd9) break; // Scan data or end of image before any frame header
+
+        const length = buffer.readUInt16BE(offset + 2);
+        if (length < 2 || offset + 2 + length > buffer.length) break;
+        if (isStartOfFrame(marker)) {
+            if (length < 7) break;
+            const height = buffer.readUInt16BE(offset + 5);
+            const width = buffer.readUInt16BE(offset + 7);
+            // The end-of-image marker must follow the frame header, or the file was cut off
+            if (buffer.lastIndexOf(Buffer.from([0xff, 0xd9])) < offset) break;
+            return { mimeType: 'image/jpeg', width, height, animated: false };
+        }
+        offset += 2 + length;
+    }
+    throw corrupt('JPEG');
+}
+
+function parseWebp(buffer: Buffer): ImageInfo {
+    // The RIFF size covers everything after the first 8 bytes; a shorter buffer was cut off
+    if (buffer.length < 30 || buffer.readUInt32LE(4) + 8 > buffer.length) throw corrupt('WebP');
+    const chunk = buffer.toString('latin1', 12, 16);
+
+    if (chunk === 'VP8 ') { // Lossy: keyframe start code, then 14-bit dimensions
+        if (buffer[23] !== 0x9d || buffer[24] !== 0x01 || buffer[25] !== 0x2a) throw corrupt('WebP');
+        return { mimeType: 'image/webp', width: buffer.readUInt16LE(26) & 0x3fff, height: buffer.readUInt16LE(28) & 0x3fff, animated: false };
+    }
+    if (chunk === 'VP8L') { // Lossless: signature byte, then 14-bit dimensions minus one
+        if (buffer[20] !== 0x2f) throw corrupt('WebP');
+        const bits = buffer.readUInt32LE(21);
+        return { mimeType: 'image/webp', width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1, animated: false };
+    }
+    if (chunk === 'VP8X') { // Extended: flags (bit 1 = animation), then 24-bit canvas dimensions minus one
+        return { mimeType: 'image/webp', width: buffer.readUIntLE(24, 3) + 1, height: buffer.readUIntLE(27, 3) + 1, animated: (buffer[20] & 0x02) !== 0 };
+    }
+    throw corrupt('WebP');
+}
+
+// Formats that are recognised but not accepted, so the error can name them
+const UNSUPPORTED_SIGNATURES: { format: string; matches: (buffer: Buffer) => boolean }[] = [
+    { format: 'GIF', matches: buffer => buffer.toString('latin1', 0, 4) === 'GIF8' },
+    { format: 'HEIF/AVIF', matches: buffer => buffer.toString('latin1', 4, 8) === 'ftyp' },
+    { format: 'BMP', matches: buffer => buffer.toString('latin1', 0, 2) === 'BM' },
+    { format: 'TIFF', matches: buffer => ['II*\0', 'MM\0*'].includes(buffer.toString('latin1', 0, 4)) },
+    { format: 'SVG', matches: buffer => /^\s*(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*<svg[\s>]/i.test(buffer.toString('utf8', 0, 1024)) },
+];
+
+function sniffImage(buffer: Buffer): ImageInfo {
+    if (buffer.length >= 8 && buffer.readUInt32BE(0) === 0x89504e47 && buffer.readUInt32BE(4) === 0x0d0a1a0a) return parsePng(buffer);
+    if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) return parseJpeg(buffer);
+    if (buffer.length >= 12 && buffer.toString('latin1', 0, 4) === 'RIFF' && buffer.toString('latin1', 8, 12) === 'WEBP') return parseWebp(buffer);
+
+    const unsupported = UNSUPPORTED_SIGNATURES.find(signature => signature.matches(buffer));
+    if (unsupported) {
+        throw rejectImage('unsupported_format', `${unsupported.format} images are not supported. Use PNG, JPEG or WebP.`, { format: unsupported.format, allowedFormats: UPLOAD_IMAGE_FORMATS });
+    }
+    throw rejectImage('corrupt', 'The file is not a recognisable image.', { allowedFormats: UPLOAD_IMAGE_FORMATS });
+}
+
+// Identifies the image and enforces the limits. Throws INVALID_INPUT with details.reason
+// ("unsupported_format", "corrupt", "animated", "too_small" or "too_large") when it is rejected.
+export function inspectImage(buffer: Buffer, limits: ImageLimits): ImageInfo {
+    const info = sniffImage(buffer);
+    const { width, height } = info;
+    const dimensions = { width, height };
+
+    if (width === 0 || height === 0) throw rejectImage('corrupt', 'The image has no pixels.', dimensions);
+    if (info.animated) throw rejectImage('animated', 'Animated images are not supported. Upload a single still image.', { mimeType: info.mimeType });
+    if (Math.min(width, height) < limits.minDimension) {
+        throw rejectImage('too_small', `The image is ${width}x${height}px; both sides must be at least ${limits.minDimension}px.`, { ...dimensions, minDimension: limits.minDimension });
+    }
+    if (Math.max(width, height) > limits.maxDimension) {
+        throw rejectImage('too_large', `The image is ${width}x${height}px; neither side may exceed ${limits.maxDimension}px.`, { ...dimensions, maxDimension: limits.maxDimension });
+    }
+    if (width * height > limits.maxPixels) {
+        throw rejectImage('too_large', `The image has ${(width * height / 1_000_000).toFixed(1)} megapixels; the limit is ${limits.maxPixels / 1_000_000}.`, { ...dimensions, maxPixels: limits.maxPixels });
+    }
+    return info;
+}
@@ -0,0 +1,107 @@
+// Versioned prompt templates loaded from disk.
+//
+// Each "<version>.json" file in the template directory is one version. Files are re-read when they
+// change, so wording can be tuned by dropping a new version into the directory - no deploy needed.
+// Without PROMPT_TEMPLATE_VERSION the latest version (natural sort: v10 after v9) is active.
+
+import fs from 'fs';
+import path from 'path';
+import { PromptTemplateInfo, PromptTemplateSchema, toFieldErrors } from 'shared';
+import { CompiledPromptTemplate, compilePromptTemplate } from './templateEngine';
+
+export interface LoadedPromptTemplate extends PromptTemplateInfo {
+    template: CompiledPromptTemplate;
+}
+
+interface CachedFile {
+    mtimeMs: number;
+    loaded: LoadedPromptTemplate | null; // Null for files that failed to load
+}
+
+const TEMPLATE_EXTENSION = '.json';
+const compareVersions = new Intl.Collator(undefined, { numeric: true }).compare;
+
+class PromptTemplateStore {
+    private dir: string;
+    private pinnedVersion: string | undefined;
+    private cache = new Map<string, CachedFile>(); // By file name
+
+    constructor({ dir, activeVersion }: { dir: string; activeVersion?: string }) {
+        this.dir = dir;
+        this.pinnedVersion = activeVersion;
+    }
+
+    // Valid templates, oldest version first. Broken files are logged once per change and skipped.
+    list(): LoadedPromptTemplate[] {
+        const fileNames = fs.readdirSync(this.dir).filter(fileName => fileName.endsWith(TEMPLATE_EXTENSION));
+        for (const cachedName of this.cache.keys()) {
+            if (!fileNames.includes(cachedName)) this.cache.delete(cachedName);
+        }
+        return fileNames
+            .map(fileName => this.load(fileName))
+            .filter((loaded): loaded is LoadedPromptTemplate => loaded !== null)
+            .sort((a, b) => compareVersions(a.version, b.version));
+    }
+
+    // Null for unknown or broken versions
+    get(version: string): LoadedPromptTemplate | null {
+        return this.list().find(loaded => loaded.version === version) ?? null;
+    }
+
+    // Throws when the pinned version (or, unpinned, every version) is missing or broken
+    active(): LoadedPromptTemplate {
+        const templates = this.list();
+        const active = this.pinnedVersion
+            ? templates.find(loaded => loaded.version === this.pinnedVersion)
+            : templates[templates.length - 1];
+        if (!active) {
+            throw new Error(this.pinnedVersion
+                ? `Prompt template "${this.pinnedVersion}" (PROMPT_TEMPLATE_VERSION) is missing or invalid in ${this.dir}.`
+                : `No valid prompt template in ${this.dir}.`);
+        }
+        return active;
+    }
+
+    describe() {
+        return `${this.dir} (${this.pinnedVersion ? `pinned to ${this.pinnedVersion}` : 'latest version active'})`;
+    }
+
+    private load(fileName: string): LoadedPromptTemplate | null {
+        const filePath = path.join(this.dir, fileName);
+        let mtimeMs: number;
+        try {
+            ({ mtimeMs } = fs.statSync(filePath));
+        } catch {
+            return null; // Removed since the directory was listed
+        }
+        const cached = this.cache.get(fileName);
+        if (cached && cached.mtimeMs === mtimeMs) return cached.loaded;
+
+        const version = path.basename(fileName, TEMPLATE_EXTENSION);
+        let loaded: LoadedPromptTemplate | null = null;
+        try {
+            const parsed = PromptTemplateSchema.safeParse(JSON.parse(fs.readFileSync(filePath, 'utf8')));
+            if (!parsed.success) {
+                throw new Error(toFieldErrors(parsed.error).map(({ field, message }) => `${field}: ${message}`).join('; '));
+            }
+            loaded = { version, description: parsed.data.description, template: compilePromptTemplate(parsed.data) };
+            console.log(`Loaded prompt template ${version}`);
+        } catch (error) {
+            console.error(`Skipping invalid prompt template ${filePath}:`, error instanceof Error ? error.message : error);
+        }
+        this.cache.set(fileName, { mtimeMs, loaded });
+        return loaded;
+    }
+}
+
+// PROMPT_TEMPLATES_DIR (default prompts/templates) and PROMPT_TEMPLATE_VERSION (default: latest)
+export function createPromptTemplateStore({
+    dir = process.env.PROMPT_TEMPLATES_DIR || path.join(__dirname, 'templates'),
+    activeVersion = process.env.PROMPT_TEMPLATE_VERSION || undefined,
+}: { dir?: string; activeVersion?: string } = {}) {
+    const store = new PromptTemplateStore({ dir, activeVersion });
+    store.active(); // Fail at startup rather than on the first generation
+    return store;
+}
+
+export type { PromptTemplateStore };
@@ -0,0 +1,96 @@
+import fs from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { GenerationSettings, PromptTemplate, PromptTemplateSchema } from 'shared';
+import { TemplateError, compilePromptTemplate } from './templateEngine';
+
+const settings: GenerationSettings = {
+    modelSettings: { gender: 'Female', bodyType: 'Average', ageRange: '26-35', ethnicity: 'Mixed-race', hairStyle: 'Straight', hairColor: 'Brown', height: 'Average', pose: 'Standing', accessories: 'None' },
+    environmentSettings: { backgroundPreset: 'studio-white', backgroundCustom: '', lighting: 'Studio Softbox', lensStyle: 'Fashion Magazine (Standard)', timeOfDay: 'Noon', weather: 'Clear', season: 'Spring', cameraAngle: 'Eye Level' },
+};
+const variables = { garments: 'the top shown in image 1' };
+
+// A template as written in a file: partials and phrases are optional
+type TemplateSource = Pick<PromptTemplate, 'prompt'> & Partial<PromptTemplate>;
+
+const compile = (template: TemplateSource) => compilePromptTemplate(PromptTemplateSchema.parse(template));
+const render = (template: TemplateSource) => compile(template).render(settings, variables);
+
+describe('compilePromptTemplate rendering', () => {
+    it('substitutes settings fields, variables and partials', () => {
+        expect(render({
+            prompt: '{{subject}} wearing {{garments}}.',
+            partials: { subject: 'A {{modelSettings.gender|lower}} model, {{modelSettings.pose|upper}}' },
+        })).toBe('A female model, STANDING wearing the top shown in image 1.');
+    });
+
+    it('joins list partials and drops empty items', () => {
+        expect(render({
+            prompt: '{{details}}',
+            partials: { details: { join: ', ', items: ['{{modelSettings.hairColor}} hair', '  ', '{{environmentSettings.backgroundCustom}}', 'lit by {{environmentSettings.lighting}}'] } },
+        })).toBe('Brown hair, lit by Studio Softbox');
+    });
+
+    it('renders {{#if}} sections on non-empty values', () => {
+        const template = { prompt: '{{#if environmentSettings.backgroundCustom}}custom{{else}}preset {{environmentSettings.backgroundPreset}}{{/if}}' };
+        expect(render(template)).toBe('preset studio-white');
+        const custom = { ...settings, environmentSettings: { ...settings.environmentSettings, backgroundCustom: 'a beach' } };
+        expect(compile(template).render(custom, variables)).toBe('custom');
+    });
+
+    it('maps values through phrases, case-insensitively, with a "*" fallback', () => {
+        const template = {
+            prompt: '{{modelSettings.pose|phrase}}',
+            phrases: { 'modelSettings.pose': { standing: 'standing upright', '*': 'posing: {{value|lower}}' } },
+        };
+        expect(render(template)).toBe('standing upright');
+        const walking = { ...settings, modelSettings: { ...settings.modelSettings, pose: 'Walking' } };
+        expect(compile(template).render(walking, variables)).toBe('posing: walking');
+    });
+
+    it('uses values without a phrase as-is when there is no fallback', () => {
+        expect(render({ prompt: '{{modelSettings.pose|phrase}}', phrases: { 'modelSettings.pose': { sitting: 'seated' } } })).toBe('Standing');
+    });
+
+    it('lists the variables it refers to, including through partials', () => {
+        expect(compile({ prompt: '{{subject}}', partials: { subject: 'a model wearing {{garments}}' } }).variables).toEqual(new Set(['garments']));
+        expect(compile({ prompt: 'a model wearing the clothing item shown in the provided image' }).variables.size).toBe(0);
+    });
+
+    it('renders single partials, or null when they are not defined', () => {
+        const template = compile({ prompt: '{{background}}', partials: { background: 'in front of {{environmentSettings.backgroundPreset}}' } });
+        expect(template.renderPartial('background', settings, variables)).toBe('in front of studio-white');
+        expect(template.renderPartial('lighting', settings, variables)).toBeNull();
+    });
+});
+
+describe('compilePromptTemplate checks', () => {
+    it.each([
+        ['unknown placeholders', { prompt: '{{modelSettings.shoeSize}}' }, 'Unknown placeholder'],
+        ['unknown filters', { prompt: '{{modelSettings.pose|title}}' }, 'Unknown filter "title"'],
+        ['unclosed sections', { prompt: '{{#if modelSettings.pose}}posed' }, 'Missing {{/if}}'],
+        ['stray {{else}}', { prompt: 'a{{else}}b' }, 'Unexpected {{else}}'],
+        ['{{value}} outside phrases', { prompt: '{{value}}' }, 'only available in phrases'],
+        ['phrase filters without a phrase map', { prompt: '{{modelSettings.pose|phrase}}' }, 'needs a phrases.modelSettings.pose map'],
+        ['reserved partial names', { prompt: 'x', partials: { 'modelSettings.pose': 'y' } }, 'Name is reserved'],
+        ['partials named after variables', { prompt: 'x', partials: { garments: 'y' } }, 'Name is reserved'],
+        ['partial cycles', { prompt: '{{a}}', partials: { a: '{{b}}', b: '{{a}}' } }, 'cycle'],
+    ])('rejects %s', (_case, template, message) => {
+        expect(() => compile(template)).toThrow(TemplateError);
+        expect(() => compile(template)).toThrow(message);
+    });
+
+    it('names where the error is', () => {
+        expect(() => compile({ prompt: 'x', partials: { subject: '{{nope}}' } })).toThrow(/^partials\.subject: /);
+    });
+});
+
+describe('shipped templates', () => {
+    const dir = path.join(__dirname, 'templates');
+    it.each(fs.readdirSync(dir).filter(fileName => fileName.endsWith('.json')))('%s compiles and renders', fileName => {
+        const template = compile(JSON.parse(fs.readFileSync(path.join(dir, fileName), 'utf8')));
+        const prompt = template.render(settings, variables);
+        expect(prompt.trim()).not.toBe('');
+        expect(prompt).not.toMatch(/\{\{|\}\}/);
+    });
+});
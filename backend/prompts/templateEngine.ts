@@ -0,0 +1,226 @@
+// Prompt template engine: parses and renders the placeholder syntax used by prompt template files.
+//
+//   {{modelSettings.gender}}            settings field value
+//   {{subject}}                         partial defined in the template file
+//   {{value}}                           option value, inside phrase templates only
+//   {{garments}}                        request variable computed by the server (see TemplateVariables)
+//   {{modelSettings.pose|lower}}        filters: lower, upper, trim, phrase (per-option phrase map)
+//   {{#if name}}...{{else}}...{{/if}}   rendered when the (filtered) value is non-empty
+//
+// Templates are compiled once, which checks every name and filter, so a broken file is rejected
+// when it is loaded rather than when a user generates an image.
+
+import { GenerationSettings, PromptTemplate, SettingsFieldPath, SettingsGroup, isSettingsFieldPath } from 'shared';
+
+interface Reference {
+    name: string;
+    filters: string[];
+}
+
+type TemplateNode =
+    | { type: 'text'; text: string }
+    | ({ type: 'value' } & Reference)
+    | { type: 'if'; condition: Reference; then: TemplateNode[]; otherwise: TemplateNode[] };
+
+const FILTERS = ['lower', 'upper', 'trim', 'phrase'];
+const PHRASE_FALLBACK_KEY = '*';
+const TAG_PATTERN = /\{\{\s*(.*?)\s*\}\}/g;
+const MAX_DEPTH = 32; // Phrases can reach partials that apply phrases again; keeps rendering bounded
+
+// Raised for templates that can't be parsed or reference unknown names; `where` locates the string
+export class TemplateError extends Error {
+    constructor(where: string, message: string) {
+        super(`${where}: ${message}`);
+        this.name = 'TemplateError';
+    }
+}
+
+function parseReference(expression: string, where: string): Reference {
+    const [name, ...filters] = expression.split('|').map(part => part.trim());
+    if (!name) throw new TemplateError(where, 'Empty placeholder.');
+    for (const filter of filters) {
+        if (!FILTERS.includes(filter)) throw new TemplateError(where, `Unknown filter "${filter}" (use ${FILTERS.join(', ')}).`);
+    }
+    return { name, filters };
+}
+
+function parse(source: string, where: string): TemplateNode[] {
+    const root: TemplateNode[] = [];
+    // Open sections, innermost last; target() is the list the next node belongs to
+    const stack: { node: Extract<TemplateNode, { type: 'if' }>; inElse: boolean }[] = [];
+    const target = () => {
+        const open = stack[stack.length - 1];
+        return open ? (open.inElse ? open.node.otherwise : open.node.then) : root;
+    };
+
+    let lastIndex = 0;
+    for (const match of source.matchAll(TAG_PATTERN)) {
+        if (match.index > lastIndex) target().push({ type: 'text', text: source.slice(lastIndex, match.index) });
+        lastIndex = match.index + match[0].length;
+
+        const tag = match[1];
+        if (tag.startsWith('#if ')) {
+            const node: Extract<TemplateNode, { type: 'if' }> = { type: 'if', condition: parseReference(tag.slice(4), where), then: [], otherwise: [] };
+            target().push(node);
+            stack.push({ node, inElse: false });
+        } else if (tag === 'else') {
+            const open = stack[stack.length - 1];
+            if (!open || open.inElse) throw new TemplateError(where, 'Unexpected {{else}}.');
+            open.inElse = true;
+        } else if (tag === '/if') {
+            if (!stack.pop()) throw new TemplateError(where, 'Unexpected {{/if}}.');
+        } else if (tag.startsWith('#') || tag.startsWith('/')) {
+            throw new TemplateError(where, `Unknown section "{{${tag}}}".`);
+        } else {
+            target().push({ type: 'value', ...parseReference(tag, where) });
+        }
+    }
+    if (lastIndex < source.length) target().push({ type: 'text', text: source.slice(lastIndex) });
+    if (stack.length > 0) throw new TemplateError(where, 'Missing {{/if}}.');
+    return root;
+}
+
+// Every reference in a node list, including those inside sections
+function* references(nodes: TemplateNode[]): Generator<Reference> {
+    for (const node of nodes) {
+        if (node.type === 'value') yield node;
+        if (node.type === 'if') {
+            yield node.condition;
+            yield* references(node.then);
+            yield* references(node.otherwise);
+        }
+    }
+}
+
+type CompiledPartial = { nodes: TemplateNode[] } | { join: string; items: TemplateNode[][] };
+
+// Per-request values that aren't settings fields
+export interface TemplateVariables {
+    garments: string; // The uploaded garments, referenced by role ("the top shown in image 1 and ...")
+}
+
+const VARIABLE_NAMES: (keyof TemplateVariables)[] = ['garments'];
+
+function isVariableName(name: string): name is keyof TemplateVariables {
+    return (VARIABLE_NAMES as string[]).includes(name);
+}
+
+interface RenderScope {
+    settings: GenerationSettings;
+    variables: TemplateVariables;
+    value?: string; // Set while rendering a phrase
+}
+
+export interface CompiledPromptTemplate {
+    variables: ReadonlySet<keyof TemplateVariables>; // Variables the template refers to
+    render(settings: GenerationSettings, variables: TemplateVariables): string;
+    // One partial on its own, e.g. "background" for a background swap; null when the template doesn't define it
+    renderPartial(name: string, settings: GenerationSettings, variables: TemplateVariables): string | null;
+}
+
+function getSettingsValue(settings: GenerationSettings, fieldPath: SettingsFieldPath) {
+    const [group, field] = fieldPath.split('.') as [SettingsGroup, string];
+    const value = (settings[group] as Record<string, unknown> | undefined)?.[field];
+    return typeof value === 'string' ? value : '';
+}
+
+// Parses and checks a template; throws TemplateError for anything that would fail at render time
+export function compilePromptTemplate(template: PromptTemplate): CompiledPromptTemplate {
+    const partials = new Map<string, CompiledPartial>();
+    for (const [name, partial] of Object.entries(template.partials)) {
+        if (isSettingsFieldPath(name) || isVariableName(name) || name === 'value') throw new TemplateError(`partials.${name}`, 'Name is reserved.');
+        partials.set(name, typeof partial === 'string'
+            ? { nodes: parse(partial, `partials.${name}`) }
+            : { join: partial.join, items: partial.items.map((item, index) => parse(item, `partials.${name}.items[${index}]`)) });
+    }
+
+    // Phrase keys are matched case-insensitively
+    const phrases = new Map<string, Map<string, TemplateNode[]>>();
+    for (const [fieldPath, options] of Object.entries(template.phrases)) {
+        if (!isSettingsFieldPath(fieldPath)) throw new TemplateError(`phrases.${fieldPath}`, 'Not a settings field.');
+        phrases.set(fieldPath, new Map(Object.entries(options).map(([option, phrase]) =>
+            [option.toLowerCase(), parse(phrase, `phrases.${fieldPath}.${option}`)])));
+    }
+
+    const prompt = parse(template.prompt, 'prompt');
+
+    // --- Checks ---
+    const variables = new Set<keyof TemplateVariables>();
+    const check = (nodes: TemplateNode[], where: string, inPhrase: boolean) => {
+        for (const { name, filters } of references(nodes)) {
+            if (isVariableName(name)) variables.add(name);
+            if (name === 'value') {
+                if (!inPhrase) throw new TemplateError(where, '{{value}} is only available in phrases.');
+            } else if (!partials.has(name) && !isSettingsFieldPath(name) && !isVariableName(name)) {
+                throw new TemplateError(where, `Unknown placeholder "${name}".`);
+            }
+            if (filters.includes('phrase') && !phrases.has(name)) {
+                throw new TemplateError(where, `"${name}|phrase" needs a phrases.${name} map.`);
+            }
+        }
+    };
+    const partialNodes = (partial: CompiledPartial) => ('nodes' in partial ? [partial.nodes] : partial.items);
+    check(prompt, 'prompt', false);
+    for (const [name, partial] of partials) partialNodes(partial).forEach(nodes => check(nodes, `partials.${name}`, false));
+    for (const [fieldPath, options] of phrases) {
+        for (const [option, nodes] of options) check(nodes, `phrases.${fieldPath}.${option}`, true);
+    }
+
+    // Partials may reference each other, but not in a cycle
+    const visiting = new Set<string>();
+    const visited = new Set<string>();
+    const visit = (name: string) => {
+        if (visited.has(name)) return;
+        if (visiting.has(name)) throw new TemplateError(`partials.${name}`, 'Partials reference each other in a cycle.');
+        visiting.add(name);
+        for (const nodes of partialNodes(partials.get(name)!)) {
+            for (const reference of references(nodes)) if (partials.has(reference.name)) visit(reference.name);
+        }
+        visiting.delete(name);
+        visited.add(name);
+    };
+    for (const name of partials.keys()) visit(name);
+
+    // --- Rendering ---
+    const renderNodes = (nodes: TemplateNode[], scope: RenderScope, depth: number): string => nodes.map(node => {
+        if (node.type === 'text') return node.text;
+        if (node.type === 'value') return resolve(node, scope, depth);
+        return renderNodes(resolve(node.condition, scope, depth) ? node.then : node.otherwise, scope, depth);
+    }).join('');
+
+    const resolve = ({ name, filters }: Reference, scope: RenderScope, depth: number): string => {
+        if (depth > MAX_DEPTH) throw new TemplateError(name, 'Template nesting is too deep.');
+        let value: string;
+        const partial = partials.get(name);
+        if (name === 'value') {
+            value = scope.value ?? '';
+        } else if (isVariableName(name)) {
+            value = scope.variables[name];
+        } else if (partial) {
+            value = 'nodes' in partial
+                ? renderNodes(partial.nodes, scope, depth + 1)
+                : partial.items.map(item => renderNodes(item, scope, depth + 1).trim()).filter(Boolean).join(partial.join);
+        } else {
+            value = getSettingsValue(scope.settings, name as SettingsFieldPath);
+        }
+
+        for (const filter of filters) {
+            if (filter === 'lower') value = value.toLowerCase();
+            else if (filter === 'upper') value = value.toUpperCase();
+            else if (filter === 'trim') value = value.trim();
+            else if (filter === 'phrase') {
+                const options = phrases.get(name)!;
+                const phrase = options.get(value.toLowerCase()) ?? options.get(PHRASE_FALLBACK_KEY);
+                // Values without a phrase (and no "*" fallback) are used as-is
+                if (phrase) value = renderNodes(phrase, { ...scope, value }, depth + 1);
+            }
+        }
+        return value;
+    };
+
+    return {
+        variables,
+        render: (settings, values) => renderNodes(prompt, { settings, variables: values }, 0),
+        renderPartial: (name, settings, values) => (partials.has(name) ? resolve({ name, filters: [] }, { settings, variables: values }, 0) : null),
+    };
+}
@@ -0,0 +1,116 @@
+// Gemini image generation through the Google Generative AI SDK.
+// One instance per enabled model; the SDK client is created when the provider is, not at module load.
+
+import { GoogleGenerativeAI, GenerativeModel, FinishReason, Content } from '@google/generative-ai';
+import { GARMENT_ROLE_LABELS } from 'shared';
+import type { GeneratedImage, ImageGenerationInput, ImageProvider } from './imageProvider';
+import { AppError } from '../errors';
+
+interface GeminiImageProviderOptions {
+    id: string;
+    label: string;
+    model: string;
+    apiKey: string;
+}
+
+// Finish reasons that mean the safety filters stopped the output
+const SAFETY_FINISH_REASONS: string[] = [FinishReason.SAFETY, FinishReason.RECITATION, 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII', 'IMAGE_SAFETY'];
+
+class GeminiImageProvider implements ImageProvider {
+    readonly id: string;
+    readonly label: string;
+    readonly model: string;
+    readonly offline = false;
+    private generativeModel: GenerativeModel;
+
+    constructor({ id, label, model, apiKey }: GeminiImageProviderOptions) {
+        this.id = id;
+        this.label = label;
+        this.model = model;
+        this.generativeModel = new GoogleGenerativeAI(apiKey).getGenerativeModel({
+            model,
+            // responseModalities is accepted by the API but missing from this SDK's GenerationConfig type
+            generationConfig: { responseModalities: ["Text", "Image"] } as GenerativeModel['generationConfig'],
+            // Default safety settings
+        });
+    }
+
+    async generate({ prompt, images, history = [], mask, referenceImage, signal }: ImageGenerationInput): Promise<GeneratedImage> {
+        console.log(`Calling Gemini API (${this.model}) with ${images.length} garment image(s) and ${history.length} earlier turn(s)...`);
+        // Each garment is its own image part; with several, a label part before each matches the prompt's "image N"
+        const imageParts = images.flatMap((image, index) => [
+            ...(images.length > 1 ? [{ text: `Image ${index + 1}: ${GARMENT_ROLE_LABELS[image.role]}` }] : []),
+            { inlineData: { data: image.data, mimeType: image.mimeType } },
+        ]);
+        // Earlier turns are replayed as user/model pairs, so the model edits its own last image
+        const contents: Content[] = [
+            ...history.flatMap((turn): Content[] => [
+                { role: 'user', parts: [{ text: turn.prompt }] },
+                { role: 'model', parts: [{ inlineData: { data: turn.image.data, mimeType: turn.image.mimeType } }] },
+            ]),
+            {
+                role: 'user',
+                parts: [
+                    { text: prompt },
+                    ...imageParts,
+                    ...(mask ? [{ text: 'Mask:' }, { inlineData: mask }] : []),
+                    // Labelled so the model doesn't take the reference photo for another garment
+                    ...(referenceImage ? [{ text: 'Model reference (not a garment):' }, { inlineData: referenceImage }] : []),
+                ],
+            },
+        ];
+        const result = await this.generativeModel.generateContent({ contents }, { signal });
+
+        // --- Handle Gemini Response ---
+        const response = result.response;
+        const candidate = response?.candidates?.[0];
+
+        if (!candidate || (candidate.finishReason && candidate.finishReason !== FinishReason.STOP)) {
+            // Handle blocked/failed responses
+            console.error('Gemini API Error: Request may have been blocked or failed post-call.', { finishReason: candidate?.finishReason, safetyRatings: candidate?.safetyRatings, promptFeedback: response?.promptFeedback });
+            const blockReason = response?.promptFeedback?.blockReason;
+            const finishReason = candidate?.finishReason;
+            const details = { blockReason, finishReason, safetyRatings: candidate?.safetyRatings || response?.promptFeedback?.safetyRatings };
+            if (blockReason || (finishReason && SAFETY_FINISH_REASONS.includes(finishReason))) {
+                throw new AppError('SAFETY_BLOCKED', 'The image was blocked by the model\'s safety filters.', { details });
+            }
+            throw new AppError('NO_IMAGE_RETURNED', `The model stopped without returning an image (${finishReason || 'no candidates'}).`, { details });
+        }
+        if (!candidate.content?.parts?.length) {
+            // Handle empty responses
+            console.error('Gemini API Error: No content parts received.', response);
+            throw new AppError('NO_IMAGE_RETURNED', 'The model returned an empty response.');
+        }
+
+        // --- Process Generated Content Parts ---
+        let generatedImageData: string | null = null;
+        let generatedMimeType: string | null = null;
+        let textResponse: string | null = null;
+        console.log("Iterating through response parts...");
+        for (const part of candidate.content.parts) {
+            if (part.inlineData && part.inlineData.data && part.inlineData.mimeType?.startsWith('image/')) {
+                generatedImageData = part.inlineData.data;
+                generatedMimeType = part.inlineData.mimeType;
+                console.log(`Found image part with mimeType: ${generatedMimeType}`);
+            } else if (part.text) {
+                textResponse = part.text;
+                console.log(`Found text part: "${textResponse}"`);
+            }
+        }
+
+        if (!generatedImageData) {
+            // --- Handle case where NO image was generated ---
+            console.error('Gemini API Error: No image data found in the response parts.');
+            // The model's text usually explains why it declined; it goes in details rather than the message
+            throw new AppError('NO_IMAGE_RETURNED', 'The model answered without an image.', {
+                details: { modelText: textResponse, blockReason: response?.promptFeedback?.blockReason },
+            });
+        }
+
+        console.log('Gemini API Success: Found generated image data.');
+        if (textResponse) console.warn('Received text alongside image:', textResponse);
+        return { data: generatedImageData, mimeType: generatedMimeType, textResponse };
+    }
+}
+
+export default GeminiImageProvider;
@@ -0,0 +1,103 @@
+// Image-generation providers - shared contract and registry.
+//
+// A provider turns a prompt plus the uploaded garment images - or, for a refinement, the earlier turns of the
+// conversation - into one generated image. The server wraps
+// every call with its own timeout, retries and cancellation, so providers only make a single attempt.
+
+import type { GarmentRole, ProviderInfo } from 'shared';
+import GeminiImageProvider from './geminiImageProvider';
+import MockImageProvider from './mockImageProvider';
+
+export interface GarmentImageInput {
+    data: string; // Base64
+    mimeType: string;
+    role: GarmentRole;
+}
+
+// An earlier exchange of a multi-turn edit: what was asked, and the image the model answered with
+export interface ConversationTurn {
+    prompt: string;
+    image: { data: string; mimeType: string }; // Base64
+}
+
+export interface ImageGenerationInput {
+    prompt: string;
+    images: GarmentImageInput[]; // Garment images, in the order the prompt numbers them ("image 1", ...)
+    // Earlier exchanges, oldest first. Set for refinements, where `prompt` is the follow-up instruction
+    // and the last turn's image is the one to edit.
+    history?: ConversationTurn[];
+    // Inpainting mask for the last turn's image: white marks the region to regenerate, black the pixels to keep
+    mask?: { data: string; mimeType: string }; // Base64
+    // Reference photo of the model to keep (a saved model identity), sent after the garments
+    referenceImage?: { data: string; mimeType: string }; // Base64
+    signal?: AbortSignal;
+}
+
+export interface GeneratedImage {
+    data: string; // Base64
+    mimeType: string | null;
+    textResponse: string | null; // Text the model sent alongside the image
+}
+
+export interface ImageProvider {
+    readonly id: string; // Stable id clients send as `provider`
+    readonly label: string;
+    readonly model: string; // Underlying model name, stored with every generation
+    readonly offline: boolean; // True when no network access is needed
+    // Throws an AppError (or an SDK error that classifyModelError understands) when no image was produced
+    generate(input: ImageGenerationInput): Promise<GeneratedImage>;
+}
+
+export interface ImageProviderRegistry {
+    list(): ImageProvider[];
+    // Null for ids that aren't enabled
+    get(id: string): ImageProvider | null;
+    readonly defaultProvider: ImageProvider;
+}
+
+// Known provider ids and the Gemini model behind each
+const GEMINI_MODELS: Record<string, { label: string; model: string }> = {
+    'gemini-2.0-flash-exp': { label: 'Gemini 2.0 Flash (experimental)', model: 'gemini-2.0-flash-exp-image-generation' },
+    'gemini-2.5-flash-image': { label: 'Gemini 2.5 Flash Image', model: 'gemini-2.5-flash-image-preview' },
+};
+
+function createProvider(id: string, geminiApiKey: string | undefined): ImageProvider {
+    if (id === 'mock') {
+        return new MockImageProvider({ latencyMs: parseInt(process.env.MOCK_LATENCY_MS ?? '', 10) || 500 });
+    }
+    const gemini = GEMINI_MODELS[id];
+    if (gemini) {
+        if (!geminiApiKey) throw new Error(`Image provider "${id}" needs GEMINI_API_KEY.`);
+        return new GeminiImageProvider({ id, ...gemini, apiKey: geminiApiKey });
+    }
+    throw new Error(`Unknown image provider "${id}". Use ${[...Object.keys(GEMINI_MODELS), 'mock'].map(known => `"${known}"`).join(', ')}.`);
+}
+
+// Enables the providers listed in IMAGE_PROVIDERS (comma-separated). Without it, the Gemini providers
+// are enabled when GEMINI_API_KEY is set and the offline mock otherwise. IMAGE_PROVIDER_DEFAULT picks
+// the default (first enabled provider when unset).
+export function createImageProviders({
+    ids = process.env.IMAGE_PROVIDERS,
+    defaultId = process.env.IMAGE_PROVIDER_DEFAULT,
+    geminiApiKey = process.env.GEMINI_API_KEY,
+}: { ids?: string; defaultId?: string; geminiApiKey?: string } = {}): ImageProviderRegistry {
+    const enabledIds = ids
+        ? ids.split(',').map(id => id.trim()).filter(Boolean)
+        : (geminiApiKey ? Object.keys(GEMINI_MODELS) : ['mock']);
+    if (enabledIds.length === 0) throw new Error('IMAGE_PROVIDERS must list at least one provider.');
+
+    const providers = new Map(enabledIds.map(id => [id, createProvider(id, geminiApiKey)]));
+    const defaultProvider = providers.get(defaultId || enabledIds[0]);
+    if (!defaultProvider) throw new Error(`IMAGE_PROVIDER_DEFAULT "${defaultId}" is not in IMAGE_PROVIDERS.`);
+
+    return {
+        list: () => [...providers.values()],
+        get: (id) => providers.get(id) ?? null,
+        defaultProvider,
+    };
+}
+
+// Public description of a provider for GET /providers
+export function toProviderInfo(provider: ImageProvider): ProviderInfo {
+    return { id: provider.id, label: provider.label, model: provider.model, offline: provider.offline };
+}
@@ -0,0 +1,113 @@
+// Offline mock provider for development and end-to-end tests.
+// Returns an SVG placeholder that composites the uploaded garments (or, for a refinement, the image being edited)
+// over a background whose colour is derived from the prompt, so the same prompt and garments always produce the same image.
+
+import crypto from 'crypto';
+import { GARMENT_ROLE_LABELS } from 'shared';
+import type { GarmentImageInput, GeneratedImage, ImageGenerationInput, ImageProvider } from './imageProvider';
+import { sleep } from '../retry';
+
+const WIDTH = 768;
+const HEIGHT = 1024;
+const GARMENT_AREA = { x: 84, y: 80, width: 600, height: 720 };
+
+function escapeXml(text: string) {
+    return text.replace(/[<>&'"]/g, char => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', "'": '&apos;', '"': '&quot;' })[char]!);
+}
+
+// Splits the prompt into short lines for the caption; anything past `maxLines` is dropped
+function wrapText(text: string, lineLength: number, maxLines: number) {
+    const lines: string[] = [];
+    let line = '';
+    for (const word of text.split(/\s+/).filter(Boolean)) {
+        if (line && line.length + word.length + 1 > lineLength) {
+            lines.push(line);
+            if (lines.length === maxLines) return lines;
+            line = word;
+        } else {
+            line = line ? `${line} ${word}` : word;
+        }
+    }
+    if (line) lines.push(line);
+    return lines.slice(0, maxLines);
+}
+
+// One garment fills the area; several are tiled two per row, each labelled with its role
+function garmentTiles(images: GarmentImageInput[]) {
+    const columns = images.length === 1 ? 1 : 2;
+    const rows = Math.ceil(images.length / columns);
+    const width = GARMENT_AREA.width / columns;
+    const height = GARMENT_AREA.height / rows;
+    return images.map((image, index) => {
+        const x = GARMENT_AREA.x + (index % columns) * width;
+        const y = GARMENT_AREA.y + Math.floor(index / columns) * height;
+        const href = `data:${image.mimeType};base64,${image.data}`;
+        const label = images.length > 1
+            ? `<text x="${x + 8}" y="${y + height - 8}" font-family="sans-serif" font-size="16" fill="#1f2937">${index + 1}. ${escapeXml(GARMENT_ROLE_LABELS[image.role])}</text>`
+            : '';
+        return `<image x="${x}" y="${y}" width="${width}" height="${height - (label ? 28 : 0)}" preserveAspectRatio="xMidYMid meet" href="${href}" xlink:href="${href}"/>${label}`;
+    }).join('');
+}
+
+// Tints the inpainted region so it stands out: the mask's white area, over the garment area
+function maskOverlay(mask: { data: string; mimeType: string }) {
+    const href = `data:${mask.mimeType};base64,${mask.data}`;
+    const { x, y, width, height } = GARMENT_AREA;
+    return `<image x="${x}" y="${y}" width="${width}" height="${height}" preserveAspectRatio="xMidYMid meet" opacity="0.35" style="mix-blend-mode:screen" href="${href}" xlink:href="${href}"/>`;
+}
+
+// Shows the model reference as an inset in the top-right corner
+function referenceInset(referenceImage: { data: string; mimeType: string }) {
+    const href = `data:${referenceImage.mimeType};base64,${referenceImage.data}`;
+    const size = 140;
+    const x = WIDTH - size - 24;
+    return `<rect x="${x - 4}" y="20" width="${size + 8}" height="${size + 8}" fill="#ffffff" stroke="#1f2937" stroke-width="2"/>`
+        + `<image x="${x}" y="24" width="${size}" height="${size}" preserveAspectRatio="xMidYMid slice" href="${href}" xlink:href="${href}"/>`;
+}
+
+class MockImageProvider implements ImageProvider {
+    readonly id = 'mock';
+    readonly label = 'Offline mock';
+    readonly model = 'mock';
+    readonly offline = true;
+    private latencyMs: number;
+
+    constructor({ latencyMs }: { latencyMs: number }) {
+        this.latencyMs = latencyMs; // Simulated call duration, so loading states are visible
+    }
+
+    async generate({ prompt, images, history = [], mask, referenceImage, signal }: ImageGenerationInput): Promise<GeneratedImage> {
+        await sleep(this.latencyMs, signal);
+
+        // A refinement shows the image being edited in place of the garments
+        const lastTurn = history[history.length - 1];
+        const shownImages: GarmentImageInput[] = lastTurn ? [{ ...lastTurn.image, role: 'garment' }, ...images] : images;
+
+        const hash = crypto.createHash('sha256').update(prompt);
+        shownImages.forEach(image => hash.update(image.data));
+        if (mask) hash.update(mask.data);
+        if (referenceImage) hash.update(referenceImage.data);
+        const digest = hash.digest('hex');
+        const hue = parseInt(digest.slice(0, 4), 16) % 360;
+        const caption = wrapText(prompt.replace(/^CREATE A PHOTOREALISTIC IMAGE of /, ''), 60, 4)
+            .map((line, index) => `<text x="40" y="${HEIGHT - 150 + index * 26}" font-size="18">${escapeXml(line)}</text>`)
+            .join('');
+
+        const svg = `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="${WIDTH}" height="${HEIGHT}" viewBox="0 0 ${WIDTH} ${HEIGHT}">`
+            + `<defs><linearGradient id="bg" x1="0" y1="0" x2="0" y2="1">`
+            + `<stop offset="0" stop-color="hsl(${hue}, 45%, 85%)"/><stop offset="1" stop-color="hsl(${(hue + 40) % 360}, 45%, 65%)"/>`
+            + `</linearGradient></defs>`
+            + `<rect width="${WIDTH}" height="${HEIGHT}" fill="url(#bg)"/>`
+            + garmentTiles(shownImages)
+            + (mask ? maskOverlay(mask) : '')
+            + (referenceImage ? referenceInset(referenceImage) : '')
+            + `<g font-family="sans-serif" fill="#1f2937">`
+            + `<text x="40" y="50" font-size="24" font-weight="bold">MOCK ${digest.slice(0, 8)}</text>`
+            + caption
+            + `</g></svg>`;
+
+        return { data: Buffer.from(svg).toString('base64'), mimeType: 'image/svg+xml', textResponse: null };
+    }
+}
+
+export default MockImageProvider;
@@ -0,0 +1,47 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { backoffDelay, retryPolicyFromEnv, sleep } from './retry';
+
+const policy = { maxAttempts: 5, baseDelayMs: 1000, maxDelayMs: 5000 };
+
+afterEach(() => {
+    vi.restoreAllMocks();
+});
+
+describe('backoffDelay', () => {
+    it('doubles the cap per failed attempt', () => {
+        vi.spyOn(Math, 'random').mockReturnValue(1);
+        expect([1, 2, 3].map(attempt => backoffDelay(policy, attempt))).toEqual([1000, 2000, 4000]);
+    });
+
+    it('never exceeds maxDelayMs', () => {
+        vi.spyOn(Math, 'random').mockReturnValue(1);
+        expect(backoffDelay(policy, 4)).toBe(5000);
+        expect(backoffDelay(policy, 20)).toBe(5000);
+    });
+
+    it('picks a random delay below the cap (full jitter)', () => {
+        vi.spyOn(Math, 'random').mockReturnValue(0);
+        expect(backoffDelay(policy, 3)).toBe(0);
+        vi.spyOn(Math, 'random').mockReturnValue(0.25);
+        expect(backoffDelay(policy, 3)).toBe(1000);
+    });
+});
+
+describe('retryPolicyFromEnv', () => {
+    it('falls back to the defaults for missing or invalid values', () => {
+        expect(retryPolicyFromEnv({ GEMINI_MAX_ATTEMPTS: '0', GEMINI_RETRY_BASE_MS: 'soon' })).toEqual({ maxAttempts: 3, baseDelayMs: 1000, maxDelayMs: 10000 });
+        expect(retryPolicyFromEnv({ GEMINI_MAX_ATTEMPTS: '4', GEMINI_RETRY_MAX_MS: '2500' })).toEqual({ maxAttempts: 4, baseDelayMs: 1000, maxDelayMs: 2500 });
+    });
+});
+
+describe('sleep', () => {
+    it('resolves early when the signal aborts', async () => {
+        vi.useFakeTimers();
+        const controller = new AbortController();
+        const done = sleep(60_000, controller.signal);
+        controller.abort();
+        await expect(done).resolves.toBeUndefined();
+        expect(vi.getTimerCount()).toBe(0);
+        vi.useRealTimers();
+    });
+});
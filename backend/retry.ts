@@ -0,0 +1,44 @@
+// Retry policy for model calls: capped exponential backoff with full jitter.
+// Only errors whose retryable flag is set are retried; the caller decides that per attempt.
+
+export interface RetryPolicy {
+    maxAttempts: number; // Total attempts, including the first
+    baseDelayMs: number; // Delay cap before the second attempt; doubles per attempt
+    maxDelayMs: number; // Upper bound for any single delay
+}
+
+function positiveIntFromEnv(value: string | undefined, fallback: number) {
+    const parsed = parseInt(value ?? '', 10);
+    return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+// GEMINI_MAX_ATTEMPTS (default 3), GEMINI_RETRY_BASE_MS (default 1000), GEMINI_RETRY_MAX_MS (default 10000)
+export function retryPolicyFromEnv(env: NodeJS.ProcessEnv = process.env): RetryPolicy {
+    return {
+        maxAttempts: positiveIntFromEnv(env.GEMINI_MAX_ATTEMPTS, 3),
+        baseDelayMs: positiveIntFromEnv(env.GEMINI_RETRY_BASE_MS, 1000),
+        maxDelayMs: positiveIntFromEnv(env.GEMINI_RETRY_MAX_MS, 10000),
+    };
+}
+
+// Delay before the attempt after `failedAttempt` (1-based): random in [0, min(max, base * 2^(failedAttempt - 1))]
+export function backoffDelay(policy: RetryPolicy, failedAttempt: number) {
+    const cap = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (failedAttempt - 1));
+    return Math.round(Math.random() * cap);
+}
+
+// Waits `ms`, resolving early (without throwing) once `signal` aborts
+export function sleep(ms: number, signal?: AbortSignal) {
+    return new Promise<void>(resolve => {
+        if (signal?.aborted) return resolve();
+        const onAbort = () => {
+            clearTimeout(timer);
+            resolve();
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
@@ -0,0 +1,48 @@
+// One-shot import of the legacy uploads/metadata.json into the SQLite metadata store.
+// Usage: npm run migrate:metadata
+// Safe to re-run: records whose generationId already exists are skipped. On success the
+// JSON file is renamed to metadata.json.migrated so the server stops suggesting the migration.
+
+import fs from 'fs';
+import path from 'path';
+import { GenerationRecord, GenerationRecordSchema } from 'shared';
+import SqliteGenerationRepository from '../storage/sqliteGenerationRepository';
+
+const UPLOADS_DIR = path.join(__dirname, '..', 'uploads');
+const LEGACY_METADATA_FILE = path.join(UPLOADS_DIR, 'metadata.json');
+const DATABASE_FILE = path.join(UPLOADS_DIR, 'generations.db');
+
+function main() {
+    if (!fs.existsSync(LEGACY_METADATA_FILE)) {
+        console.log(`Nothing to migrate: ${LEGACY_METADATA_FILE} does not exist.`);
+        return;
+    }
+
+    const metadata = JSON.parse(fs.readFileSync(LEGACY_METADATA_FILE, 'utf8'));
+    if (!Array.isArray(metadata)) {
+        throw new Error(`${LEGACY_METADATA_FILE} does not contain an array of records.`);
+    }
+
+    // Records that don't match the contract (e.g. written before generation ids existed) can't be served; skip them
+    // The original object is stored (not the parsed copy) so fields outside the contract are kept
+    const records = (metadata as unknown[]).filter((record): record is GenerationRecord => GenerationRecordSchema.safeParse(record).success);
+    const skipped = metadata.length - records.length;
+
+    const repository = new SqliteGenerationRepository(DATABASE_FILE);
+    try {
+        const added = repository.insertMany(records);
+        console.log(`Imported ${added} record(s); ${records.length - added} already present, ${skipped} invalid.`);
+    } finally {
+        repository.close();
+    }
+
+    fs.renameSync(LEGACY_METADATA_FILE, `${LEGACY_METADATA_FILE}.migrated`);
+    console.log(`Renamed ${LEGACY_METADATA_FILE} to metadata.json.migrated`);
+}
+
+try {
+    main();
+} catch (error) {
+    console.error('Metadata migration failed:', error);
+    process.exit(1);
+}
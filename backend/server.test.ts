@@ -0,0 +1,192 @@
+import { ChildProcess, spawn } from 'child_process';
+import fs from 'fs';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { BUILT_IN_PRESETS, GenerationJob, Sweep } from 'shared';
+
+// Runs the real server with the mock provider and a single job slot, so later jobs wait in the queue
+
+const settings = BUILT_IN_PRESETS[0].settings;
+const MOCK_LATENCY_MS = 1000;
+
+let server: ChildProcess;
+let uploadsDir: string;
+let baseUrl: string;
+
+function freePort() {
+    return new Promise<number>((resolve, reject) => {
+        const probe = net.createServer().listen(0, () => {
+            const { port } = probe.address() as net.AddressInfo;
+            probe.close(() => resolve(port));
+        }).on('error', reject);
+    });
+}
+
+// Smallest PNG the upload validation accepts; the mock provider never decodes it
+function png(size = 64) {
+    const chunk = (type: string, data: Buffer) => {
+        const header = Buffer.alloc(8);
+        header.writeUInt32BE(data.length, 0);
+        header.write(type, 4, 'latin1');
+        return Buffer.concat([header, data, Buffer.alloc(4)]);
+    };
+    const ihdr = Buffer.alloc(13);
+    ihdr.writeUInt32BE(size, 0);
+    ihdr.writeUInt32BE(size, 4);
+    return Buffer.concat([
+        Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+        chunk('IHDR', ihdr),
+        chunk('IDAT', Buffer.alloc(4)),
+        chunk('IEND', Buffer.alloc(0)),
+    ]);
+}
+
+// The fields of the response bodies these tests read
+interface ResponseBody {
+    job: GenerationJob;
+    sweep: Sweep;
+    uploadId: string;
+    code: string;
+    fieldErrors: { field: string; message: string }[];
+}
+
+async function api(method: string, route: string, body?: unknown) {
+    const response = await fetch(`${baseUrl}${route}`, {
+        method,
+        headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+        body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    return { status: response.status, body: await response.json() as ResponseBody };
+}
+
+async function waitForJob(jobId: string, timeoutMs = 15_000): Promise<GenerationJob> {
+    const deadline = Date.now() + timeoutMs;
+    for (;;) {
+        const { body } = await api('GET', `/jobs/${jobId}`);
+        if (body.job.status !== 'queued' && body.job.status !== 'running') return body.job;
+        if (Date.now() > deadline) throw new Error(`Job ${jobId} is still ${body.job.status}`);
+        await new Promise(resolve => setTimeout(resolve, 100));
+    }
+}
+
+beforeAll(async () => {
+    uploadsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'server-'));
+    const port = await freePort();
+    baseUrl = `http://localhost:${port}`;
+    server = spawn(path.join(__dirname, 'node_modules', '.bin', 'tsx'), ['server.ts'], {
+        cwd: __dirname,
+        env: {
+            ...process.env,
+            PORT: String(port),
+            UPLOADS_DIR: uploadsDir,
+            IMAGE_PROVIDERS: 'mock',
+            IMAGE_STORAGE: 'local',
+            METADATA_STORE: 'json',
+            MOCK_LATENCY_MS: String(MOCK_LATENCY_MS),
+            MAX_RUNNING_JOBS: '1',
+        },
+        stdio: ['ignore', 'pipe', 'pipe'],
+    });
+    let output = '';
+    server.stderr!.on('data', chunk => { output += chunk; });
+    await new Promise<void>((resolve, reject) => {
+        server.stdout!.on('data', chunk => {
+            output += chunk;
+            if (output.includes('Server listening')) resolve();
+        });
+        server.on('exit', code => reject(new Error(`Server exited with ${code}:\n${output}`)));
+    });
+}, 60_000);
+
+afterAll(async () => {
+    if (server.exitCode === null) {
+        const exited = new Promise(resolve => server.once('exit', resolve));
+        server.kill();
+        await exited;
+    }
+    fs.rmSync(uploadsDir, { recursive: true, force: true });
+});
+
+async function uploadGarment(): Promise<string> {
+    const response = await fetch(`${baseUrl}/uploads`, { method: 'POST', headers: { 'Content-Type': 'image/png' }, body: png() });
+    expect(response.status).toBe(201);
+    return (await response.json() as ResponseBody).uploadId;
+}
+
+describe('generation jobs', () => {
+    it('queues jobs beyond MAX_RUNNING_JOBS and drains the queue in order', async () => {
+        const uploadId = await uploadGarment();
+        const created: GenerationJob[] = [];
+        for (let index = 0; index < 3; index++) {
+            const { status, body } = await api('POST', '/jobs', { settings, variationCount: 1, uploadId });
+            expect(status).toBe(202);
+            created.push(body.job);
+        }
+        expect(created.map(job => job.status)).toEqual(['running', 'queued', 'queued']);
+
+        const [first, second, third] = await Promise.all(created.map(job => waitForJob(job.id)));
+        expect([first.status, second.status, third.status]).toEqual(['completed', 'completed', 'completed']);
+        // Each job only started once the one before it had finished
+        expect(Date.parse(second.updatedAt) - Date.parse(first.updatedAt)).toBeGreaterThanOrEqual(MOCK_LATENCY_MS - 100);
+        expect(Date.parse(third.updatedAt) - Date.parse(second.updatedAt)).toBeGreaterThanOrEqual(MOCK_LATENCY_MS - 100);
+    }, 30_000);
+
+    it('cancels a queued job without ever running it', async () => {
+        const uploadId = await uploadGarment();
+        const running = (await api('POST', '/jobs', { settings, variationCount: 1, uploadId })).body.job;
+        const queued = (await api('POST', '/jobs', { settings, variationCount: 1, uploadId })).body.job;
+        expect(queued.status).toBe('queued');
+
+        const cancelled = await api('DELETE', `/jobs/${queued.id}`);
+        expect(cancelled.status).toBe(200);
+        expect(cancelled.body.job).toMatchObject({ status: 'cancelled', error: { code: 'CANCELLED' } });
+
+        expect((await waitForJob(running.id)).status).toBe('completed');
+        // Cancelled before it started, so it never ran
+        expect((await api('GET', `/jobs/${queued.id}`)).body.job).toMatchObject({ status: 'cancelled', completedVariations: 0, results: null });
+
+        const again = await api('DELETE', `/jobs/${queued.id}`);
+        expect(again.status).toBe(409);
+        expect(again.body.code).toBe('CONFLICT');
+    }, 30_000);
+
+    it('rejects outfits on templates that describe a single garment', async () => {
+        const uploadId = await uploadGarment();
+        const garments = [{ role: 'top', uploadId }, { role: 'bottom', uploadId }];
+        const { status, body } = await api('POST', '/jobs', { settings, variationCount: 1, garments, promptTemplateVersion: 'v1' });
+        expect(status).toBe(400);
+        expect(body.fieldErrors.map(error => error.field)).toEqual(['garments']);
+    });
+
+    it('answers NOT_FOUND for unknown jobs', async () => {
+        const { status, body } = await api('DELETE', '/jobs/missing');
+        expect(status).toBe(404);
+        expect(body.code).toBe('NOT_FOUND');
+    });
+});
+
+describe('sweeps', () => {
+    it('cancels every combination that has not finished', async () => {
+        const uploadId = await uploadGarment();
+        const dimensions = [{ fieldPath: 'modelSettings.pose', values: ['Standing', 'Walking', 'Sitting'] }];
+        const created = await api('POST', '/sweeps', { request: { settings, variationCount: 1, uploadId }, dimensions });
+        expect(created.status).toBe(202);
+        const { sweep } = created.body;
+        expect(sweep.items.map(item => [item.values['modelSettings.pose'], item.job.status])).toEqual([
+            ['Standing', 'running'],
+            ['Walking', 'queued'],
+            ['Sitting', 'queued'],
+        ]);
+
+        const cancelled = await api('DELETE', `/sweeps/${sweep.id}`);
+        expect(cancelled.status).toBe(200);
+        expect(cancelled.body.sweep.items.map(item => item.job.status)).toEqual(['cancelled', 'cancelled', 'cancelled']);
+        expect((await api('DELETE', `/sweeps/${sweep.id}`)).status).toBe(409);
+
+        // The queue is free again once the cancelled running job stops
+        const next = (await api('POST', '/jobs', { settings, variationCount: 1, uploadId })).body.job;
+        expect((await waitForJob(next.id)).status).toBe('completed');
+    }, 30_000);
+});
@@ -0,0 +1,1641 @@
+import dotenv from 'dotenv';
+import express from 'express';
+import cors from 'cors';
+import { v4 as uuidv4 } from 'uuid';
+import fs from 'fs';
+import path from 'path';
+import {
+    ApiErrorResponse,
+    BackgroundRemovalRequestSchema,
+    BackgroundSwapRequest,
+    BackgroundSwapRequestSchema,
+    BackgroundSwapSettings,
+    BulkDeleteRequestSchema,
+    CreateIdentityRequestSchema,
+    GARMENT_ROLE_LABELS,
+    GarmentRole,
+    CreatePresetRequestSchema,
+    GenerateRequest,
+    GenerateRequestSchema,
+    GenerateResponse,
+    GenerationAttempt,
+    GenerationJob,
+    GenerationRecord,
+    GenerationSettings,
+    HistoryFilter,
+    HistoryQuery,
+    HistoryQuerySchema,
+    InpaintRequest,
+    InpaintRequestSchema,
+    MAX_GARMENTS,
+    MAX_REFINEMENT_DEPTH,
+    MAX_UPLOAD_BYTES,
+    ModelIdentity,
+    PresetFileSchema,
+    PromptOverride,
+    PromptPreviewRequestSchema,
+    RefineRequest,
+    RefineRequestSchema,
+    RefinementMode,
+    SETTINGS_FIELDS,
+    SettingsPreset,
+    Sweep,
+    SweepDimension,
+    SweepRequestSchema,
+    SweepValues,
+    UpdateIdentityRequestSchema,
+    UpdatePresetRequestSchema,
+    VariationResult,
+    applySweepValues,
+    expandSweep,
+    isSettingsFieldPath,
+    validationErrorResponse,
+} from 'shared';
+import { AppError, classifyModelError, sendError, toAppError } from './errors';
+import { backoffDelay, retryPolicyFromEnv, sleep } from './retry';
+import { GenerationRepository, createGenerationRepository } from './storage/generationRepository';
+import { PresetRepository, createPresetRepository } from './storage/presetRepository';
+import { IdentityRepository, createIdentityRepository } from './storage/identityRepository';
+import { ImageStorage, createImageStorage } from './storage/imageStorage';
+import { contentTypeFor, extensionFor } from './storage/imageFiles';
+import { ConversationTurn, GarmentImageInput, GeneratedImage, ImageGenerationInput, ImageProvider, ImageProviderRegistry, createImageProviders, toProviderInfo } from './providers/imageProvider';
+import { LoadedPromptTemplate, PromptTemplateStore, createPromptTemplateStore } from './prompts/promptTemplates';
+import { createBackgroundRemover } from './preprocessing/backgroundRemover';
+import { ImageInfo, imageLimitsFromEnv, inspectImage } from './preprocessing/imageValidation';
+
+// Load environment variables from .env file
+dotenv.config();
+
+// Initialize Express app
+const app = express();
+
+// --- Local Storage Setup ---
+const UPLOADS_DIR = process.env.UPLOADS_DIR || path.join(__dirname, 'uploads'); // Metadata stores and local images
+const IMAGES_DIR = path.join(UPLOADS_DIR, 'images'); // Only used by the local image storage
+const LEGACY_METADATA_FILE = path.join(UPLOADS_DIR, 'metadata.json'); // Pre-SQLite store, imported by `npm run migrate:metadata`
+const IMAGE_ROUTE_PREFIX = '/images';
+const UPLOADED_IMAGES_DIR = path.join(UPLOADS_DIR, 'inputs'); // Garments from POST /uploads, local image storage only
+const IDENTITY_IMAGES_DIR = path.join(UPLOADS_DIR, 'identities'); // Model identity reference crops, local image storage only
+const IDENTITY_IMAGE_ROUTE_PREFIX = '/identity-images';
+
+// --- Batch Generation Limits ---
+// MAX_VARIATIONS (images per request) is part of the shared contract
+const GENERATION_CONCURRENCY = parseInt(process.env.GENERATION_CONCURRENCY ?? '', 10) || 2; // Parallel Gemini calls per request
+const GEMINI_TIMEOUT_MS = parseInt(process.env.GEMINI_TIMEOUT_MS ?? '', 10) || 45000; // Per-call timeout
+const RETRY_POLICY = retryPolicyFromEnv(); // Attempts and backoff per variation for retryable failures
+
+// --- Generation Job Limits ---
+const MAX_RUNNING_JOBS = parseInt(process.env.MAX_RUNNING_JOBS ?? '', 10) || 2; // Jobs beyond this wait in the queue
+const JOB_RETENTION_MS = 60 * 60 * 1000; // Finished jobs stay pollable for one hour
+
+// --- Upload Limits ---
+// MAX_UPLOAD_BYTES (per image) is part of the shared contract
+const UPLOAD_RETENTION_MS = (parseFloat(process.env.UPLOAD_RETENTION_HOURS ?? '') || 24) * 60 * 60 * 1000; // Uploads are deleted after this
+const IMAGE_LIMITS = imageLimitsFromEnv(); // Pixel dimensions accepted for garment images
+
+// --- Directory/File Setup ---
+try {
+    if (!fs.existsSync(UPLOADS_DIR)) fs.mkdirSync(UPLOADS_DIR);
+    console.log(`Uploads directory: ${UPLOADS_DIR}`);
+} catch (err) {
+    console.error("FATAL ERROR: Could not create upload directories.", err);
+    process.exit(1);
+}
+
+// --- Metadata Store ---
+// METADATA_STORE=sqlite (default) or json (local development)
+let generationRepository: GenerationRepository;
+try {
+    generationRepository = createGenerationRepository({ uploadsDir: UPLOADS_DIR });
+} catch (err) {
+    console.error("FATAL ERROR: Could not open the metadata store.", err);
+    process.exit(1);
+}
+
+// --- Preset Library ---
+// Team-shared settings presets, stored next to the metadata (same METADATA_STORE)
+let presetRepository: PresetRepository;
+try {
+    presetRepository = createPresetRepository({ uploadsDir: UPLOADS_DIR });
+} catch (err) {
+    console.error("FATAL ERROR: Could not open the preset store.", err);
+    process.exit(1);
+}
+
+// --- Model Identity Library ---
+// Saved virtual models, stored next to the metadata (same METADATA_STORE); reference crops go to identityStorage
+let identityRepository: IdentityRepository;
+try {
+    identityRepository = createIdentityRepository({ uploadsDir: UPLOADS_DIR });
+} catch (err) {
+    console.error("FATAL ERROR: Could not open the identity store.", err);
+    process.exit(1);
+}
+// --- Image Storage ---
+// IMAGE_STORAGE=local (default) or s3 (any S3-compatible service)
+let imageStorage: ImageStorage;
+try {
+    imageStorage = createImageStorage({ imagesDir: IMAGES_DIR });
+} catch (err) {
+    console.error("FATAL ERROR: Could not configure image storage.", err);
+    process.exit(1);
+}
+
+// --- Upload Storage ---
+// Garment images uploaded once and referenced by id from generation requests; same IMAGE_STORAGE, never served
+let uploadStorage: ImageStorage;
+try {
+    uploadStorage = createImageStorage({ imagesDir: UPLOADED_IMAGES_DIR, keyPrefix: process.env.S3_UPLOAD_KEY_PREFIX || 'uploads/' });
+} catch (err) {
+    console.error("FATAL ERROR: Could not configure upload storage.", err);
+    process.exit(1);
+}
+
+// --- Identity Storage ---
+// Reference crops of saved model identities; same IMAGE_STORAGE, served at IDENTITY_IMAGE_ROUTE_PREFIX
+let identityStorage: ImageStorage;
+try {
+    identityStorage = createImageStorage({ imagesDir: IDENTITY_IMAGES_DIR, keyPrefix: process.env.S3_IDENTITY_KEY_PREFIX || 'identities/' });
+} catch (err) {
+    console.error("FATAL ERROR: Could not configure identity storage.", err);
+    process.exit(1);
+}
+
+if ((process.env.METADATA_STORE || 'sqlite') === 'sqlite' && fs.existsSync(LEGACY_METADATA_FILE)) {
+    console.warn(`Found ${LEGACY_METADATA_FILE}. Run "npm run migrate:metadata" to import it into the SQLite store.`);
+}
+
+// --- Image Providers ---
+// IMAGE_PROVIDERS lists the enabled providers; without GEMINI_API_KEY only the offline mock is enabled
+let imageProviders: ImageProviderRegistry;
+try {
+    imageProviders = createImageProviders();
+} catch (err) {
+    console.error("FATAL ERROR: Could not configure image providers.", err);
+    process.exit(1);
+}
+console.log(`Image providers: ${imageProviders.list().map(provider => provider.id).join(', ')} (default ${imageProviders.defaultProvider.id})`);
+if (!process.env.GEMINI_API_KEY) {
+    console.warn('GEMINI_API_KEY is not set; Gemini providers are unavailable.');
+}
+
+// --- Prompt Templates ---
+// Versioned templates on disk (PROMPT_TEMPLATES_DIR); the latest is active unless PROMPT_TEMPLATE_VERSION pins one
+let promptTemplates: PromptTemplateStore;
+try {
+    promptTemplates = createPromptTemplateStore();
+    console.log(`Prompt templates: ${promptTemplates.describe()}`);
+} catch (err) {
+    console.error("FATAL ERROR: Could not load prompt templates.", err);
+    process.exit(1);
+}
+
+// --- Background Removal ---
+// Optional garment clean-up through a rembg-compatible service (BACKGROUND_REMOVAL_URL)
+const backgroundRemover = createBackgroundRemover();
+console.log(`Background removal: ${backgroundRemover ? backgroundRemover.describe() : 'disabled (BACKGROUND_REMOVAL_URL not set)'}`);
+
+// --- Middleware ---
+app.use(cors());
+app.use(express.json({ limit: `${MAX_GARMENTS * 14}mb` })); // Room for MAX_GARMENTS base64 uploads of up to 10MB each
+
+// --- Static File Serving ---
+// Same relative URLs for every storage backend, so stored imagePath values never change
+app.use(IMAGE_ROUTE_PREFIX, imageStorage.createRouter());
+console.log(`Serving images from ${imageStorage.describe()} at route ${IMAGE_ROUTE_PREFIX}`);
+app.use(IDENTITY_IMAGE_ROUTE_PREFIX, identityStorage.createRouter());
+
+// --- Helper Functions for Prompt Generation ---
+// Applies expert-mode edits: a replacement prompt, extra instructions and an "avoid" list
+function applyPromptOverride(generatedPrompt: string, override: PromptOverride) {
+    let prompt = override.prompt || generatedPrompt;
+    if (override.extraInstructions) prompt += `\n\nAdditional instructions: ${override.extraInstructions}`;
+    if (override.avoid?.length) prompt += `\n\nAvoid: ${override.avoid.join(', ')}.`;
+    return prompt;
+}
+
+// How the prompt refers to the garment images: "the top shown in image 1, the bottom shown in image 2 and ...".
+// A single unlabelled garment keeps the original single-image wording.
+function describeGarments(roles: GarmentRole[]) {
+    if (roles.length === 1) {
+        return `the ${GARMENT_ROLE_LABELS[roles[0]]} shown in the provided image`;
+    }
+    const items = roles.map((role, index) => `the ${GARMENT_ROLE_LABELS[role]} shown in image ${index + 1}`);
+    return `a complete outfit combining ${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+}
+
+// Templates without {{garments}} only know "the clothing item shown in the provided image", so they can't describe an outfit
+function outfitTemplateError(loaded: LoadedPromptTemplate, garmentCount: number) {
+    if (garmentCount <= 1 || loaded.template.variables.has('garments')) return null;
+    return `Prompt template "${loaded.version}" describes a single garment; choose a template that combines several`;
+}
+
+// The requested template version, or the active one. Throws AppError.
+function loadPromptTemplate(templateVersion?: string) {
+    if (templateVersion) {
+        const loaded = promptTemplates.get(templateVersion);
+        if (!loaded) throw new AppError('INVALID_INPUT', `Unknown or invalid prompt template "${templateVersion}".`);
+        return loaded;
+    }
+    try {
+        return promptTemplates.active();
+    } catch (error) {
+        console.error('No usable prompt template:', error);
+        throw new AppError('INTERNAL', 'No prompt template is available.');
+    }
+}
+
+// Renders the prompt with the requested template version, or the active one, then applies any override.
+// `overridden` is false when the override changed nothing. Throws AppError.
+function renderPrompt(settings: GenerationSettings, garmentRoles: GarmentRole[], templateVersion?: string, promptOverride?: PromptOverride) {
+    const loaded = loadPromptTemplate(templateVersion);
+    const outfitError = outfitTemplateError(loaded, garmentRoles.length);
+    if (outfitError) throw new AppError('INVALID_INPUT', `${outfitError}.`);
+    const generatedPrompt = loaded.template.render(settings, { garments: describeGarments(garmentRoles) });
+    const prompt = promptOverride ? applyPromptOverride(generatedPrompt, promptOverride) : generatedPrompt;
+    return { prompt, generatedPrompt, overridden: prompt !== generatedPrompt, templateVersion: loaded.version };
+}
+
+// Describes a scene with the template's own "background" and "atmosphere" partials, so a background swap reads
+// exactly like the setting of a fresh generation. Uses the version that rendered the original image while it
+// is still available. Throws AppError.
+function describeScene(settings: GenerationSettings, templateVersion?: string) {
+    const loaded = (templateVersion && promptTemplates.get(templateVersion)) || loadPromptTemplate();
+    const background = loaded.template.renderPartial('background', settings, { garments: '' });
+    if (background === null) {
+        throw new AppError('INTERNAL', `Prompt template "${loaded.version}" has no "background" partial to describe the new scene with.`);
+    }
+    const atmosphere = loaded.template.renderPartial('atmosphere', settings, { garments: '' });
+    return atmosphere ? `${background} ${atmosphere}` : background;
+}
+
+// --- Helper Functions for Generation ---
+// Runs async task factories with at most `limit` in flight; results keep the task order
+async function runWithConcurrency<T>(tasks: (() => Promise<T>)[], limit: number): Promise<T[]> {
+    const results: T[] = new Array(tasks.length);
+    let nextIndex = 0;
+
+    async function worker() {
+        while (nextIndex < tasks.length) {
+            const index = nextIndex++;
+            results[index] = await tasks[index]();
+        }
+    }
+
+    const workerCount = Math.max(1, Math.min(limit, tasks.length));
+    await Promise.all(Array.from({ length: workerCount }, worker));
+    return results;
+}
+
+// Stores one generation record. Failures are logged, not thrown - the image itself was already saved.
+async function saveGenerationRecord(metadataRecord: Parameters<GenerationRepository['insert']>[0]) {
+    try {
+        await generationRepository.insert(metadataRecord);
+        console.log(`Saved metadata for generation ${metadataRecord.generationId}.`);
+    } catch (metadataError) {
+        console.error(`Error saving metadata for generation ${metadataRecord.generationId}:`, metadataError);
+    }
+}
+
+// Outcome of one variation
+type VariationOutcome =
+    | { success: true; generationId: string; imageUrl: string }
+    | { success: false; error: AppError };
+
+// Result reported for variations that were skipped or interrupted by a cancellation
+const CANCELLED_RESULT: { success: false; error: AppError } = { success: false, error: new AppError('CANCELLED', 'Image generation was cancelled.') };
+
+type ModelCallResult =
+    | { success: true; image: GeneratedImage }
+    | { success: false; error: AppError };
+
+// Makes one provider call within the per-call timeout. Never throws; the error's retryable flag
+// tells generateSingleImage whether another attempt may succeed.
+async function requestImage(provider: ImageProvider, input: ImageGenerationInput, variationIndex: number, signal?: AbortSignal): Promise<ModelCallResult> {
+    console.log(`Requesting image from ${provider.id} (variation ${variationIndex + 1})...`);
+    let timeoutHandle: NodeJS.Timeout | undefined;
+    const timeoutPromise = new Promise<never>((_, reject) => {
+        timeoutHandle = setTimeout(() => reject(new AppError('TIMEOUT', 'Image generation took too long.', { details: { timeoutMs: GEMINI_TIMEOUT_MS } })), GEMINI_TIMEOUT_MS);
+    });
+
+    try {
+        const image = await Promise.race([
+            provider.generate({ ...input, signal }),
+            timeoutPromise
+        ]);
+        return { success: true, image };
+    } catch (apiError) {
+        if (signal?.aborted) {
+            console.log(`Variation ${variationIndex + 1} aborted by cancellation.`);
+            return CANCELLED_RESULT;
+        }
+        // Specific API Error Handling - classified by error type and HTTP status
+        console.error(`Image provider ${provider.id} call failed or timed out:`, apiError);
+        return { success: false, error: classifyModelError(apiError) };
+    } finally {
+        clearTimeout(timeoutHandle);
+    }
+}
+
+interface GenerateSingleImageOptions {
+    provider: ImageProvider;
+    input: ImageGenerationInput;
+    settings: GenerationSettings;
+    textPrompt: string;
+    promptTemplateVersion?: string; // Unset for refinements, whose prompt isn't rendered from a template
+    promptEdits?: { generatedPrompt: string; promptOverride?: PromptOverride };
+    garmentRoles: GarmentRole[];
+    identityId?: string; // Model identity whose reference photo was sent
+    sweepId?: string; // Settings sweep the image belongs to
+    refinement?: Pick<GenerationRecord, 'parentGenerationId' | 'refinementRootId' | 'refinementInstruction' | 'refinementMode'>;
+    batchId: string;
+    variationIndex: number;
+    signal?: AbortSignal;
+    onRetry?: (attempt: number) => void; // Called before each retry with the attempt about to start
+}
+
+// Calls the provider (retrying retryable failures per RETRY_POLICY), saves the image and its metadata. Never throws.
+async function generateSingleImage({ provider, input, settings, textPrompt, promptTemplateVersion, promptEdits, garmentRoles, identityId, sweepId, refinement, batchId, variationIndex, signal, onRetry }: GenerateSingleImageOptions): Promise<VariationOutcome> {
+    const attempts: GenerationAttempt[] = [];
+    let image: GeneratedImage;
+
+    for (let attempt = 1; ; attempt++) {
+        if (signal?.aborted) return CANCELLED_RESULT;
+
+        const startedAt = new Date();
+        const result = await requestImage(provider, input, variationIndex, signal);
+        if (signal?.aborted) return CANCELLED_RESULT;
+        attempts.push({
+            attempt,
+            startedAt: startedAt.toISOString(),
+            durationMs: Date.now() - startedAt.getTime(),
+            ...(!result.success && { errorCode: result.error.code, message: result.error.message }),
+        });
+
+        if (result.success) {
+            image = result.image;
+            break;
+        }
+        const { error } = result;
+        if (!error.retryable || attempt >= RETRY_POLICY.maxAttempts) {
+            // The attempt history goes in details; retryable stays as classified so clients can still offer a retry
+            return {
+                success: false,
+                error: new AppError(error.code, error.message, { retryable: error.retryable, statusCode: error.statusCode, details: { ...error.details, attempts } }),
+            };
+        }
+
+        const delayMs = backoffDelay(RETRY_POLICY, attempt);
+        console.warn(`Variation ${variationIndex + 1} attempt ${attempt}/${RETRY_POLICY.maxAttempts} failed (${error.code}); retrying in ${delayMs}ms`);
+        await sleep(delayMs, signal);
+        if (signal?.aborted) return CANCELLED_RESULT;
+        if (onRetry) onRetry(attempt + 1);
+    }
+    const { data: generatedImageData, mimeType: generatedMimeType } = image;
+
+    // --- Save Image ---
+    const generationId = uuidv4();
+    const fileExtension = extensionFor(generatedMimeType || 'image/jpeg');
+    const fileName = `${generationId}.${fileExtension}`;
+    const imageUrlRelative = `${IMAGE_ROUTE_PREFIX}/${fileName}`;
+    const imageBuffer = Buffer.from(generatedImageData, 'base64');
+
+    // A cancellation that lands while the call is in flight discards its image
+    if (signal?.aborted) return CANCELLED_RESULT;
+
+    console.log(`Saving image ${fileName} to ${imageStorage.describe()}`);
+    try {
+        await imageStorage.save(fileName, imageBuffer, generatedMimeType || 'image/jpeg');
+        console.log(`Successfully saved ${fileName}.`);
+    } catch (writeError) {
+        console.error(`Error saving image file ${fileName}:`, writeError);
+        return { success: false, error: new AppError('STORAGE', 'Failed to save generated image to server.') };
+    }
+
+    // --- Save Metadata ---
+    await saveGenerationRecord({
+        generationId: generationId,
+        createdAt: new Date().toISOString(),
+        // Group variations produced by the same request
+        batchId: batchId,
+        variationIndex: variationIndex,
+        // Store the actual settings used for traceability
+        settingsUsed: settings,
+        // Add the generated prompt and the template version that rendered it to metadata for debugging/review
+        promptUsed: textPrompt,
+        promptTemplateVersion: promptTemplateVersion,
+        ...promptEdits,
+        garmentRoles: garmentRoles,
+        identityId: identityId,
+        sweepId: sweepId,
+        ...refinement,
+        imagePath: imageUrlRelative,
+        status: 'completed',
+        // Every model call made for this image, including failed attempts that were retried
+        attempts: attempts,
+        provider: provider.id,
+        model: provider.model
+    });
+
+    return { success: true, generationId, imageUrl: imageUrlRelative };
+}
+
+// --- Routes ---
+app.get('/', (_req, res) => {
+  res.status(200).send('AI Fashion Image Generator Backend is running!');
+});
+
+// Checks the shared /generate and /jobs request body against the contract.
+// Returns { error } with a structured 400 body, or the normalized request (unknown fields stripped).
+function validateGenerateRequest(body: unknown): { error: ApiErrorResponse } | { request: GenerateRequest } {
+    const parsed = GenerateRequestSchema.safeParse(body ?? {});
+    if (!parsed.success) {
+        return { error: validationErrorResponse(parsed.error, 'Invalid request: check the highlighted fields.') };
+    }
+    const fieldErrors = unknownReferenceErrors(parsed.data);
+    if (fieldErrors.length > 0) {
+        return { error: { success: false, code: 'INVALID_INPUT', message: 'Invalid request: check the highlighted fields.', retryable: false, fieldErrors } };
+    }
+    return { request: parsed.data };
+}
+
+// Provider ids and prompt template versions are only known at runtime, so the contract can't check them
+// (nor whether the template can describe several garments).
+// fieldPrefix locates the request inside a larger body (e.g. "request." for POST /sweeps).
+function unknownReferenceErrors({ provider, promptTemplateVersion, garments }: GenerateRequest, fieldPrefix = '') {
+    const fieldErrors = [];
+    if (provider && !imageProviders.get(provider)) {
+        fieldErrors.push({ field: `${fieldPrefix}provider`, message: `Unknown or disabled provider "${provider}"` });
+    }
+    const template = promptTemplateVersion ? promptTemplates.get(promptTemplateVersion) : promptTemplates.active();
+    if (!template) {
+        fieldErrors.push({ field: `${fieldPrefix}promptTemplateVersion`, message: `Unknown or invalid prompt template "${promptTemplateVersion}"` });
+    }
+    const outfitError = template && outfitTemplateError(template, garments?.length ?? 1);
+    if (outfitError) fieldErrors.push({ field: `${fieldPrefix}garments`, message: outfitError });
+    return fieldErrors;
+}
+
+// --- Helper Functions for Uploads ---
+// Checks a garment image's real format, size and dimensions (see preprocessing/imageValidation).
+// Throws INVALID_INPUT with details.reason, plus details.field when the image came from a request field.
+function validateGarmentImage(buffer: Buffer, field?: string) {
+    try {
+        if (buffer.length > MAX_UPLOAD_BYTES) {
+            throw new AppError('INVALID_INPUT', `The image is larger than ${MAX_UPLOAD_BYTES / (1024 * 1024)} MB.`, { details: { reason: 'too_large', bytes: buffer.length, maxBytes: MAX_UPLOAD_BYTES } });
+        }
+        return inspectImage(buffer, IMAGE_LIMITS);
+    } catch (error) {
+        if (!(error instanceof AppError) || !field) throw error;
+        throw new AppError(error.code, error.message, { details: { ...error.details, field } });
+    }
+}
+
+// Loads a request's garment images - inline data URIs or uploads from POST /uploads - as provider input.
+// One image per garment, in request order so "image N" in the prompt matches; a bare imageData or uploadId
+// is one unlabelled garment. Every image is validated again, whatever its declared type, so limits apply
+// to uploads made before they changed. Throws NOT_FOUND naming the field when an upload is unknown or expired.
+async function loadGarmentImages({ imageData, uploadId, garments }: GenerateRequest): Promise<GarmentImageInput[]> {
+    const sources = garments ?? [{ role: 'garment' as const, imageData, uploadId }];
+    return Promise.all(sources.map(async (source, index) => {
+        const fieldPrefix = garments ? `garments.${index}.` : '';
+        if (source.imageData) {
+            const base64 = source.imageData.slice(source.imageData.indexOf(',') + 1); // Format checked by the contract
+            const { mimeType } = validateGarmentImage(Buffer.from(base64, 'base64'), `${fieldPrefix}imageData`);
+            return { data: base64, mimeType, role: source.role };
+        }
+        const field = `${fieldPrefix}uploadId`;
+        let buffer: Buffer | null;
+        try {
+            buffer = await uploadStorage.read(source.uploadId!);
+        } catch (readError) {
+            console.error(`Error reading upload ${source.uploadId}:`, readError);
+            throw new AppError('STORAGE', 'Failed to read an uploaded image.');
+        }
+        if (!buffer) {
+            throw new AppError('NOT_FOUND', 'An uploaded image was not found or has expired. Upload it again.', { details: { field, uploadId: source.uploadId } });
+        }
+        const { mimeType } = validateGarmentImage(buffer, field);
+        return { data: buffer.toString('base64'), mimeType, role: source.role };
+    }));
+}
+
+// Deletes an upload after the retention window. Timers do not survive a restart; with S3, a bucket lifecycle rule on
+// the upload prefix is the backstop.
+function scheduleUploadCleanup(uploadId: string) {
+    setTimeout(() => {
+        uploadStorage.remove(uploadId).catch(error => console.error(`Error deleting expired upload ${uploadId}:`, error));
+    }, UPLOAD_RETENTION_MS).unref();
+}
+
+// --- Helper Functions for Model Identities ---
+// A saved model identity with its reference crop, as provider input
+interface IdentityReference {
+    identity: ModelIdentity;
+    image: { data: string; mimeType: string }; // Base64
+}
+
+// Storage file name of an identity's reference crop ("<id>.<ext>")
+function identityImageFileName(identity: ModelIdentity) {
+    return path.basename(identity.referenceImagePath);
+}
+
+// Loads the model identity a generation request names, or null when it names none.
+// Throws NOT_FOUND naming the field when the identity was deleted.
+async function loadIdentityReference({ identityId }: GenerateRequest): Promise<IdentityReference | null> {
+    if (!identityId) return null;
+    const identity = await identityRepository.findById(identityId);
+    if (!identity) {
+        throw new AppError('NOT_FOUND', 'The selected model identity no longer exists. Pick another one.', { details: { field: 'identityId', identityId } });
+    }
+    const fileName = identityImageFileName(identity);
+    let buffer: Buffer | null;
+    try {
+        buffer = await identityStorage.read(fileName);
+    } catch (readError) {
+        console.error(`Error reading identity image ${fileName}:`, readError);
+        throw new AppError('STORAGE', 'Failed to read the model identity reference image.');
+    }
+    if (!buffer) {
+        throw new AppError('STORAGE', 'The model identity reference image is missing. Save the identity again.');
+    }
+    return { identity, image: { data: buffer.toString('base64'), mimeType: contentTypeFor(fileName) } };
+}
+
+// Asks the model to keep the person in the reference photo, which the provider sends after the garments
+function withIdentityInstructions(prompt: string) {
+    return `${prompt}\n\nModel identity: the last image is a reference photo of the model, not a garment. `
+        + 'Show this exact person - the same face, facial features, skin tone, hair and build - so they are recognisable across images. '
+        + 'Take only their identity from it: the clothing, pose, framing and background come from the instructions and garment images above.';
+}
+
+// Body of a batch where every variation failed
+type GenerationFailureBody = ApiErrorResponse & { results?: VariationResult[] };
+
+// Per-variation result as reported to clients
+function toVariationResult(outcome: VariationOutcome): VariationResult {
+    return outcome.success
+        ? { success: true, generationId: outcome.generationId, imageUrl: outcome.imageUrl }
+        : { success: false, ...outcome.error.toInfo() };
+}
+
+interface RunGenerationOptions extends GenerateRequest {
+    images: GarmentImageInput[]; // From loadGarmentImages
+    identity: IdentityReference | null; // From loadIdentityReference
+    sweepId?: string; // Set when the generation renders one combination of a sweep
+    signal?: AbortSignal;
+    onVariationRetry?: (variationIndex: number, attempt: number) => void;
+    onVariationDone?: (variationIndex: number, outcome: VariationOutcome) => void;
+}
+
+// Builds the prompt, fans out the variations and shapes the response.
+// Resolves to { statusCode, body } so both the synchronous route and the job runner can use it.
+async function runGeneration({ settings, images, identity, sweepId, variationCount, provider: providerId, promptTemplateVersion, promptOverride, signal, onVariationRetry, onVariationDone }: RunGenerationOptions): Promise<{ statusCode: number; body: GenerateResponse | GenerationFailureBody }> {
+    const garmentRoles = images.map(image => image.role);
+
+    // --- 1. Construct the Prompt ---
+    const { prompt: renderedPrompt, generatedPrompt, overridden, templateVersion } = renderPrompt(settings, garmentRoles, promptTemplateVersion, promptOverride);
+    // The identity instructions come after any expert-mode edits, so an edited prompt still keeps the model
+    const textPrompt = identity ? withIdentityInstructions(renderedPrompt) : renderedPrompt;
+    console.log(`Constructed Structured Prompt (template ${templateVersion}${overridden ? ', edited by the user' : ''}${identity ? `, identity "${identity.identity.name}"` : ''}):\n`, textPrompt);
+    // Both versions are kept when the user edited the prompt
+    const promptEdits = overridden ? { generatedPrompt, promptOverride } : undefined;
+
+    const input: ImageGenerationInput = { prompt: textPrompt, images, ...(identity && { referenceImage: identity.image }) };
+
+    // --- 2. Pick the Provider ---
+    // validateGenerateRequest already rejected unknown ids
+    const provider = (providerId && imageProviders.get(providerId)) || imageProviders.defaultProvider;
+    console.log(`Using image provider ${provider.id} (${provider.model})`);
+
+    // --- 3. Run Variations (bounded concurrency) ---
+    const batchId = uuidv4();
+    console.log(`Generating ${variationCount} variation(s) with concurrency ${GENERATION_CONCURRENCY} (batch ${batchId})`);
+    const tasks = Array.from({ length: variationCount }, (_, variationIndex) => async () => {
+        const outcome = await generateSingleImage({
+            provider, input, settings, textPrompt, promptTemplateVersion: templateVersion, promptEdits, garmentRoles, identityId: identity?.identity.id, sweepId, batchId, variationIndex, signal,
+            onRetry: attempt => onVariationRetry?.(variationIndex, attempt),
+        });
+        if (onVariationDone) onVariationDone(variationIndex, outcome);
+        return outcome;
+    });
+    const outcomes = await runWithConcurrency(tasks, GENERATION_CONCURRENCY);
+
+    // Each variation reports its own outcome; the status code is only non-200 if all of them failed
+    const results = outcomes.map(toVariationResult);
+    const firstSuccess = outcomes.find(outcome => outcome.success);
+
+    if (!firstSuccess) {
+        // Report the first failure; each variation's own error is still in results
+        const { error } = outcomes[0] as Extract<VariationOutcome, { success: false }>;
+        return { statusCode: error.statusCode, body: { ...error.toResponse(), results } };
+    }
+
+    console.log(`Generated ${outcomes.filter(outcome => outcome.success).length}/${variationCount} image(s)`);
+    return { statusCode: 200, body: { success: true, imageUrl: firstSuccess.imageUrl, promptUsed: textPrompt, results } };
+}
+
+// --- Helper Functions for Generation History ---
+// Parses /generations query params. Returns { error } with a structured 400 body, or the HistoryQuery.
+// Filters are any "<group>.<field>=<value>" params, matched exactly.
+function parseHistoryQuery(query: Record<string, unknown>): { error: ApiErrorResponse } | { query: HistoryQuery } {
+    const parsed = HistoryQuerySchema.safeParse(query);
+    if (!parsed.success) {
+        return { error: validationErrorResponse(parsed.error, 'Invalid query.') };
+    }
+
+    const filters: HistoryFilter[] = [];
+    const fieldErrors = [];
+    for (const [key, value] of Object.entries(query)) {
+        if (!Object.keys(SETTINGS_FIELDS).some(group => key.startsWith(`${group}.`))) continue;
+        if (!isSettingsFieldPath(key)) fieldErrors.push({ field: key, message: 'Not a filterable field' });
+        else if (typeof value !== 'string') fieldErrors.push({ field: key, message: 'Must be given once' });
+        else filters.push({ fieldPath: key, value });
+    }
+    if (fieldErrors.length > 0) {
+        return { error: { success: false, code: 'INVALID_INPUT', message: 'Invalid query.', retryable: false, fieldErrors } };
+    }
+
+    // sortBy was checked by the schema's refinement
+    return { query: { ...parsed.data, sortBy: parsed.data.sortBy as HistoryQuery['sortBy'], filters } };
+}
+
+// --- Helper Functions for Generation Deletion ---
+// Removes a record's image from storage. An image that is already gone counts as removed.
+async function deleteImageFile(record: { imagePath: string }) {
+    // imagePath is the public route ("/images/<file>"); only the basename is trusted
+    const fileName = path.basename(record.imagePath || '');
+    await imageStorage.remove(fileName);
+    console.log(`Deleted image ${fileName}`);
+}
+
+// Deletes generations by id. Soft deletion moves them to the trash (restorable);
+// otherwise the image file and the metadata record are both removed permanently.
+// Returns { deleted, notFound, failed } id lists; a record whose file can't be removed is kept.
+async function deleteGenerations(ids: string[], { soft }: { soft: boolean }) {
+    let deleted: string[] = [];
+    const failed: string[] = [];
+
+    if (soft) {
+        deleted = await generationRepository.markDeleted(ids, new Date().toISOString());
+    } else {
+        for (const record of await generationRepository.findByIds(ids)) {
+            try {
+                await deleteImageFile(record);
+                deleted.push(record.generationId);
+            } catch (unlinkError) {
+                console.error(`Error deleting image for generation ${record.generationId}:`, unlinkError);
+                failed.push(record.generationId);
+            }
+        }
+        await generationRepository.remove(deleted);
+    }
+
+    const notFound = ids.filter(id => !deleted.includes(id) && !failed.includes(id));
+    console.log(`${soft ? 'Trashed' : 'Permanently deleted'} ${deleted.length} generation(s); ${notFound.length} not found, ${failed.length} failed.`);
+    return { deleted, notFound, failed };
+}
+
+// --- Helper Functions for Refinement ---
+// Wording sent with a follow-up instruction; the image to edit is the model's own last turn
+function refinementPrompt(instruction: string) {
+    return `Edit the image you generated last as follows: ${instruction}\n`
+        + 'Keep everything else - the model, pose, garments, background, lighting and framing - unchanged, and return the complete edited image.';
+}
+
+// The record and its ancestors, original first. A permanently deleted ancestor ends the walk,
+// so the conversation starts from the oldest image still stored.
+async function loadRefinementLineage(record: GenerationRecord): Promise<GenerationRecord[]> {
+    const lineage = [record];
+    while (lineage[0].parentGenerationId) {
+        const parent = await generationRepository.findById(lineage[0].parentGenerationId);
+        if (!parent) break;
+        lineage.unshift(parent);
+    }
+    return lineage;
+}
+
+// Wording sent with an inpainting mask. The model can't be forced to leave pixels alone, so the prompt insists on it.
+function inpaintPrompt(instruction: string) {
+    return 'The attached mask belongs to the image you generated last: white marks the region to regenerate, black the pixels to keep.\n'
+        + `Regenerate only the white region as follows: ${instruction}\n`
+        + 'Keep everything outside it exactly as it is - above all the garment, which must stay untouched - and blend the edit in seamlessly. '
+        + 'Return the complete image with the same size and framing.';
+}
+
+// Wording for a background swap: the same subject in a new scene (from describeScene) under new light
+function backgroundSwapPrompt(scene: string, lighting: string) {
+    return `Place the model from the image you generated last in a new setting: ${scene}\n`
+        + `Light the whole image with ${lighting} lighting, so the model sits naturally in the new scene.\n`
+        + 'Keep the model exactly as they are - face, expression, hair, body, pose, framing and camera angle - and keep the garment unchanged. '
+        + 'Change only the background and the light.';
+}
+
+// Replays a lineage as conversation turns: each prompt, and the image the model answered it with
+async function loadConversationTurns(lineage: GenerationRecord[]): Promise<ConversationTurn[]> {
+    return Promise.all(lineage.map(async record => {
+        const fileName = path.basename(record.imagePath || '');
+        let buffer: Buffer | null;
+        try {
+            buffer = await imageStorage.read(fileName);
+        } catch (readError) {
+            console.error(`Error reading image ${fileName}:`, readError);
+            throw new AppError('STORAGE', 'Failed to read a generated image.');
+        }
+        if (!buffer) {
+            throw new AppError('NOT_FOUND', 'An image in the refinement chain is missing from storage.', { details: { generationId: record.generationId } });
+        }
+        return { prompt: record.promptUsed, image: { data: buffer.toString('base64'), mimeType: contentTypeFor(fileName) } };
+    }));
+}
+
+// Request body of each kind of refinement: /refine, /inpaint and /background
+interface RefinementRequests {
+    instruction: RefineRequest;
+    inpaint: InpaintRequest;
+    background: BackgroundSwapRequest;
+}
+
+const REFINEMENT_REQUEST_SCHEMAS = {
+    instruction: RefineRequestSchema,
+    inpaint: InpaintRequestSchema,
+    background: BackgroundSwapRequestSchema,
+};
+
+// Checks a refinement request body against its contract and the enabled providers.
+// Returns { error } with a structured 400 body, or the normalized request.
+function validateRefinementRequest<Mode extends RefinementMode>(body: unknown, mode: Mode): { error: ApiErrorResponse } | { request: RefinementRequests[Mode] } {
+    const parsed = REFINEMENT_REQUEST_SCHEMAS[mode].safeParse(body ?? {});
+    if (!parsed.success) {
+        return { error: validationErrorResponse(parsed.error, 'Invalid refinement request.') };
+    }
+    const { provider } = parsed.data;
+    if (provider && !imageProviders.get(provider)) {
+        const fieldErrors = [{ field: 'provider', message: `Unknown or disabled provider "${provider}"` }];
+        return { error: { success: false, code: 'INVALID_INPUT', message: 'Invalid refinement request.', retryable: false, fieldErrors } };
+    }
+    return { request: parsed.data as RefinementRequests[Mode] };
+}
+
+// Checks an inpainting mask: a valid PNG within the upload limits. Throws INVALID_INPUT with details.field.
+function validateMask(maskData: string) {
+    const data = maskData.slice(maskData.indexOf(',') + 1); // Format checked by the contract
+    const info = validateGarmentImage(Buffer.from(data, 'base64'), 'maskData');
+    if (info.mimeType !== 'image/png') {
+        throw new AppError('INVALID_INPUT', 'The mask must be a PNG image.', { details: { field: 'maskData', reason: 'unsupported_format', mimeType: info.mimeType } });
+    }
+    return { data, info };
+}
+
+// A mask must frame the same picture as the image it masks. Images whose header can't be read
+// (the mock provider's SVGs) are not checked.
+function assertMaskMatchesImage(mask: ImageInfo, image: Buffer) {
+    let imageInfo: ImageInfo;
+    try {
+        imageInfo = inspectImage(image, IMAGE_LIMITS);
+    } catch {
+        return;
+    }
+    if (Math.abs(mask.width / mask.height - imageInfo.width / imageInfo.height) > 0.01) {
+        throw new AppError('INVALID_INPUT', `The mask is ${mask.width}x${mask.height}px but the image is ${imageInfo.width}x${imageInfo.height}px; their aspect ratios must match.`, {
+            details: { field: 'maskData', maskWidth: mask.width, maskHeight: mask.height, imageWidth: imageInfo.width, imageHeight: imageInfo.height },
+        });
+    }
+}
+
+// One edit of an existing generation
+type RefinementEdit =
+    | { mode: 'instruction'; instruction: string }
+    | { mode: 'inpaint'; instruction: string; mask: { data: string; info: ImageInfo } } // Mask from validateMask
+    | { mode: 'background'; environmentSettings: BackgroundSwapSettings };
+
+// What an edit sends to the model, stores as refinementInstruction, and the settings the result stands for
+function describeEdit(edit: RefinementEdit, parent: GenerationRecord, rootTemplateVersion?: string) {
+    if (edit.mode === 'instruction') {
+        return { prompt: refinementPrompt(edit.instruction), instruction: edit.instruction, settings: parent.settingsUsed };
+    }
+    if (edit.mode === 'inpaint') {
+        return { prompt: inpaintPrompt(edit.instruction), instruction: edit.instruction, settings: parent.settingsUsed };
+    }
+    const environmentSettings = { ...parent.settingsUsed.environmentSettings, ...edit.environmentSettings };
+    const settings = { ...parent.settingsUsed, environmentSettings };
+    const { backgroundCustom, backgroundPreset, lighting } = environmentSettings;
+    return {
+        prompt: backgroundSwapPrompt(describeScene(settings, rootTemplateVersion), lighting),
+        instruction: `Background: ${backgroundCustom || backgroundPreset}, ${lighting} lighting`,
+        settings,
+    };
+}
+
+// Edits a generation - a follow-up instruction, a masked region or a new scene - and saves the result as a child
+// generation. The model gets the conversation so far: the original prompt, each earlier edit and the image it
+// answered with. Throws an AppError (NOT_FOUND, CONFLICT, the provider's error, ...).
+async function refineGeneration(generationId: string, edit: RefinementEdit, providerId?: string): Promise<GenerationRecord> {
+    const parent = await generationRepository.findById(generationId);
+    if (!parent) {
+        throw new AppError('NOT_FOUND', 'Generation not found.');
+    }
+    if (parent.deletedAt) {
+        throw new AppError('CONFLICT', 'Restore the generation from the trash before refining it.');
+    }
+    const lineage = await loadRefinementLineage(parent);
+    if (lineage.length > MAX_REFINEMENT_DEPTH) {
+        throw new AppError('CONFLICT', `An image can be refined at most ${MAX_REFINEMENT_DEPTH} times in a row. Refine an earlier step instead.`, { details: { maxDepth: MAX_REFINEMENT_DEPTH } });
+    }
+    const history = await loadConversationTurns(lineage);
+    const mask = edit.mode === 'inpaint' ? edit.mask : undefined;
+    if (mask) assertMaskMatchesImage(mask.info, Buffer.from(history[history.length - 1].image.data, 'base64'));
+    const { prompt: textPrompt, instruction, settings } = describeEdit(edit, parent, lineage[0].promptTemplateVersion);
+
+    // The provider that made the image, unless the client picked one or it has since been disabled
+    const provider = (providerId && imageProviders.get(providerId))
+        || (parent.provider && imageProviders.get(parent.provider))
+        || imageProviders.defaultProvider;
+    console.log(`Refining generation ${parent.generationId} (${edit.mode}) with ${provider.id} (${lineage.length} earlier turn(s)): "${instruction}"`);
+
+    const outcome = await generateSingleImage({
+        provider,
+        input: { prompt: textPrompt, images: [], history, ...(mask && { mask: { data: mask.data, mimeType: 'image/png' } }) },
+        settings,
+        textPrompt,
+        garmentRoles: parent.garmentRoles ?? [],
+        refinement: {
+            parentGenerationId: parent.generationId,
+            refinementRootId: parent.refinementRootId ?? parent.generationId,
+            refinementInstruction: instruction,
+            refinementMode: edit.mode,
+        },
+        batchId: uuidv4(),
+        variationIndex: 0,
+    });
+    if (!outcome.success) throw outcome.error;
+
+    const generation = await generationRepository.findById(outcome.generationId);
+    if (!generation) {
+        throw new AppError('STORAGE', 'The refined image was saved, but its metadata was not.');
+    }
+    return generation;
+}
+
+// --- Generation Jobs ---
+// Server-side job state; the request payload and abort controller never leave the server
+interface Job extends GenerationJob {
+    request: GenerateRequest | null; // Released once the job finishes
+    images: GarmentImageInput[] | null; // Loaded when the job is created so a missing upload fails the POST; released with request
+    identity: IdentityReference | null; // Loaded with images, so a deleted identity fails the POST too; released with request
+    abortController: AbortController;
+    sweepId?: string; // Set on the jobs of a sweep, which are kept and dropped together
+}
+
+// In-memory job registry. Jobs do not survive a server restart; clients treat a 404 as "job lost".
+const jobs = new Map<string, Job>();
+// In-memory sweep registry; each sweep lists the jobs that render its combinations, in expandSweep order
+interface SweepState {
+    id: string;
+    createdAt: string;
+    dimensions: SweepDimension[];
+    items: { values: SweepValues; jobId: string }[];
+}
+const sweeps = new Map<string, SweepState>();
+const jobQueue: string[] = []; // Ids of jobs waiting for a free slot, oldest first
+let runningJobCount = 0;
+
+// Public view of a job (never exposes the request payload or abort controller)
+function serializeJob(job: Job): GenerationJob {
+    return {
+        id: job.id,
+        status: job.status,
+        createdAt: job.createdAt,
+        updatedAt: job.updatedAt,
+        variationCount: job.variationCount,
+        completedVariations: job.completedVariations,
+        settingsUsed: job.settingsUsed,
+        promptUsed: job.promptUsed,
+        results: job.results,
+        message: job.message,
+        error: job.error,
+        retry: job.retry,
+    };
+}
+
+function updateJob(job: Job, changes: Partial<GenerationJob>) {
+    Object.assign(job, changes, { updatedAt: new Date().toISOString() });
+}
+
+function isJobFinished(job: Job) {
+    return job.status !== 'queued' && job.status !== 'running';
+}
+
+// Drops a finished job after the retention window. A sweep's jobs are dropped with the sweep once the last one
+// finishes, so the sweep never reports a job as lost.
+function scheduleJobCleanup(job: Job) {
+    const sweep = job.sweepId ? sweeps.get(job.sweepId) : undefined;
+    if (!sweep) {
+        setTimeout(() => jobs.delete(job.id), JOB_RETENTION_MS).unref();
+        return;
+    }
+    if (!sweep.items.every(item => isJobFinished(jobs.get(item.jobId)!))) return;
+    setTimeout(() => {
+        sweep.items.forEach(item => jobs.delete(item.jobId));
+        sweeps.delete(sweep.id);
+    }, JOB_RETENTION_MS).unref();
+}
+
+// Public view of a sweep, with the current state of each combination's job
+function serializeSweep(sweep: SweepState): Sweep {
+    return {
+        id: sweep.id,
+        createdAt: sweep.createdAt,
+        dimensions: sweep.dimensions,
+        items: sweep.items.map(({ values, jobId }) => ({ values, job: serializeJob(jobs.get(jobId)!) })),
+    };
+}
+
+// Queues a job for an already-validated request whose images are loaded
+function enqueueJob(request: GenerateRequest, images: GarmentImageInput[], identity: IdentityReference | null, sweepId?: string): Job {
+    const now = new Date().toISOString();
+    const job: Job = {
+        id: uuidv4(),
+        status: 'queued',
+        createdAt: now,
+        updatedAt: now,
+        variationCount: request.variationCount,
+        completedVariations: 0,
+        settingsUsed: request.settings, // Kept after the request payload is released so clients can reuse it
+        promptUsed: null,
+        results: null,
+        message: null,
+        error: null,
+        retry: null,
+        request,
+        images,
+        identity,
+        abortController: new AbortController(),
+        sweepId,
+    };
+    jobs.set(job.id, job);
+    jobQueue.push(job.id);
+    console.log(`Job ${job.id} queued (${jobQueue.length} waiting)`);
+    return job;
+}
+
+// Cancels a queued or running job. A running job stops at its next checkpoint and runJob cleans it up.
+function cancelJob(job: Job) {
+    const wasQueued = job.status === 'queued';
+    job.abortController.abort();
+    updateJob(job, { status: 'cancelled', retry: null, message: 'Image generation was cancelled.', error: new AppError('CANCELLED', 'Image generation was cancelled.').toInfo() });
+    if (wasQueued) {
+        // Never started, so runJob won't clean it up
+        job.request = null;
+        job.images = null;
+        job.identity = null;
+        scheduleJobCleanup(job);
+    }
+    console.log(`Job ${job.id} cancelled`);
+}
+
+// Starts queued jobs while there are free slots
+function pumpJobQueue() {
+    while (runningJobCount < MAX_RUNNING_JOBS && jobQueue.length > 0) {
+        const job = jobs.get(jobQueue.shift()!);
+        if (!job || job.status !== 'queued') continue;
+        runJob(job);
+    }
+}
+
+async function runJob(job: Job) {
+    runningJobCount++;
+    updateJob(job, { status: 'running' });
+    console.log(`Job ${job.id} started`);
+
+    // Attempt in progress per variation that is being retried; job.retry reports the highest
+    const retryingVariations = new Map<number, number>();
+    const reportRetry = () => {
+        const attempt = Math.max(0, ...retryingVariations.values());
+        updateJob(job, { retry: attempt > 1 ? { attempt, maxAttempts: RETRY_POLICY.maxAttempts } : null });
+    };
+
+    try {
+        const { body } = await runGeneration({
+            ...job.request!,
+            images: job.images!,
+            identity: job.identity,
+            sweepId: job.sweepId,
+            signal: job.abortController.signal,
+            onVariationRetry: (variationIndex, attempt) => {
+                retryingVariations.set(variationIndex, attempt);
+                reportRetry();
+            },
+            onVariationDone: (variationIndex) => {
+                retryingVariations.delete(variationIndex);
+                updateJob(job, { completedVariations: job.completedVariations + 1 });
+                reportRetry();
+            },
+        });
+
+        if (job.abortController.signal.aborted) {
+            // Status was already set to 'cancelled' by the DELETE handler
+            console.log(`Job ${job.id} finished after cancellation`);
+        } else if (body.success) {
+            updateJob(job, { status: 'completed', promptUsed: body.promptUsed, results: body.results });
+            console.log(`Job ${job.id} completed`);
+        } else {
+            const { code, message, retryable, details } = body;
+            updateJob(job, { status: 'failed', message, error: { code, message, retryable, details }, results: body.results ?? null });
+            console.log(`Job ${job.id} failed: ${body.message}`);
+        }
+    } catch (error) {
+        console.error(`Unhandled error in job ${job.id}:`, error);
+        const appError = toAppError(error, 'Image generation failed due to an unexpected internal server error.');
+        updateJob(job, { status: 'failed', message: appError.message, error: appError.toInfo() });
+    } finally {
+        job.request = null; // Release the image payload
+        job.images = null;
+        job.identity = null;
+        runningJobCount--;
+        scheduleJobCleanup(job);
+        pumpJobQueue();
+    }
+}
+
+// Stores one garment image for reuse across generations: the body is the raw image bytes with their
+// image/* Content-Type. Answers 201 with the uploadId that generation requests send instead of imageData.
+app.post('/uploads', express.raw({ type: () => true, limit: MAX_UPLOAD_BYTES }), async (req, res) => {
+  const mimeType = req.get('Content-Type')?.split(';')[0].trim().toLowerCase() ?? '';
+  if (!/^image\/[\w.+-]+$/.test(mimeType)) {
+    return sendError(res, new AppError('INVALID_INPUT', 'Send the image bytes with an image/* Content-Type.', { statusCode: 415, details: { contentType: mimeType || null } }));
+  }
+  if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+    return sendError(res, new AppError('INVALID_INPUT', 'The upload is empty.'));
+  }
+  let image: ImageInfo;
+  try {
+    image = validateGarmentImage(req.body);
+  } catch (error) {
+    console.warn('Rejected upload:', error instanceof AppError ? error.details : error);
+    return sendError(res, toAppError(error, 'Failed to check the uploaded image.'));
+  }
+
+  // Stored under the sniffed type; the declared Content-Type only has to be some image type
+  const uploadId = `${uuidv4()}.${extensionFor(image.mimeType)}`;
+  try {
+    await uploadStorage.save(uploadId, req.body, image.mimeType);
+  } catch (error) {
+    console.error(`Error saving upload ${uploadId}:`, error);
+    return sendError(res, new AppError('STORAGE', 'Failed to store the uploaded image.'));
+  }
+  scheduleUploadCleanup(uploadId);
+
+  console.log(`Stored upload ${uploadId} (${req.body.length} bytes)`);
+  const expiresAt = new Date(Date.now() + UPLOAD_RETENTION_MS).toISOString();
+  res.status(201).json({ success: true, uploadId, mimeType: image.mimeType, bytes: req.body.length, width: image.width, height: image.height, expiresAt });
+});
+
+// Generation route - produces `variationCount` images for the same settings and garments.
+// Holds the request open until every variation finishes; prefer /jobs for long batches.
+app.post('/generate', async (req, res) => {
+  console.log('Received /generate request');
+
+  // Validation
+  const validation = validateGenerateRequest(req.body);
+  if ('error' in validation) {
+    console.error('Validation Error:', validation.error.fieldErrors);
+    return res.status(400).json(validation.error);
+  }
+  const { request } = validation;
+
+  console.log('Settings received:', request.settings);
+
+  try {
+    const images = await loadGarmentImages(request);
+    const identity = await loadIdentityReference(request);
+    const { statusCode, body } = await runGeneration({ ...request, images, identity });
+    res.status(statusCode).json(body);
+  } catch (error) {
+    // --- Outer Catch Block ---
+    console.error('Unhandled error during /generate processing:', error);
+    sendError(res, toAppError(error, 'Image generation failed due to an unexpected internal server error.'));
+  }
+});
+
+// Prompt template versions, for previews and for pinning a generation to a version
+app.get('/prompt-templates', (_req, res) => {
+  try {
+    const templates = promptTemplates.list().map(({ version, description }) => ({ version, description }));
+    res.status(200).json({ success: true, templates, activeVersion: promptTemplates.active().version });
+  } catch (error) {
+    console.error('Error listing prompt templates:', error);
+    sendError(res, new AppError('INTERNAL', 'Failed to list prompt templates.'));
+  }
+});
+
+// Renders the prompt a generation with these settings would use, without calling a provider
+app.post('/prompt-templates/preview', (req, res) => {
+  const parsed = PromptPreviewRequestSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json(validationErrorResponse(parsed.error, 'Invalid request: check the highlighted fields.'));
+  }
+  const { settings, templateVersion, promptOverride, garmentRoles } = parsed.data;
+
+  try {
+    const { prompt, generatedPrompt, templateVersion: usedVersion } = renderPrompt(settings, garmentRoles, templateVersion, promptOverride);
+    res.status(200).json({ success: true, prompt, generatedPrompt, templateVersion: usedVersion });
+  } catch (error) {
+    console.error('Error previewing prompt:', error);
+    sendError(res, toAppError(error, 'Failed to render the prompt.'));
+  }
+});
+
+// Image-generation providers clients may pick from
+app.get('/providers', (_req, res) => {
+  res.status(200).json({ success: true, providers: imageProviders.list().map(toProviderInfo), defaultProvider: imageProviders.defaultProvider.id });
+});
+
+// Whether garments can be cleaned up on the server; the frontend hides the option otherwise
+app.get('/background-removal', (_req, res) => {
+  res.status(200).json({ success: true, available: backgroundRemover !== null });
+});
+
+// Removes the background of one garment image: body { imageData }, answered with a PNG data URI
+app.post('/background-removal', async (req, res) => {
+  if (!backgroundRemover) {
+    return sendError(res, new AppError('UPSTREAM_UNAVAILABLE', 'Background removal is not configured on this server.', { retryable: false, statusCode: 501 }));
+  }
+  const parsed = BackgroundRemovalRequestSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json(validationErrorResponse(parsed.error, 'Invalid request: imageData must be a base64 image data URI.'));
+  }
+  const { imageData } = parsed.data;
+
+  try {
+    const garment = Buffer.from(imageData.slice(imageData.indexOf(',') + 1), 'base64');
+    const { mimeType: garmentMimeType } = validateGarmentImage(garment, 'imageData');
+    const { data, mimeType } = await backgroundRemover.remove({ data: garment, mimeType: garmentMimeType });
+    res.status(200).json({ success: true, imageData: `data:${mimeType};base64,${data.toString('base64')}` });
+  } catch (error) {
+    console.error('Background removal failed:', error);
+    sendError(res, toAppError(error, 'Background removal failed.'));
+  }
+});
+
+// List stored generations with pagination, sorting and settings filters
+app.get('/generations', async (req, res) => {
+  const parsed = parseHistoryQuery(req.query);
+  if ('error' in parsed) {
+    return res.status(400).json(parsed.error);
+  }
+  const { query } = parsed;
+  const { page, pageSize } = query;
+
+  try {
+    const { items, total } = await generationRepository.list(query);
+    res.status(200).json({ success: true, items, page, pageSize, total, totalPages: Math.ceil(total / pageSize) });
+  } catch (error) {
+    console.error('Error listing generations:', error);
+    sendError(res, new AppError('STORAGE', 'Failed to list generations.'));
+  }
+});
+
+// Fetch one stored generation by id
+app.get('/generations/:id', async (req, res) => {
+  try {
+    const generation = await generationRepository.findById(req.params.id);
+    if (!generation) {
+      return sendError(res, new AppError('NOT_FOUND', 'Generation not found.'));
+    }
+    res.status(200).json({ success: true, generation });
+  } catch (error) {
+    console.error(`Error fetching generation ${req.params.id}:`, error);
+    sendError(res, new AppError('STORAGE', 'Failed to fetch generation.'));
+  }
+});
+
+// Delete one generation. ?soft=true moves it to the trash instead of removing it permanently.
+app.delete('/generations/:id', async (req, res) => {
+  try {
+    const { deleted, failed } = await deleteGenerations([req.params.id], { soft: req.query.soft === 'true' });
+    if (failed.length > 0) {
+      return sendError(res, new AppError('STORAGE', 'Failed to delete the generation image file.'));
+    }
+    if (deleted.length === 0) {
+      return sendError(res, new AppError('NOT_FOUND', 'Generation not found.'));
+    }
+    res.status(200).json({ success: true, deleted });
+  } catch (error) {
+    console.error(`Error deleting generation ${req.params.id}:`, error);
+    sendError(res, new AppError('STORAGE', 'Failed to delete generation.'));
+  }
+});
+
+// Delete many generations at once: body { ids: string[], soft?: boolean }
+app.post('/generations/bulk-delete', async (req, res) => {
+  const parsed = BulkDeleteRequestSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json(validationErrorResponse(parsed.error, 'Invalid request: ids must be an array of generation ids and soft a boolean.'));
+  }
+  const { ids, soft } = parsed.data;
+
+  try {
+    const { deleted, notFound, failed } = await deleteGenerations(ids, { soft });
+    res.status(200).json({ success: true, deleted, notFound, failed });
+  } catch (error) {
+    console.error('Error bulk-deleting generations:', error);
+    sendError(res, new AppError('STORAGE', 'Failed to delete generations.'));
+  }
+});
+
+// Restore a soft-deleted generation from the trash
+app.post('/generations/:id/restore', async (req, res) => {
+  try {
+    const record = await generationRepository.findById(req.params.id);
+    if (!record) {
+      return sendError(res, new AppError('NOT_FOUND', 'Generation not found.'));
+    }
+    if (!record.deletedAt) {
+      return sendError(res, new AppError('CONFLICT', 'Generation is not in the trash.'));
+    }
+    const generation = await generationRepository.restore(record.generationId);
+    console.log(`Restored generation ${record.generationId} from trash`);
+    res.status(200).json({ success: true, generation });
+  } catch (error) {
+    console.error(`Error restoring generation ${req.params.id}:`, error);
+    sendError(res, new AppError('STORAGE', 'Failed to restore generation.'));
+  }
+});
+
+// Refine a generated image with a follow-up instruction ("make the jacket red"); see refineGeneration
+app.post('/generations/:id/refine', async (req, res) => {
+  const validation = validateRefinementRequest(req.body, 'instruction');
+  if ('error' in validation) {
+    return res.status(400).json(validation.error);
+  }
+  const { instruction, provider } = validation.request;
+
+  try {
+    const generation = await refineGeneration(req.params.id, { mode: 'instruction', instruction }, provider);
+    res.status(200).json({ success: true, generation });
+  } catch (error) {
+    console.error(`Error refining generation ${req.params.id}:`, error);
+    sendError(res, toAppError(error, 'Refinement failed due to an unexpected internal server error.'));
+  }
+});
+
+// Regenerate only a masked region of a generated image ("fix the hands"), keeping the rest - above all the
+// garment - as it is. Saved as a refinement of the source with refinementMode "inpaint".
+app.post('/generations/:id/inpaint', async (req, res) => {
+  const validation = validateRefinementRequest(req.body, 'inpaint');
+  if ('error' in validation) {
+    return res.status(400).json(validation.error);
+  }
+  const { instruction, provider, maskData } = validation.request;
+
+  try {
+    const mask = validateMask(maskData);
+    const generation = await refineGeneration(req.params.id, { mode: 'inpaint', instruction, mask }, provider);
+    res.status(200).json({ success: true, generation });
+  } catch (error) {
+    console.error(`Error inpainting generation ${req.params.id}:`, error);
+    sendError(res, toAppError(error, 'Inpainting failed due to an unexpected internal server error.'));
+  }
+});
+
+// Place the subject of a generated image in a new scene - another background preset or custom background, lighting,
+// time of day, weather or season - keeping the model's face, pose and framing. The scene is described with the
+// prompt template's background and atmosphere partials and saved as a refinement with refinementMode "background".
+app.post('/generations/:id/background', async (req, res) => {
+  const validation = validateRefinementRequest(req.body, 'background');
+  if ('error' in validation) {
+    return res.status(400).json(validation.error);
+  }
+  const { environmentSettings, provider } = validation.request;
+
+  try {
+    const generation = await refineGeneration(req.params.id, { mode: 'background', environmentSettings }, provider);
+    res.status(200).json({ success: true, generation });
+  } catch (error) {
+    console.error(`Error swapping the background of generation ${req.params.id}:`, error);
+    sendError(res, toAppError(error, 'Background swap failed due to an unexpected internal server error.'));
+  }
+});
+
+// The refinement chain a generation belongs to: its original and every refinement of it, oldest first.
+// Trashed generations are left out.
+app.get('/generations/:id/refinements', async (req, res) => {
+  try {
+    const generation = await generationRepository.findById(req.params.id);
+    if (!generation) {
+      return sendError(res, new AppError('NOT_FOUND', 'Generation not found.'));
+    }
+    const rootGenerationId = generation.refinementRootId ?? generation.generationId;
+    const items = (await generationRepository.findRefinementChain(rootGenerationId)).filter(record => !record.deletedAt);
+    res.status(200).json({ success: true, rootGenerationId, items });
+  } catch (error) {
+    console.error(`Error fetching the refinement chain of generation ${req.params.id}:`, error);
+    sendError(res, new AppError('STORAGE', 'Failed to fetch the refinement chain.'));
+  }
+});
+
+// --- Presets ---
+// Team library only; built-in presets ship with the shared package and personal ones stay in the browser
+app.get('/presets', async (_req, res) => {
+  try {
+    res.status(200).json({ success: true, presets: await presetRepository.list() });
+  } catch (error) {
+    console.error('Error listing presets:', error);
+    sendError(res, new AppError('STORAGE', 'Failed to list presets.'));
+  }
+});
+
+// Save a preset to the team library: body { name, settings }
+app.post('/presets', async (req, res) => {
+  const parsed = CreatePresetRequestSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json(validationErrorResponse(parsed.error, 'Invalid preset: check the highlighted fields.'));
+  }
+
+  const now = new Date().toISOString();
+  const preset: SettingsPreset = { id: uuidv4(), ...parsed.data, createdAt: now, updatedAt: now };
+  try {
+    await presetRepository.insert([preset]);
+    console.log(`Saved preset "${preset.name}" (${preset.id})`);
+    res.status(201).json({ success: true, preset });
+  } catch (error) {
+    console.error('Error saving preset:', error);
+    sendError(res, new AppError('STORAGE', 'Failed to save preset.'));
+  }
+});
+
+// Add every preset in an exported preset file to the team library (always as new presets)
+app.post('/presets/import', async (req, res) => {
+  const parsed = PresetFileSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json(validationErrorResponse(parsed.error, 'Invalid preset file: check the highlighted fields.'));
+  }
+
+  const now = new Date().toISOString();
+  const presets: SettingsPreset[] = parsed.data.presets.map(({ name, settings }) => ({ id: uuidv4(), name, settings, createdAt: now, updatedAt: now }));
+  try {
+    await presetRepository.insert(presets);
+    console.log(`Imported ${presets.length} presets`);
+    res.status(201).json({ success: true, presets });
+  } catch (error) {
+    console.error('Error importing presets:', error);
+    sendError(res, new AppError('STORAGE', 'Failed to import presets.'));
+  }
+});
+
+// Rename a team preset and/or replace its settings: body { name?, settings? }
+app.patch('/presets/:id', async (req, res) => {
+  const parsed = UpdatePresetRequestSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json(validationErrorResponse(parsed.error, 'Invalid preset: check the highlighted fields.'));
+  }
+
+  try {
+    const preset = await presetRepository.update(req.params.id, { ...parsed.data, updatedAt: new Date().toISOString() });
+    if (!preset) {
+      return sendError(res, new AppError('NOT_FOUND', 'Preset not found.'));
+    }
+    res.status(200).json({ success: true, preset });
+  } catch (error) {
+    console.error(`Error updating preset ${req.params.id}:`, error);
+    sendError(res, new AppError('STORAGE', 'Failed to update preset.'));
+  }
+});
+
+app.delete('/presets/:id', async (req, res) => {
+  try {
+    if (!(await presetRepository.remove(req.params.id))) {
+      return sendError(res, new AppError('NOT_FOUND', 'Preset not found.'));
+    }
+    console.log(`Deleted preset ${req.params.id}`);
+    res.status(200).json({ success: true });
+  } catch (error) {
+    console.error(`Error deleting preset ${req.params.id}:`, error);
+    sendError(res, new AppError('STORAGE', 'Failed to delete preset.'));
+  }
+});
+
+// --- Model Identities ---
+// Saved virtual models; a generation request names one with identityId to keep the same person
+app.get('/identities', async (_req, res) => {
+  try {
+    res.status(200).json({ success: true, identities: await identityRepository.list() });
+  } catch (error) {
+    console.error('Error listing model identities:', error);
+    sendError(res, new AppError('STORAGE', 'Failed to list model identities.'));
+  }
+});
+
+// Save a model identity from a generated image: body { name, generationId, referenceImageData }.
+// The client crops the reference from the generation's image; the attributes are copied from its settings.
+app.post('/identities', async (req, res) => {
+  const parsed = CreateIdentityRequestSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json(validationErrorResponse(parsed.error, 'Invalid identity: check the highlighted fields.'));
+  }
+  const { name, generationId, referenceImageData } = parsed.data;
+
+  try {
+    const source = await generationRepository.findById(generationId);
+    if (!source || source.deletedAt) {
+      throw new AppError('NOT_FOUND', 'Generation not found.', { details: { field: 'generationId' } });
+    }
+    const buffer = Buffer.from(referenceImageData.slice(referenceImageData.indexOf(',') + 1), 'base64'); // Format checked by the contract
+    const { mimeType } = validateGarmentImage(buffer, 'referenceImageData');
+
+    const id = uuidv4();
+    const fileName = `${id}.${extensionFor(mimeType)}`;
+    const now = new Date().toISOString();
+    const identity: ModelIdentity = {
+      id,
+      name,
+      referenceImagePath: `${IDENTITY_IMAGE_ROUTE_PREFIX}/${fileName}`,
+      modelSettings: source.settingsUsed.modelSettings,
+      sourceGenerationId: generationId,
+      createdAt: now,
+      updatedAt: now,
+    };
+    try {
+      await identityStorage.save(fileName, buffer, mimeType);
+      await identityRepository.insert(identity);
+    } catch (storageError) {
+      console.error(`Error saving model identity ${id}:`, storageError);
+      identityStorage.remove(fileName).catch(() => {}); // Don't leave an orphaned crop behind
+      throw new AppError('STORAGE', 'Failed to save model identity.');
+    }
+    console.log(`Saved model identity "${identity.name}" (${identity.id}) from generation ${generationId}`);
+    res.status(201).json({ success: true, identity });
+  } catch (error) {
+    if (!(error instanceof AppError)) console.error('Error saving model identity:', error);
+    sendError(res, toAppError(error, 'Failed to save model identity.'));
+  }
+});
+
+// Rename an identity and/or replace its attributes: body { name?, modelSettings? }. The reference crop never changes.
+app.patch('/identities/:id', async (req, res) => {
+  const parsed = UpdateIdentityRequestSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json(validationErrorResponse(parsed.error, 'Invalid identity: check the highlighted fields.'));
+  }
+
+  try {
+    const identity = await identityRepository.update(req.params.id, { ...parsed.data, updatedAt: new Date().toISOString() });
+    if (!identity) {
+      return sendError(res, new AppError('NOT_FOUND', 'Model identity not found.'));
+    }
+    res.status(200).json({ success: true, identity });
+  } catch (error) {
+    console.error(`Error updating model identity ${req.params.id}:`, error);
+    sendError(res, new AppError('STORAGE', 'Failed to update model identity.'));
+  }
+});
+
+// Deletes an identity and its reference crop. Generations made with it keep their identityId.
+app.delete('/identities/:id', async (req, res) => {
+  let identity: ModelIdentity | null;
+  try {
+    identity = await identityRepository.remove(req.params.id);
+  } catch (error) {
+    console.error(`Error deleting model identity ${req.params.id}:`, error);
+    return sendError(res, new AppError('STORAGE', 'Failed to delete model identity.'));
+  }
+  if (!identity) {
+    return sendError(res, new AppError('NOT_FOUND', 'Model identity not found.'));
+  }
+  const fileName = identityImageFileName(identity);
+  identityStorage.remove(fileName).catch(error => console.error(`Error deleting identity image ${fileName}:`, error));
+  console.log(`Deleted model identity ${identity.id}`);
+  res.status(200).json({ success: true });
+});
+
+// Create an asynchronous generation job - same body as /generate, returns immediately
+app.post('/jobs', async (req, res) => {
+  console.log('Received POST /jobs request');
+
+  const validation = validateGenerateRequest(req.body);
+  if ('error' in validation) {
+    console.error('Validation Error:', validation.error.fieldErrors);
+    return res.status(400).json(validation.error);
+  }
+  const { request } = validation;
+
+  let images: GarmentImageInput[];
+  let identity: IdentityReference | null;
+  try {
+    images = await loadGarmentImages(request);
+    identity = await loadIdentityReference(request);
+  } catch (error) {
+    console.error('Could not load the generation inputs:', error);
+    return sendError(res, toAppError(error, 'Failed to load the garment images.'));
+  }
+
+  const job = enqueueJob(request, images, identity);
+  pumpJobQueue();
+
+  res.status(202).json({ success: true, job: serializeJob(job) });
+});
+
+// Report the status (and results, once finished) of a job
+app.get('/jobs/:id', (req, res) => {
+  const job = jobs.get(req.params.id);
+  if (!job) {
+    return sendError(res, new AppError('NOT_FOUND', 'Job not found. It may have expired or the server was restarted.'));
+  }
+  res.status(200).json({ success: true, job: serializeJob(job) });
+});
+
+// Cancel a queued or running job
+app.delete('/jobs/:id', (req, res) => {
+  const job = jobs.get(req.params.id);
+  if (!job) {
+    return sendError(res, new AppError('NOT_FOUND', 'Job not found. It may have expired or the server was restarted.'));
+  }
+  if (isJobFinished(job)) {
+    return sendError(res, new AppError('CONFLICT', `Job is already ${job.status}.`));
+  }
+  cancelJob(job);
+  res.status(200).json({ success: true, job: serializeJob(job) });
+});
+
+// --- Sweeps ---
+// Queue one job per combination of the varied settings: body { request, dimensions }. The garments and identity are
+// loaded once and shared by every job. Returns immediately; poll GET /sweeps/:id for progress.
+app.post('/sweeps', async (req, res) => {
+  console.log('Received POST /sweeps request');
+
+  const parsed = SweepRequestSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json(validationErrorResponse(parsed.error, 'Invalid sweep: check the highlighted fields.'));
+  }
+  const { request, dimensions } = parsed.data;
+  const fieldErrors = unknownReferenceErrors(request, 'request.');
+  if (fieldErrors.length > 0) {
+    return res.status(400).json({ success: false, code: 'INVALID_INPUT', message: 'Invalid sweep: check the highlighted fields.', retryable: false, fieldErrors });
+  }
+
+  let images: GarmentImageInput[];
+  let identity: IdentityReference | null;
+  try {
+    images = await loadGarmentImages(request);
+    identity = await loadIdentityReference(request);
+  } catch (error) {
+    console.error('Could not load the generation inputs:', error);
+    return sendError(res, toAppError(error, 'Failed to load the garment images.'));
+  }
+
+  const sweep: SweepState = { id: uuidv4(), createdAt: new Date().toISOString(), dimensions, items: [] };
+  sweeps.set(sweep.id, sweep);
+  for (const values of expandSweep(dimensions)) {
+    const job = enqueueJob({ ...request, settings: applySweepValues(request.settings, values) }, images, identity, sweep.id);
+    sweep.items.push({ values, jobId: job.id });
+  }
+  console.log(`Sweep ${sweep.id} queued ${sweep.items.length} combination(s) over ${dimensions.map(dimension => dimension.fieldPath).join(', ')}`);
+  pumpJobQueue();
+
+  res.status(202).json({ success: true, sweep: serializeSweep(sweep) });
+});
+
+// Report a sweep and the status (and results, once finished) of each combination's job
+app.get('/sweeps/:id', (req, res) => {
+  const sweep = sweeps.get(req.params.id);
+  if (!sweep) {
+    return sendError(res, new AppError('NOT_FOUND', 'Sweep not found. It may have expired or the server was restarted.'));
+  }
+  res.status(200).json({ success: true, sweep: serializeSweep(sweep) });
+});
+
+// Cancel every combination that hasn't finished; finished ones keep their images
+app.delete('/sweeps/:id', (req, res) => {
+  const sweep = sweeps.get(req.params.id);
+  if (!sweep) {
+    return sendError(res, new AppError('NOT_FOUND', 'Sweep not found. It may have expired or the server was restarted.'));
+  }
+  const pending = sweep.items.map(item => jobs.get(item.jobId)!).filter(job => !isJobFinished(job));
+  if (pending.length === 0) {
+    return sendError(res, new AppError('CONFLICT', 'Sweep has already finished.'));
+  }
+  pending.forEach(cancelJob);
+  console.log(`Sweep ${sweep.id} cancelled (${pending.length} job(s))`);
+  res.status(200).json({ success: true, sweep: serializeSweep(sweep) });
+});
+
+// --- Error Handling ---
+// Malformed or oversized JSON bodies and anything a route didn't catch still get a structured error
+app.use((error: unknown, _req: express.Request, res: express.Response, _next: express.NextFunction) => {
+  const bodyError = error as { type?: string };
+  if (bodyError.type === 'entity.parse.failed') {
+    return sendError(res, new AppError('INVALID_INPUT', 'Request body is not valid JSON.'));
+  }
+  if (bodyError.type === 'entity.too.large') {
+    return sendError(res, new AppError('INVALID_INPUT', 'Request body is too large.', { statusCode: 413 }));
+  }
+  console.error('Unhandled route error:', error);
+  sendError(res, toAppError(error));
+});
+
+// --- Server Start (Remains the same) ---
+const PORT = process.env.PORT || 3001;
+app.listen(PORT, () => {
+  console.log(`Server listening on port ${PORT}`);
+});
@@ -0,0 +1,86 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GenerationRecord, GenerationSettings, HistoryQuery } from 'shared';
+import { GenerationRepository, MetadataStoreType, createGenerationRepository } from './generationRepository';
+
+const settings: GenerationSettings = {
+    modelSettings: { gender: 'Female', bodyType: 'Average', ageRange: '26-35', ethnicity: 'Mixed-race', hairStyle: 'Straight', hairColor: 'Brown', height: 'Average', pose: 'Standing', accessories: 'None' },
+    environmentSettings: { backgroundPreset: 'studio-white', backgroundCustom: '', lighting: 'Studio Softbox', lensStyle: 'Fashion Magazine (Standard)', timeOfDay: 'Noon', weather: 'Clear', season: 'Spring', cameraAngle: 'Eye Level' },
+};
+
+function record(generationId: string, createdAt: string, changes: Partial<GenerationRecord> = {}): GenerationRecord {
+    return { generationId, createdAt, settingsUsed: settings, promptUsed: 'A model', imagePath: `/images/${generationId}.png`, status: 'completed', ...changes };
+}
+
+const query = (changes: Partial<HistoryQuery> = {}): HistoryQuery => ({ page: 1, pageSize: 20, sortBy: 'createdAt', order: 'desc', trash: false, filters: [], ...changes });
+const ids = (records: GenerationRecord[]) => records.map(item => item.generationId);
+
+// Both stores must behave the same; the server only sees the interface
+describe.each<MetadataStoreType>(['sqlite', 'json'])('%s generation repository', type => {
+    let uploadsDir: string;
+    let repository: GenerationRepository;
+
+    const reopen = async () => {
+        await repository.close();
+        repository = createGenerationRepository({ type, uploadsDir });
+    };
+
+    beforeEach(async () => {
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+        uploadsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'generations-'));
+        repository = createGenerationRepository({ type, uploadsDir });
+        await repository.insert(record('a', '2025-01-01T00:00:00.000Z'));
+        await repository.insert(record('b', '2025-01-02T00:00:00.000Z', { settingsUsed: { ...settings, modelSettings: { ...settings.modelSettings, pose: 'Walking' } } }));
+        await repository.insert(record('c', '2025-01-03T00:00:00.000Z', { parentGenerationId: 'a', refinementRootId: 'a', refinementInstruction: 'Make it blue' }));
+    });
+
+    afterEach(async () => {
+        await repository.close();
+        fs.rmSync(uploadsDir, { recursive: true, force: true });
+        vi.restoreAllMocks();
+    });
+
+    it('finds records by id and keeps them across restarts', async () => {
+        await reopen();
+        expect(await repository.findById('b')).toEqual(record('b', '2025-01-02T00:00:00.000Z', { settingsUsed: { ...settings, modelSettings: { ...settings.modelSettings, pose: 'Walking' } } }));
+        expect(await repository.findById('missing')).toBeNull();
+        expect(ids(await repository.findByIds(['c', 'missing', 'a'])).sort()).toEqual(['a', 'c']);
+    });
+
+    it('lists pages sorted, filtered and counted', async () => {
+        expect(ids((await repository.list(query())).items)).toEqual(['c', 'b', 'a']);
+        expect(ids((await repository.list(query({ order: 'asc', pageSize: 2, page: 2 }))).items)).toEqual(['c']);
+        // a and c share a pose, so they tie and fall back to newest first
+        expect(ids((await repository.list(query({ sortBy: 'modelSettings.pose', order: 'asc' }))).items)).toEqual(['c', 'a', 'b']);
+        const walking = await repository.list(query({ filters: [{ fieldPath: 'modelSettings.pose', value: 'Walking' }] }));
+        expect(walking).toEqual({ items: [expect.objectContaining({ generationId: 'b' })], total: 1 });
+    });
+
+    it('moves records to the trash and restores them', async () => {
+        expect((await repository.markDeleted(['a', 'missing'], '2025-02-01T00:00:00.000Z')).sort()).toEqual(['a']);
+        expect(ids((await repository.list(query())).items)).toEqual(['c', 'b']);
+        expect((await repository.list(query({ trash: true }))).items).toEqual([expect.objectContaining({ generationId: 'a', deletedAt: '2025-02-01T00:00:00.000Z' })]);
+
+        // A second soft delete keeps the original time
+        await repository.markDeleted(['a'], '2025-03-01T00:00:00.000Z');
+        expect((await repository.findById('a'))?.deletedAt).toBe('2025-02-01T00:00:00.000Z');
+
+        const restored = await repository.restore('a');
+        expect(restored?.deletedAt).toBeUndefined();
+        expect(await repository.restore('missing')).toBeNull();
+        expect((await repository.list(query())).total).toBe(3);
+    });
+
+    it('returns the refinement chain oldest first, trashed refinements included', async () => {
+        await repository.markDeleted(['c'], '2025-02-01T00:00:00.000Z');
+        expect(ids(await repository.findRefinementChain('a'))).toEqual(['a', 'c']);
+    });
+
+    it('removes records permanently', async () => {
+        await repository.remove(['a', 'b']);
+        await reopen();
+        expect(ids((await repository.list(query())).items)).toEqual(['c']);
+    });
+});
@@ -0,0 +1,37 @@
+// Generation metadata repository - shared contract and factory.
+// Records keep the shape the API returns (GenerationRecord from the shared contract).
+
+import path from 'path';
+import { GenerationRecord, HistoryQuery } from 'shared';
+import SqliteGenerationRepository from './sqliteGenerationRepository';
+import JsonGenerationRepository from './jsonGenerationRepository';
+
+export interface GenerationRepository {
+    insert(record: GenerationRecord): Promise<void>;
+    findById(generationId: string): Promise<GenerationRecord | null>;
+    findByIds(generationIds: string[]): Promise<GenerationRecord[]>;
+    list(query: HistoryQuery): Promise<{ items: GenerationRecord[]; total: number }>;
+    // The original generation and every refinement made from it, oldest first, trashed ones included
+    findRefinementChain(rootGenerationId: string): Promise<GenerationRecord[]>;
+    // Returns the ids that exist (now in the trash)
+    markDeleted(generationIds: string[], deletedAt: string): Promise<string[]>;
+    // Clears deletedAt; null if the record doesn't exist
+    restore(generationId: string): Promise<GenerationRecord | null>;
+    // Permanent, records only - image files are the caller's job
+    remove(generationIds: string[]): Promise<void>;
+    close(): Promise<void>;
+}
+
+export type MetadataStoreType = 'sqlite' | 'json';
+
+// Picks the implementation from METADATA_STORE ("sqlite" by default, "json" for local development)
+export function createGenerationRepository({ type = process.env.METADATA_STORE || 'sqlite', uploadsDir }: { type?: string; uploadsDir: string }): GenerationRepository {
+    switch (type) {
+        case 'sqlite':
+            return new SqliteGenerationRepository(path.join(uploadsDir, 'generations.db'));
+        case 'json':
+            return new JsonGenerationRepository(path.join(uploadsDir, 'metadata.json'));
+        default:
+            throw new Error(`Unknown METADATA_STORE "${type}". Use "sqlite" or "json".`);
+    }
+}
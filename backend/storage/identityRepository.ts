@@ -0,0 +1,33 @@
+// Model identity library - shared contract and factory.
+// Only the metadata lives here; reference crops are kept in their own image storage.
+
+import path from 'path';
+import { ModelIdentity } from 'shared';
+import SqliteIdentityRepository from './sqliteIdentityRepository';
+import JsonIdentityRepository from './jsonIdentityRepository';
+
+export type IdentityChanges = Partial<Pick<ModelIdentity, 'name' | 'modelSettings'>> & { updatedAt: string };
+
+export interface IdentityRepository {
+    // Sorted by name
+    list(): Promise<ModelIdentity[]>;
+    findById(id: string): Promise<ModelIdentity | null>;
+    insert(identity: ModelIdentity): Promise<void>;
+    // Null if the identity doesn't exist
+    update(id: string, changes: IdentityChanges): Promise<ModelIdentity | null>;
+    // The removed identity, or null if it doesn't exist
+    remove(id: string): Promise<ModelIdentity | null>;
+    close(): Promise<void>;
+}
+
+// Follows METADATA_STORE so identities sit next to the generation metadata
+export function createIdentityRepository({ type = process.env.METADATA_STORE || 'sqlite', uploadsDir }: { type?: string; uploadsDir: string }): IdentityRepository {
+    switch (type) {
+        case 'sqlite':
+            return new SqliteIdentityRepository(path.join(uploadsDir, 'identities.db'));
+        case 'json':
+            return new JsonIdentityRepository(path.join(uploadsDir, 'identities.json'));
+        default:
+            throw new Error(`Unknown METADATA_STORE "${type}". Use "sqlite" or "json".`);
+    }
+}
@@ -0,0 +1,29 @@
+// File-name helpers shared by the image storage implementations
+
+import path from 'path';
+
+// "png" -> "image/png"; anything unknown falls back to a generic binary type
+const CONTENT_TYPES: Record<string, string> = {
+    png: 'image/png',
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    webp: 'image/webp',
+    gif: 'image/gif',
+    avif: 'image/avif',
+    svg: 'image/svg+xml', // Placeholders from the mock image provider and vector uploads
+};
+
+export function contentTypeFor(fileName: string) {
+    return CONTENT_TYPES[path.extname(fileName).slice(1).toLowerCase()] || 'application/octet-stream';
+}
+
+// "image/jpeg" -> "jpg"; unknown image types keep their subtype ("image/heic" -> "heic")
+export function extensionFor(mimeType: string) {
+    const known = Object.keys(CONTENT_TYPES).find(extension => CONTENT_TYPES[extension] === mimeType);
+    return known || mimeType.split('/')[1]?.replace(/\W.*$/, '') || 'jpg';
+}
+
+// Generated file names are uuids plus an extension; anything else is rejected before touching storage
+export function isValidImageFileName(fileName: unknown): fileName is string {
+    return typeof fileName === 'string' && /^[\w-]+\.[a-z0-9]+$/i.test(fileName);
+}
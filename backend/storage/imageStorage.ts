@@ -0,0 +1,45 @@
+// Image storage - shared contract and factory.
+//
+// Clients only ever see the relative path "/images/<fileName>" (prefixed with API_BASE_URL),
+// whatever the backend: local files are served directly, remote objects are redirected to a
+// signed URL or proxied through the server.
+
+import type { RequestHandler } from 'express';
+import LocalImageStorage from './localImageStorage';
+import S3ImageStorage from './s3ImageStorage';
+
+// Images are addressed by file name ("<generationId>.<ext>")
+export interface ImageStorage {
+    save(fileName: string, buffer: Buffer, contentType?: string): Promise<void>;
+    // Null when the image doesn't exist
+    read(fileName: string): Promise<Buffer | null>;
+    // A missing image counts as removed
+    remove(fileName: string): Promise<void>;
+    // Express middleware mounted at /images
+    createRouter(): RequestHandler;
+    // Short description for startup logs
+    describe(): string;
+}
+
+// Picks the implementation from IMAGE_STORAGE ("local" by default, "s3" for any S3-compatible service).
+// keyPrefix separates other image sets (e.g. uploaded garments) from generated images in the bucket.
+export function createImageStorage({ type = process.env.IMAGE_STORAGE || 'local', imagesDir, keyPrefix = process.env.S3_KEY_PREFIX || 'images/' }: { type?: string; imagesDir: string; keyPrefix?: string }): ImageStorage {
+    switch (type) {
+        case 'local':
+            return new LocalImageStorage(imagesDir);
+        case 's3':
+            return new S3ImageStorage({
+                bucket: process.env.S3_BUCKET,
+                region: process.env.S3_REGION || 'us-east-1',
+                endpoint: process.env.S3_ENDPOINT, // e.g. http://localhost:9000 for MinIO
+                forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+                accessKeyId: process.env.S3_ACCESS_KEY_ID,
+                secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+                keyPrefix,
+                urlMode: process.env.IMAGE_URL_MODE || 'signed', // "signed" redirects, "proxy" streams through the backend
+                signedUrlTtlSeconds: parseInt(process.env.SIGNED_URL_TTL_SECONDS ?? '', 10) || 900,
+            });
+        default:
+            throw new Error(`Unknown IMAGE_STORAGE "${type}". Use "local" or "s3".`);
+    }
+}
@@ -0,0 +1,130 @@
+// JSON-file generation repository for local development.
+// Keeps records in memory, serializes every mutation through one queue and
+// persists with write-to-temp-then-rename so a crash never leaves a half-written file.
+
+import fs from 'fs';
+import { GenerationRecord, HistoryQuery, getRecordField } from 'shared';
+import type { GenerationRepository } from './generationRepository';
+
+class JsonGenerationRepository implements GenerationRepository {
+    private filePath: string;
+    private records: GenerationRecord[];
+    private writeQueue: Promise<unknown>;
+
+    constructor(filePath: string) {
+        this.filePath = filePath;
+        this.records = this.load(); // Newest first, like metadata.json always was
+        this.writeQueue = Promise.resolve();
+        console.log(`Metadata store: JSON file ${filePath} (${this.records.length} records)`);
+    }
+
+    private load(): GenerationRecord[] {
+        try {
+            const metadata = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+            return Array.isArray(metadata) ? metadata : [];
+        } catch (readError) {
+            if ((readError as NodeJS.ErrnoException).code !== 'ENOENT') console.error(`Error reading metadata file ${this.filePath}:`, readError);
+            return [];
+        }
+    }
+
+    // Atomic replace: the rename is the commit point
+    private persist() {
+        const tempPath = `${this.filePath}.${process.pid}.tmp`;
+        fs.writeFileSync(tempPath, JSON.stringify(this.records, null, 2), 'utf8');
+        fs.renameSync(tempPath, this.filePath);
+    }
+
+    // Runs a mutation after all earlier ones; the in-memory state is rolled back if persisting fails
+    private mutate<T>(change: () => T): Promise<T> {
+        const run = async () => {
+            const snapshot = this.records.slice();
+            try {
+                const result = change();
+                this.persist();
+                return result;
+            } catch (error) {
+                this.records = snapshot;
+                throw error;
+            }
+        };
+        const next = this.writeQueue.then(run);
+        this.writeQueue = next.catch(() => {}); // Keep the queue alive after a failure
+        return next;
+    }
+
+    async insert(record: GenerationRecord) {
+        return this.mutate(() => {
+            this.records.unshift(record);
+        });
+    }
+
+    async findById(generationId: string) {
+        return this.records.find(record => record.generationId === generationId) || null;
+    }
+
+    async findByIds(generationIds: string[]) {
+        const idSet = new Set(generationIds);
+        return this.records.filter(record => idSet.has(record.generationId));
+    }
+
+    async list({ page, pageSize, sortBy, order, filters, trash }: HistoryQuery) {
+        const matching = this.records.filter(record =>
+            Boolean(record.deletedAt) === trash &&
+            filters.every(({ fieldPath, value }) => String(getRecordField(record, fieldPath) ?? '') === value)
+        );
+
+        const direction = order === 'asc' ? 1 : -1;
+        matching.sort((a, b) => {
+            const aValue = String(getRecordField(a, sortBy) ?? '');
+            const bValue = String(getRecordField(b, sortBy) ?? '');
+            // Ties fall back to newest first, as in the SQLite store
+            return aValue.localeCompare(bValue) * direction || b.createdAt.localeCompare(a.createdAt);
+        });
+
+        return { items: matching.slice((page - 1) * pageSize, page * pageSize), total: matching.length };
+    }
+
+    async findRefinementChain(rootGenerationId: string) {
+        return this.records
+            .filter(record => record.generationId === rootGenerationId || record.refinementRootId === rootGenerationId)
+            .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    }
+
+    async markDeleted(generationIds: string[], deletedAt: string) {
+        return this.mutate(() => {
+            const idSet = new Set(generationIds);
+            const marked: string[] = [];
+            this.records = this.records.map(record => {
+                if (!idSet.has(record.generationId)) return record;
+                marked.push(record.generationId);
+                return { ...record, deletedAt: record.deletedAt || deletedAt };
+            });
+            return marked;
+        });
+    }
+
+    async restore(generationId: string) {
+        return this.mutate(() => {
+            const index = this.records.findIndex(record => record.generationId === generationId);
+            if (index === -1) return null;
+            const restored = { ...this.records[index] };
+            delete restored.deletedAt;
+            this.records = this.records.map((record, i) => (i === index ? restored : record));
+            return restored;
+        });
+    }
+
+    async remove(generationIds: string[]) {
+        return this.mutate(() => {
+            const idSet = new Set(generationIds);
+            this.records = this.records.filter(record => !idSet.has(record.generationId));
+        });
+    }
+
+    async close() {
+        await this.writeQueue;
+    }
+}
+
+export default JsonGenerationRepository;
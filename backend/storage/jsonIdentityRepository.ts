@@ -0,0 +1,93 @@
+// JSON-file identity repository for local development.
+// Same write discipline as the other JSON repositories: one mutation queue, atomic rename.
+
+import fs from 'fs';
+import { ModelIdentity } from 'shared';
+import type { IdentityChanges, IdentityRepository } from './identityRepository';
+
+const compareNames = new Intl.Collator(undefined, { sensitivity: 'base', numeric: true }).compare;
+
+class JsonIdentityRepository implements IdentityRepository {
+    private filePath: string;
+    private identities: ModelIdentity[];
+    private writeQueue: Promise<unknown>;
+
+    constructor(filePath: string) {
+        this.filePath = filePath;
+        this.identities = this.load();
+        this.writeQueue = Promise.resolve();
+        console.log(`Identity store: JSON file ${filePath} (${this.identities.length} identities)`);
+    }
+
+    private load(): ModelIdentity[] {
+        try {
+            const identities = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+            return Array.isArray(identities) ? identities : [];
+        } catch (readError) {
+            if ((readError as NodeJS.ErrnoException).code !== 'ENOENT') console.error(`Error reading identity file ${this.filePath}:`, readError);
+            return [];
+        }
+    }
+
+    private persist() {
+        const tempPath = `${this.filePath}.${process.pid}.tmp`;
+        fs.writeFileSync(tempPath, JSON.stringify(this.identities, null, 2), 'utf8');
+        fs.renameSync(tempPath, this.filePath);
+    }
+
+    // Runs a mutation after all earlier ones; the in-memory state is rolled back if persisting fails
+    private mutate<T>(change: () => T): Promise<T> {
+        const run = async () => {
+            const snapshot = this.identities.slice();
+            try {
+                const result = change();
+                this.persist();
+                return result;
+            } catch (error) {
+                this.identities = snapshot;
+                throw error;
+            }
+        };
+        const next = this.writeQueue.then(run);
+        this.writeQueue = next.catch(() => {});
+        return next;
+    }
+
+    async list() {
+        return this.identities.slice().sort((a, b) => compareNames(a.name, b.name));
+    }
+
+    async findById(id: string) {
+        return this.identities.find(identity => identity.id === id) || null;
+    }
+
+    async insert(identity: ModelIdentity) {
+        return this.mutate(() => {
+            this.identities.push(identity);
+        });
+    }
+
+    async update(id: string, changes: IdentityChanges) {
+        return this.mutate(() => {
+            const index = this.identities.findIndex(identity => identity.id === id);
+            if (index === -1) return null;
+            const updated = { ...this.identities[index], ...changes };
+            this.identities = this.identities.map((identity, i) => (i === index ? updated : identity));
+            return updated;
+        });
+    }
+
+    async remove(id: string) {
+        return this.mutate(() => {
+            const removed = this.identities.find(identity => identity.id === id) || null;
+            if (removed) this.identities = this.identities.filter(identity => identity !== removed);
+            return removed;
+        });
+    }
+
+    async close() {
+        await this.writeQueue;
+    }
+}
+
+export default JsonIdentityRepository;
@@ -0,0 +1,93 @@
+// JSON-file preset repository for local development.
+// Same write discipline as the JSON generation repository: one mutation queue, atomic rename.
+
+import fs from 'fs';
+import { SettingsPreset } from 'shared';
+import type { PresetChanges, PresetRepository } from './presetRepository';
+
+const compareNames = new Intl.Collator(undefined, { sensitivity: 'base', numeric: true }).compare;
+
+class JsonPresetRepository implements PresetRepository {
+    private filePath: string;
+    private presets: SettingsPreset[];
+    private writeQueue: Promise<unknown>;
+
+    constructor(filePath: string) {
+        this.filePath = filePath;
+        this.presets = this.load();
+        this.writeQueue = Promise.resolve();
+        console.log(`Preset store: JSON file ${filePath} (${this.presets.length} presets)`);
+    }
+
+    private load(): SettingsPreset[] {
+        try {
+            const presets = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+            return Array.isArray(presets) ? presets : [];
+        } catch (readError) {
+            if ((readError as NodeJS.ErrnoException).code !== 'ENOENT') console.error(`Error reading preset file ${this.filePath}:`, readError);
+            return [];
+        }
+    }
+
+    private persist() {
+        const tempPath = `${this.filePath}.${process.pid}.tmp`;
+        fs.writeFileSync(tempPath, JSON.stringify(this.presets, null, 2), 'utf8');
+        fs.renameSync(tempPath, this.filePath);
+    }
+
+    // Runs a mutation after all earlier ones; the in-memory state is rolled back if persisting fails
+    private mutate<T>(change: () => T): Promise<T> {
+        const run = async () => {
+            const snapshot = this.presets.slice();
+            try {
+                const result = change();
+                this.persist();
+                return result;
+            } catch (error) {
+                this.presets = snapshot;
+                throw error;
+            }
+        };
+        const next = this.writeQueue.then(run);
+        this.writeQueue = next.catch(() => {});
+        return next;
+    }
+
+    async list() {
+        return this.presets.slice().sort((a, b) => compareNames(a.name, b.name));
+    }
+
+    async findById(id: string) {
+        return this.presets.find(preset => preset.id === id) || null;
+    }
+
+    async insert(presets: SettingsPreset[]) {
+        return this.mutate(() => {
+            this.presets.push(...presets);
+        });
+    }
+
+    async update(id: string, changes: PresetChanges) {
+        return this.mutate(() => {
+            const index = this.presets.findIndex(preset => preset.id === id);
+            if (index === -1) return null;
+            const updated = { ...this.presets[index], ...changes };
+            this.presets = this.presets.map((preset, i) => (i === index ? updated : preset));
+            return updated;
+        });
+    }
+
+    async remove(id: string) {
+        return this.mutate(() => {
+            const before = this.presets.length;
+            this.presets = this.presets.filter(preset => preset.id !== id);
+            return this.presets.length < before;
+        });
+    }
+
+    async close() {
+        await this.writeQueue;
+    }
+}
+
+export default JsonPresetRepository;
@@ -0,0 +1,53 @@
+// Local-filesystem image storage (default). Fine for development and single-host deployments;
+// on Cloud Run the container disk is ephemeral, so use the S3 implementation there.
+
+import fs from 'fs';
+import path from 'path';
+import express from 'express';
+import type { ImageStorage } from './imageStorage';
+
+class LocalImageStorage implements ImageStorage {
+    private imagesDir: string;
+
+    constructor(imagesDir: string) {
+        this.imagesDir = imagesDir;
+        if (!fs.existsSync(imagesDir)) fs.mkdirSync(imagesDir, { recursive: true });
+    }
+
+    // Only the basename is trusted so a crafted name can't escape the images directory
+    private filePath(fileName: string) {
+        return path.join(this.imagesDir, path.basename(fileName));
+    }
+
+    async save(fileName: string, buffer: Buffer) {
+        await fs.promises.writeFile(this.filePath(fileName), buffer);
+    }
+
+    async read(fileName: string) {
+        try {
+            return await fs.promises.readFile(this.filePath(fileName));
+        } catch (readError) {
+            if ((readError as NodeJS.ErrnoException).code === 'ENOENT') return null;
+            throw readError;
+        }
+    }
+
+    async remove(fileName: string) {
+        try {
+            await fs.promises.unlink(this.filePath(fileName));
+        } catch (unlinkError) {
+            if ((unlinkError as NodeJS.ErrnoException).code !== 'ENOENT') throw unlinkError;
+            console.warn(`Image file ${this.filePath(fileName)} was already missing.`);
+        }
+    }
+
+    createRouter() {
+        return express.static(this.imagesDir);
+    }
+
+    describe() {
+        return `local directory ${this.imagesDir}`;
+    }
+}
+
+export default LocalImageStorage;
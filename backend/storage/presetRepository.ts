@@ -0,0 +1,33 @@
+// Team preset library - shared contract and factory.
+// Built-in presets live in the shared package and are never stored here.
+
+import path from 'path';
+import { SettingsPreset } from 'shared';
+import SqlitePresetRepository from './sqlitePresetRepository';
+import JsonPresetRepository from './jsonPresetRepository';
+
+export type PresetChanges = Partial<Pick<SettingsPreset, 'name' | 'settings'>> & { updatedAt: string };
+
+export interface PresetRepository {
+    // Sorted by name
+    list(): Promise<SettingsPreset[]>;
+    findById(id: string): Promise<SettingsPreset | null>;
+    insert(presets: SettingsPreset[]): Promise<void>;
+    // Null if the preset doesn't exist
+    update(id: string, changes: PresetChanges): Promise<SettingsPreset | null>;
+    // False if the preset doesn't exist
+    remove(id: string): Promise<boolean>;
+    close(): Promise<void>;
+}
+
+// Follows METADATA_STORE so presets sit next to the generation metadata
+export function createPresetRepository({ type = process.env.METADATA_STORE || 'sqlite', uploadsDir }: { type?: string; uploadsDir: string }): PresetRepository {
+    switch (type) {
+        case 'sqlite':
+            return new SqlitePresetRepository(path.join(uploadsDir, 'presets.db'));
+        case 'json':
+            return new JsonPresetRepository(path.join(uploadsDir, 'presets.json'));
+        default:
+            throw new Error(`Unknown METADATA_STORE "${type}". Use "sqlite" or "json".`);
+    }
+}
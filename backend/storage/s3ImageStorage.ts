@@ -0,0 +1,132 @@
+// S3-compatible image storage (AWS S3, Google Cloud Storage interop, MinIO, ...).
+// Images stay reachable at /images/<fileName>: the route either redirects to a short-lived
+// signed URL (urlMode "signed") or streams the object through the backend (urlMode "proxy"),
+// so the bucket itself can stay private.
+
+import { Readable, pipeline } from 'stream';
+import express from 'express';
+import { S3Client, PutObjectCommand, GetObjectCommand, DeleteObjectCommand, S3ServiceException } from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { contentTypeFor, isValidImageFileName } from './imageFiles';
+import type { ImageStorage } from './imageStorage';
+import { AppError, sendError } from '../errors';
+
+type UrlMode = 'signed' | 'proxy';
+
+interface S3ImageStorageOptions {
+    bucket: string | undefined;
+    region: string;
+    endpoint: string | undefined;
+    forcePathStyle: boolean;
+    accessKeyId: string | undefined;
+    secretAccessKey: string | undefined;
+    keyPrefix: string;
+    urlMode: string;
+    signedUrlTtlSeconds: number;
+}
+
+// The SDK reports missing objects with either name depending on the service
+function isNotFoundError(error: unknown) {
+    if (!(error instanceof S3ServiceException)) return false;
+    return error.name === 'NoSuchKey' || error.name === 'NotFound' || error.$metadata?.httpStatusCode === 404;
+}
+
+class S3ImageStorage implements ImageStorage {
+    private bucket: string;
+    private keyPrefix: string;
+    private urlMode: UrlMode;
+    private signedUrlTtlSeconds: number;
+    private client: S3Client;
+
+    constructor({ bucket, region, endpoint, forcePathStyle, accessKeyId, secretAccessKey, keyPrefix, urlMode, signedUrlTtlSeconds }: S3ImageStorageOptions) {
+        if (!bucket) throw new Error('S3_BUCKET must be set when IMAGE_STORAGE is "s3".');
+        if (urlMode !== 'signed' && urlMode !== 'proxy') throw new Error(`Unknown IMAGE_URL_MODE "${urlMode}". Use "signed" or "proxy".`);
+
+        this.bucket = bucket;
+        this.keyPrefix = keyPrefix;
+        this.urlMode = urlMode;
+        this.signedUrlTtlSeconds = signedUrlTtlSeconds;
+        this.client = new S3Client({
+            region,
+            endpoint,
+            forcePathStyle, // MinIO and most self-hosted stand-ins need path-style addressing
+            // Falls back to the SDK's default credential chain (env, instance role, ...) when unset
+            credentials: accessKeyId && secretAccessKey ? { accessKeyId, secretAccessKey } : undefined,
+        });
+    }
+
+    private objectKey(fileName: string) {
+        return `${this.keyPrefix}${fileName}`;
+    }
+
+    async save(fileName: string, buffer: Buffer, contentType = contentTypeFor(fileName)) {
+        await this.client.send(new PutObjectCommand({
+            Bucket: this.bucket,
+            Key: this.objectKey(fileName),
+            Body: buffer,
+            ContentType: contentType,
+        }));
+    }
+
+    async read(fileName: string) {
+        try {
+            const object = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: this.objectKey(fileName) }));
+            if (!object.Body) return null;
+            return Buffer.from(await object.Body.transformToByteArray());
+        } catch (readError) {
+            if (isNotFoundError(readError)) return null;
+            throw readError;
+        }
+    }
+
+    // S3 deletes are idempotent, so a missing object needs no special case
+    async remove(fileName: string) {
+        await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: this.objectKey(fileName) }));
+    }
+
+    createRouter() {
+        const router = express.Router();
+
+        router.get('/:fileName', async (req, res) => {
+            const { fileName } = req.params;
+            if (!isValidImageFileName(fileName)) {
+                return sendError(res, new AppError('NOT_FOUND', 'Image not found.'));
+            }
+            const command = new GetObjectCommand({ Bucket: this.bucket, Key: this.objectKey(fileName) });
+
+            try {
+                if (this.urlMode === 'signed') {
+                    // Signing is local - a missing object surfaces as a 404 from the bucket instead
+                    const signedUrl = await getSignedUrl(this.client, command, { expiresIn: this.signedUrlTtlSeconds });
+                    res.set('Cache-Control', 'no-store'); // The signed URL expires, the redirect must not be cached
+                    return res.redirect(302, signedUrl);
+                }
+
+                const object = await this.client.send(command);
+                res.set('Content-Type', object.ContentType || contentTypeFor(fileName));
+                if (object.ContentLength !== undefined) res.set('Content-Length', String(object.ContentLength));
+                res.set('Cache-Control', 'public, max-age=31536000, immutable'); // File names are unique per generation
+                // The headers are already sent, so a stream failing partway can only abort the response
+                pipeline(object.Body as Readable, res, streamError => {
+                    if (!streamError) return;
+                    console.error(`Error streaming image ${fileName} from S3:`, streamError);
+                    res.destroy(streamError);
+                });
+            } catch (error) {
+                if (isNotFoundError(error)) {
+                    return sendError(res, new AppError('NOT_FOUND', 'Image not found.'));
+                }
+                console.error(`Error serving image ${fileName} from S3:`, error);
+                sendError(res, new AppError('STORAGE', 'Failed to load image from storage.', { statusCode: 502 }));
+            }
+        });
+
+        return router;
+    }
+
+    describe() {
+        return `S3 bucket ${this.bucket}/${this.keyPrefix} (${this.urlMode} URLs)`;
+    }
+}
+
+export default S3ImageStorage;
@@ -0,0 +1,188 @@
+// Embedded SQLite generation repository (default store).
+// The full record is stored as JSON; createdAt, deletedAt and batchId get their own columns and
+// every queryable settings field gets an expression index, so history queries never scan the table.
+
+import Database from 'better-sqlite3';
+import { GenerationFieldPath, GenerationRecord, HistoryQuery, SETTINGS_FIELD_PATHS, isQueryableField } from 'shared';
+import type { GenerationRepository } from './generationRepository';
+
+interface GenerationRow {
+    generationId: string;
+    createdAt: string;
+    deletedAt: string | null;
+    batchId: string | null;
+    record: string; // Full record as JSON
+}
+
+// SQL expression for a field path. Paths are re-checked here because they are inlined into the SQL;
+// inlining (rather than binding) keeps the expression identical to the index definition.
+function fieldExpression(fieldPath: GenerationFieldPath) {
+    if (!isQueryableField(fieldPath)) throw new Error(`Field "${fieldPath}" is not queryable.`);
+    if (fieldPath === 'createdAt') return 'created_at';
+    return `json_extract(record, '$.settingsUsed.${fieldPath}')`;
+}
+
+class SqliteGenerationRepository implements GenerationRepository {
+    private db: Database.Database;
+    private statements: {
+        insert: Database.Statement<GenerationRow>;
+        findById: Database.Statement<[string], { record: string }>;
+        findRefinementChain: Database.Statement<[string, string], { record: string }>;
+        markDeleted: Database.Statement<{ generationId: string; deletedAt: string }>;
+        restore: Database.Statement<[string]>;
+        remove: Database.Statement<[string]>;
+    };
+
+    constructor(filePath: string) {
+        this.db = new Database(filePath);
+        this.db.pragma('journal_mode = WAL'); // Readers don't block the writer
+        this.migrateSchema();
+
+        this.statements = {
+            insert: this.db.prepare(
+                'INSERT INTO generations (generation_id, created_at, deleted_at, batch_id, record) VALUES (@generationId, @createdAt, @deletedAt, @batchId, @record)'
+            ),
+            findById: this.db.prepare('SELECT record FROM generations WHERE generation_id = ?'),
+            findRefinementChain: this.db.prepare(
+                "SELECT record FROM generations WHERE generation_id = ? OR json_extract(record, '$.refinementRootId') = ? ORDER BY created_at ASC"
+            ),
+            markDeleted: this.db.prepare(
+                "UPDATE generations SET deleted_at = COALESCE(deleted_at, @deletedAt), record = json_set(record, '$.deletedAt', COALESCE(deleted_at, @deletedAt)) WHERE generation_id = @generationId"
+            ),
+            restore: this.db.prepare(
+                "UPDATE generations SET deleted_at = NULL, record = json_remove(record, '$.deletedAt') WHERE generation_id = ?"
+            ),
+            remove: this.db.prepare('DELETE FROM generations WHERE generation_id = ?'),
+        };
+
+        const { count } = this.db.prepare<[], { count: number }>('SELECT COUNT(*) AS count FROM generations').get()!;
+        console.log(`Metadata store: SQLite ${filePath} (${count} records)`);
+    }
+
+    // Applies the revisions the file is missing; user_version tracks the schema revision
+    private migrateSchema() {
+        const version = this.db.pragma('user_version', { simple: true }) as number;
+        if (version < 1) this.createSchema();
+        if (version < 2) {
+            // Refinement chains are looked up by their root
+            this.db.transaction(() => {
+                this.db.exec("CREATE INDEX IF NOT EXISTS idx_generations_refinement_root ON generations (json_extract(record, '$.refinementRootId'));");
+                this.db.pragma('user_version = 2');
+            })();
+        }
+    }
+
+    // Revision 1: the table and its indexes
+    private createSchema() {
+        const settingsIndexes = SETTINGS_FIELD_PATHS.map(fieldPath =>
+            `CREATE INDEX IF NOT EXISTS idx_generations_${fieldPath.replace('.', '_')} ON generations (${fieldExpression(fieldPath)});`
+        );
+
+        this.db.transaction(() => {
+            this.db.exec(`
+                CREATE TABLE IF NOT EXISTS generations (
+                    generation_id TEXT PRIMARY KEY,
+                    created_at TEXT NOT NULL,
+                    deleted_at TEXT,
+                    batch_id TEXT,
+                    record TEXT NOT NULL
+                );
+                CREATE INDEX IF NOT EXISTS idx_generations_created_at ON generations (created_at);
+                CREATE INDEX IF NOT EXISTS idx_generations_deleted_at ON generations (deleted_at, created_at);
+                CREATE INDEX IF NOT EXISTS idx_generations_batch_id ON generations (batch_id);
+                ${settingsIndexes.join('\n')}
+            `);
+            this.db.pragma('user_version = 1');
+        })();
+    }
+
+    private toRow(record: GenerationRecord): GenerationRow {
+        return {
+            generationId: record.generationId,
+            createdAt: record.createdAt,
+            deletedAt: record.deletedAt || null,
+            batchId: record.batchId || null,
+            record: JSON.stringify(record),
+        };
+    }
+
+    async insert(record: GenerationRecord) {
+        this.statements.insert.run(this.toRow(record));
+    }
+
+    // Bulk insert in a single transaction; existing ids are skipped. Returns how many rows were added.
+    insertMany(records: GenerationRecord[]): number {
+        const insertOrIgnore = this.db.prepare<GenerationRow>(
+            'INSERT OR IGNORE INTO generations (generation_id, created_at, deleted_at, batch_id, record) VALUES (@generationId, @createdAt, @deletedAt, @batchId, @record)'
+        );
+        return this.db.transaction((rows: GenerationRecord[]) =>
+            rows.reduce((added, record) => added + insertOrIgnore.run(this.toRow(record)).changes, 0)
+        )(records);
+    }
+
+    async findById(generationId: string): Promise<GenerationRecord | null> {
+        const row = this.statements.findById.get(generationId);
+        return row ? JSON.parse(row.record) as GenerationRecord : null;
+    }
+
+    async findByIds(generationIds: string[]): Promise<GenerationRecord[]> {
+        if (generationIds.length === 0) return [];
+        const placeholders = generationIds.map(() => '?').join(', ');
+        return this.db
+            .prepare<string[], { record: string }>(`SELECT record FROM generations WHERE generation_id IN (${placeholders})`)
+            .all(...generationIds)
+            .map(row => JSON.parse(row.record) as GenerationRecord);
+    }
+
+    async list({ page, pageSize, sortBy, order, filters, trash }: HistoryQuery) {
+        const conditions = [trash ? 'deleted_at IS NOT NULL' : 'deleted_at IS NULL'];
+        const params: string[] = [];
+        for (const { fieldPath, value } of filters) {
+            conditions.push(`${fieldExpression(fieldPath)} = ?`);
+            params.push(value);
+        }
+        const where = `WHERE ${conditions.join(' AND ')}`;
+        const direction = order === 'asc' ? 'ASC' : 'DESC';
+
+        // Both statements run inside one transaction so the page and the total agree
+        return this.db.transaction(() => {
+            const total = this.db.prepare<string[], { count: number }>(`SELECT COUNT(*) AS count FROM generations ${where}`).get(...params)!.count;
+            const items = this.db
+                .prepare<(string | number)[], { record: string }>(`SELECT record FROM generations ${where} ORDER BY ${fieldExpression(sortBy)} ${direction}, created_at DESC LIMIT ? OFFSET ?`)
+                .all(...params, pageSize, (page - 1) * pageSize)
+                .map(row => JSON.parse(row.record) as GenerationRecord);
+            return { items, total };
+        })();
+    }
+
+    async findRefinementChain(rootGenerationId: string): Promise<GenerationRecord[]> {
+        return this.statements.findRefinementChain
+            .all(rootGenerationId, rootGenerationId)
+            .map(row => JSON.parse(row.record) as GenerationRecord);
+    }
+
+    async markDeleted(generationIds: string[], deletedAt: string) {
+        return this.db.transaction(() =>
+            generationIds.filter(generationId =>
+                this.statements.markDeleted.run({ generationId, deletedAt }).changes > 0
+            )
+        )();
+    }
+
+    async restore(generationId: string) {
+        const { changes } = this.statements.restore.run(generationId);
+        return changes > 0 ? this.findById(generationId) : null;
+    }
+
+    async remove(generationIds: string[]) {
+        this.db.transaction(() => {
+            generationIds.forEach(generationId => this.statements.remove.run(generationId));
+        })();
+    }
+
+    async close() {
+        this.db.close();
+    }
+}
+
+export default SqliteGenerationRepository;
@@ -0,0 +1,99 @@
+// Embedded SQLite identity repository (default store).
+// Like presets, the full identity is stored as JSON; only the id and name get columns.
+
+import Database from 'better-sqlite3';
+import { ModelIdentity } from 'shared';
+import type { IdentityChanges, IdentityRepository } from './identityRepository';
+
+interface IdentityRow {
+    id: string;
+    name: string;
+    identity: string; // Full identity as JSON
+}
+
+class SqliteIdentityRepository implements IdentityRepository {
+    private db: Database.Database;
+    private statements: {
+        list: Database.Statement<[], { identity: string }>;
+        findById: Database.Statement<[string], { identity: string }>;
+        insert: Database.Statement<IdentityRow>;
+        update: Database.Statement<IdentityRow>;
+        remove: Database.Statement<[string]>;
+    };
+
+    constructor(filePath: string) {
+        this.db = new Database(filePath);
+        this.db.pragma('journal_mode = WAL');
+        this.migrateSchema();
+
+        this.statements = {
+            list: this.db.prepare('SELECT identity FROM identities ORDER BY name COLLATE NOCASE, id'),
+            findById: this.db.prepare('SELECT identity FROM identities WHERE id = ?'),
+            insert: this.db.prepare('INSERT INTO identities (id, name, identity) VALUES (@id, @name, @identity)'),
+            update: this.db.prepare('UPDATE identities SET name = @name, identity = @identity WHERE id = @id'),
+            remove: this.db.prepare('DELETE FROM identities WHERE id = ?'),
+        };
+
+        const { count } = this.db.prepare<[], { count: number }>('SELECT COUNT(*) AS count FROM identities').get()!;
+        console.log(`Identity store: SQLite ${filePath} (${count} identities)`);
+    }
+
+    // user_version tracks the schema revision
+    private migrateSchema() {
+        const version = this.db.pragma('user_version', { simple: true }) as number;
+        if (version >= 1) return;
+
+        this.db.transaction(() => {
+            this.db.exec(`
+                CREATE TABLE IF NOT EXISTS identities (
+                    id TEXT PRIMARY KEY,
+                    name TEXT NOT NULL,
+                    identity TEXT NOT NULL
+                );
+            `);
+            this.db.pragma('user_version = 1');
+        })();
+    }
+
+    private toRow(identity: ModelIdentity): IdentityRow {
+        return { id: identity.id, name: identity.name, identity: JSON.stringify(identity) };
+    }
+
+    async list() {
+        return this.statements.list.all().map(row => JSON.parse(row.identity) as ModelIdentity);
+    }
+
+    async findById(id: string): Promise<ModelIdentity | null> {
+        const row = this.statements.findById.get(id);
+        return row ? JSON.parse(row.identity) as ModelIdentity : null;
+    }
+
+    async insert(identity: ModelIdentity) {
+        this.statements.insert.run(this.toRow(identity));
+    }
+
+    async update(id: string, changes: IdentityChanges) {
+        return this.db.transaction(() => {
+            const row = this.statements.findById.get(id);
+            if (!row) return null;
+            const updated: ModelIdentity = { ...JSON.parse(row.identity) as ModelIdentity, ...changes };
+            this.statements.update.run(this.toRow(updated));
+            return updated;
+        })();
+    }
+
+    async remove(id: string) {
+        return this.db.transaction(() => {
+            const row = this.statements.findById.get(id);
+            if (!row) return null;
+            this.statements.remove.run(id);
+            return JSON.parse(row.identity) as ModelIdentity;
+        })();
+    }
+
+    async close() {
+        this.db.close();
+    }
+}
+
+export default SqliteIdentityRepository;
@@ -0,0 +1,97 @@
+// Embedded SQLite preset repository (default store).
+// Like generations, the full preset is stored as JSON; only the id and name get columns.
+
+import Database from 'better-sqlite3';
+import { SettingsPreset } from 'shared';
+import type { PresetChanges, PresetRepository } from './presetRepository';
+
+interface PresetRow {
+    id: string;
+    name: string;
+    preset: string; // Full preset as JSON
+}
+
+class SqlitePresetRepository implements PresetRepository {
+    private db: Database.Database;
+    private statements: {
+        list: Database.Statement<[], { preset: string }>;
+        findById: Database.Statement<[string], { preset: string }>;
+        insert: Database.Statement<PresetRow>;
+        update: Database.Statement<PresetRow>;
+        remove: Database.Statement<[string]>;
+    };
+
+    constructor(filePath: string) {
+        this.db = new Database(filePath);
+        this.db.pragma('journal_mode = WAL');
+        this.migrateSchema();
+
+        this.statements = {
+            list: this.db.prepare('SELECT preset FROM presets ORDER BY name COLLATE NOCASE, id'),
+            findById: this.db.prepare('SELECT preset FROM presets WHERE id = ?'),
+            insert: this.db.prepare('INSERT INTO presets (id, name, preset) VALUES (@id, @name, @preset)'),
+            update: this.db.prepare('UPDATE presets SET name = @name, preset = @preset WHERE id = @id'),
+            remove: this.db.prepare('DELETE FROM presets WHERE id = ?'),
+        };
+
+        const { count } = this.db.prepare<[], { count: number }>('SELECT COUNT(*) AS count FROM presets').get()!;
+        console.log(`Preset store: SQLite ${filePath} (${count} presets)`);
+    }
+
+    // user_version tracks the schema revision
+    private migrateSchema() {
+        const version = this.db.pragma('user_version', { simple: true }) as number;
+        if (version >= 1) return;
+
+        this.db.transaction(() => {
+            this.db.exec(`
+                CREATE TABLE IF NOT EXISTS presets (
+                    id TEXT PRIMARY KEY,
+                    name TEXT NOT NULL,
+                    preset TEXT NOT NULL
+                );
+            `);
+            this.db.pragma('user_version = 1');
+        })();
+    }
+
+    private toRow(preset: SettingsPreset): PresetRow {
+        return { id: preset.id, name: preset.name, preset: JSON.stringify(preset) };
+    }
+
+    async list() {
+        return this.statements.list.all().map(row => JSON.parse(row.preset) as SettingsPreset);
+    }
+
+    async findById(id: string): Promise<SettingsPreset | null> {
+        const row = this.statements.findById.get(id);
+        return row ? JSON.parse(row.preset) as SettingsPreset : null;
+    }
+
+    async insert(presets: SettingsPreset[]) {
+        this.db.transaction(() => {
+            presets.forEach(preset => this.statements.insert.run(this.toRow(preset)));
+        })();
+    }
+
+    async update(id: string, changes: PresetChanges) {
+        // Read and write in one transaction so concurrent renames can't drop a settings change
+        return this.db.transaction(() => {
+            const row = this.statements.findById.get(id);
+            if (!row) return null;
+            const updated: SettingsPreset = { ...JSON.parse(row.preset) as SettingsPreset, ...changes };
+            this.statements.update.run(this.toRow(updated));
+            return updated;
+        })();
+    }
+
+    async remove(id: string) {
+        return this.statements.remove.run(id).changes > 0;
+    }
+
+    async close() {
+        this.db.close();
+    }
+}
+
+export default SqlitePresetRepository;
@@ -1,48 +1,108 @@
 import { useCallback, useEffect, useState } from 'react';
 
 // Import Components
-import ModelSettings from './components/ModelSettings'; // Removed unused ModelSettingsState import
-import EnvironmentSettings from './components/EnvironmentSettings'; // Removed unused EnvironmentSettingsState import
+import ModelSettings from './components/ModelSettings';
+import EnvironmentSettings from './components/EnvironmentSettings';
 import GenerationButton from './components/GenerationButton';
 import ImageViewer from './components/ImageViewer';
 import Gallery from './components/Gallery';
+import HistoryBrowser from './components/HistoryBrowser';
 import LoadingIndicator from './components/LoadingIndicator';
 import ErrorMessage from './components/ErrorMessage';
 import ThemeToggle from './components/ThemeToggle';
 import ImageUploader from './components/ImageUploader';
-import { generateImage } from './services/api';
+import ResultsGrid from './components/ResultsGrid';
+import VariationCountSelector from './components/VariationCountSelector';
+import ProviderSelector from './components/ProviderSelector';
+import PromptPreview from './components/PromptPreview';
+import PresetManager from './components/PresetManager';
+import BeforeAfterSlider from './components/BeforeAfterSlider';
+import CompareView from './components/CompareView';
+import RefinementPanel from './components/RefinementPanel';
+import MaskEditor from './components/MaskEditor';
+import BackgroundSwapForm from './components/BackgroundSwapForm';
+import SaveIdentityForm from './components/SaveIdentityForm';
+import SweepSettings from './components/SweepSettings';
+import SweepResults from './components/SweepResults';
+import {
+  createGenerationJob,
+  getGenerationJob,
+  cancelGenerationJob,
+  createSweep,
+  getGeneration,
+  deleteGeneration,
+  deleteGenerations,
+  ApiError,
+  toClientErrorInfo,
+  GenerateApiVariationResult,
+  GenerationRecord,
+  GenerationSettings,
+  GenerationJob,
+  SweepDimension,
+} from './services/api';
 import { initializeTheme } from './utils/themeUtils';
-import useSettingsStore from './store/settingsStore'; // Import stores
-import useGenerationStore from './store/generationStore';
-import useGalleryStore from './store/galleryStore';
+import useSettingsStore, { toPromptOverride } from './store/settingsStore'; // Import stores
+import useGenerationStore, { selectIsGenerating, UploadedGarment } from './store/generationStore';
+import useGalleryStore, { GalleryItem, getGalleryItemGenerationId } from './store/galleryStore';
 import IconContentCopy from '@material-design-icons/svg/filled/content_copy.svg'; // Import copy icon
 import {
   API_BASE_URL,
+  JOB_POLL_INTERVAL_MS,
   // GALLERY_STORAGE_KEY and MAX_GALLERY_ITEMS are now used within galleryStore
 } from './constants';
 
+// How the Comparison section shows the images: upload next to result, a before/after slider, or two gallery images
+type ComparisonMode = 'side-by-side' | 'slider' | 'ab';
+
+const COMPARISON_MODE_LABELS: Record<ComparisonMode, string> = {
+  'side-by-side': 'Side by side',
+  slider: 'Before/after',
+  ab: 'A/B',
+};
+
 function App() {
   // --- State from Stores ---
-  const { modelSettings, environmentSettings } = useSettingsStore(state => ({
+  const { modelSettings, environmentSettings, identityId, variationCount, provider, expertMode, promptEdits, restoreSettings } = useSettingsStore(state => ({
     modelSettings: state.modelSettings,
     environmentSettings: state.environmentSettings,
+    identityId: state.identityId,
+    variationCount: state.variationCount,
+    provider: state.provider,
+    expertMode: state.expertMode,
+    promptEdits: state.promptEdits,
+    restoreSettings: state.restoreSettings,
   }));
   const {
-    uploadedImageData,
+    uploadedGarments,
+    generatedResults,
+    selectedResultIndex,
     generatedImageRelativePath,
+    generatedGenerationId,
+    generatedSettings,
     generatedPrompt,
-    isLoading,
+    activeJob,
+    activeSweepId,
     errorMessage,
+    errorInfo,
     // uploadError, // Removed as it's handled within ImageUploader
-    setUploadedImageData,
+    addUploadedGarments,
+    removeUploadedGarment,
+    updateUploadedGarment,
+    setGeneratedResults,
+    selectResult,
     setGeneratedImageRelativePath,
+    setGenerationDetails,
     setGeneratedPrompt,
-    setIsLoading,
+    setActiveJob,
+    setActiveSweepId,
     setErrorMessage,
+    setError,
     setUploadError, // Keep setUploadError as it's passed to ImageUploader
     clearGenerationState,
   } = useGenerationStore();
-  const { galleryItems, addImage, clearGallery } = useGalleryStore(); // Use galleryItems instead
+  const isLoading = useGenerationStore(selectIsGenerating); // A job is queued or running
+  const activeJobId = activeJob?.id ?? null;
+  const { galleryItems, addImage, clearGallery, deleteImage } = useGalleryStore(); // Use galleryItems instead
 
   // --- Local UI State ---
   // Upload error state is managed by generationStore now
@@ -50,102 +110,263 @@ function App() {
   // --- Responsive UI State ---
   const [isSettingsPanelOpen, setIsSettingsPanelOpen] = useState<boolean>(false);
   const [copyStatus, setCopyStatus] = useState<'idle' | 'copied'>('idle'); // State for copy feedback
+  const [reuseStatus, setReuseStatus] = useState<'idle' | 'applied'>('idle'); // State for "Reuse these settings" feedback
+  const [galleryMode, setGalleryMode] = useState<'recent' | 'history'>('recent'); // Browser cache vs. full server history
+  const [comparisonMode, setComparisonMode] = useState<ComparisonMode>('side-by-side');
+  const [compareSelection, setCompareSelection] = useState<string[]>([]); // Gallery paths picked for A/B, oldest pick first
+  const [maskEditingId, setMaskEditingId] = useState<string | null>(null); // Generation open in the mask editor; closes when another is shown
+  const isMaskEditing = maskEditingId !== null && maskEditingId === generatedGenerationId && !isLoading;
+  // Picked images still in the gallery; deleted ones drop out
+  const compareItems = compareSelection
+    .map(path => galleryItems.find(item => item.relativePath === path))
+    .filter((item): item is GalleryItem => item !== undefined);
 
   // Initialize theme on component mount
   useEffect(() => {
     initializeTheme();
   }, []);
 
-  // Gallery loading is handled by persist middleware in galleryStore
-  // Effect to potentially load the latest gallery image into the viewer on initial load
-  useEffect(() => {
-    // Zustand ensures stores are hydrated before effects run
-    // Update to use galleryItems
-    if (galleryItems.length > 0 && !generatedImageRelativePath) {
-      setGeneratedImageRelativePath(galleryItems[0].relativePath); // Get path from first item
-    }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []); // Run only once on mount after hydration
-
   // --- Callback Handlers ---
   // Use actions from generationStore
-  const handleImageUpload = useCallback((imageData: string | null) => {
-    setUploadedImageData(imageData);
+  const handleGarmentsAdd = useCallback((garments: UploadedGarment[]) => {
+    addUploadedGarments(garments);
+    // Clear previous generation output when a new garment is uploaded
+    clearGenerationState();
+  }, [addUploadedGarments, clearGenerationState]);
+
+  const handleGarmentRemove = useCallback((garmentId: string) => {
+    removeUploadedGarment(garmentId);
     setErrorMessage(null);
-    setUploadError(null);
-    // Clear previous generation output if new image is uploaded
-    if (imageData) {
-       clearGenerationState();
-    }
-  }, [setUploadedImageData, setErrorMessage, setUploadError, clearGenerationState]);
+  }, [removeUploadedGarment, setErrorMessage]);
 
   // Settings components will interact directly with settingsStore, remove these handlers
   // const handleModelSettingsChange = ...
   // const handleEnvironmentSettingsChange = ...
 
+  // Applies a finished batch to the viewer and the gallery
+  const applyGenerationResults = useCallback((results: GenerateApiVariationResult[], promptUsed: string, settingsUsed: GenerationSettings) => {
+    console.log("API Success. Variation results:", results);
+    console.log("API Success. Prompt Used:", promptUsed); // Log the received prompt
+    setGeneratedResults(results.map(result => ({
+      generationId: result.success ? result.generationId : null,
+      imageRelativePath: result.success ? result.imageUrl : null,
+      errorMessage: result.success ? null : result.message,
+    })), settingsUsed); // Use store action
+    setGeneratedPrompt(promptUsed); // Use store action
+
+    // --- Update Gallery Store ---
+    // Add in reverse so the first variation ends up first in the gallery
+    [...results].reverse().forEach(result => {
+      if (result.success) addImage(result.imageUrl, result.generationId); // Use gallery store action
+    });
+  }, [setGeneratedResults, setGeneratedPrompt, addImage]);
+
+  // Poll the active job until it finishes. Runs again after a reload because activeJob is persisted.
+  useEffect(() => {
+    if (!activeJobId) return;
+
+    let isStopped = false;
+    let pollTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const poll = async () => {
+      try {
+        const job = await getGenerationJob(activeJobId);
+        if (isStopped) return;
+
+        if (!job) {
+          setActiveJob(null);
+          setErrorMessage('The generation job could not be found. It may have expired or the server was restarted.');
+          return;
+        }
+
+        if (job.status === 'queued' || job.status === 'running') {
+          setActiveJob({
+            id: job.id,
+            status: job.status,
+            completedVariations: job.completedVariations,
+            variationCount: job.variationCount,
+            retry: job.retry,
+          });
+          pollTimer = setTimeout(poll, JOB_POLL_INTERVAL_MS);
+          return;
+        }
+
+        setActiveJob(null);
+        if (job.status === 'completed' && job.results && job.promptUsed) {
+          applyGenerationResults(job.results, job.promptUsed, job.settingsUsed);
+        } else if (job.status === 'failed') {
+          if (job.error) setError(toClientErrorInfo(job.error));
+          else setErrorMessage(job.message ?? 'An unknown error occurred during image generation.');
+        }
+        // 'cancelled' needs no UI update
+      } catch (error) {
+        // Network hiccup - keep polling rather than abandoning the job
+        console.error("Job polling error:", error);
+        if (!isStopped) pollTimer = setTimeout(poll, JOB_POLL_INTERVAL_MS);
+      }
+    };
+
+    poll();
+
+    return () => {
+      isStopped = true;
+      clearTimeout(pollTimer);
+    };
+  }, [activeJobId, setActiveJob, setErrorMessage, setError, applyGenerationResults]);
+
+  // Generation request for the current garments and settings; sweeps send it with the varied fields replaced
+  const buildGenerationPayload = useCallback(() => ({
+    settings: { modelSettings, environmentSettings },
+    garments: uploadedGarments.map(({ role, imageData }) => ({ role, imageData })),
+    variationCount,
+    ...(provider && { provider }), // Omitted to use the backend's default
+    ...(identityId && { identityId }), // Same person as the saved identity
+    promptOverride: expertMode ? toPromptOverride(promptEdits) : undefined,
+  }), [uploadedGarments, modelSettings, environmentSettings, identityId, variationCount, provider, expertMode, promptEdits]);
+
+  // Reports a failed request; ApiErrors keep their code so ErrorMessage can offer guidance
+  const reportRequestError = useCallback((error: unknown, fallbackMessage: string) => {
+    if (error instanceof ApiError) {
+      setError(error.toInfo());
+    } else if (error instanceof Error) {
+      setErrorMessage(error.message);
+    } else {
+      setErrorMessage(fallbackMessage);
+    }
+  }, [setError, setErrorMessage]);
+
   const handleGenerateClick = useCallback(async () => {
     // Access settings directly from the store
-    if (!uploadedImageData || !modelSettings || !environmentSettings) {
+    if (uploadedGarments.length === 0 || !modelSettings || !environmentSettings) {
       setErrorMessage('Please upload an image and ensure all settings are selected.');
       return;
     }
 
-    setIsLoading(true);
-    setErrorMessage(null);
     // Clear previous generation state using action
     clearGenerationState();
 
-    const payload = {
-      settings: { modelSettings, environmentSettings },
-      imageData: uploadedImageData,
-    };
+    const payload = buildGenerationPayload();
 
     console.log("Sending payload to backend:", payload);
 
     // --- API Interaction (Item 3.97) ---
     try {
-      // Call the API service - it now returns an object { imageUrl, promptUsed }
-      const { imageUrl: imageRelativePath, promptUsed } = await generateImage(payload);
-      console.log("API Success. Image Relative Path:", imageRelativePath);
-      console.log("API Success. Prompt Used:", promptUsed); // Log the received prompt
-      setGeneratedImageRelativePath(imageRelativePath); // Use store action
-      setGeneratedPrompt(promptUsed); // Use store action
-
-      // --- Update Gallery Store ---
-      addImage(imageRelativePath); // Use gallery store action
-
+      // Queue a job; the polling effect picks it up from the store
+      const job = await createGenerationJob(payload);
+      console.log("Generation job queued:", job.id);
+      setActiveJob({
+        id: job.id,
+        status: job.status,
+        completedVariations: job.completedVariations,
+        variationCount: job.variationCount,
+      });
     } catch (error) {
       console.error("Generation API Error:", error);
-      // Set the error message from the caught error
-      if (error instanceof Error) {
-        setErrorMessage(error.message);
-      } else {
-        setErrorMessage('An unknown error occurred during image generation.');
-      }
-    } finally {
-      setIsLoading(false);
+      reportRequestError(error, 'An unknown error occurred during image generation.');
     }
 
   // Dependencies now include store actions and state values used in the check
   }, [
-    uploadedImageData,
+    uploadedGarments,
     modelSettings,
     environmentSettings,
-    setIsLoading,
+    buildGenerationPayload,
+    reportRequestError,
+    setActiveJob,
     setErrorMessage,
-    setGeneratedImageRelativePath,
-    setGeneratedPrompt,
-    addImage,
     clearGenerationState
   ]);
 
-  // Updated to accept relativePath directly from Gallery component
-  // Use store actions
-  const handleThumbnailClick = useCallback((relativePath: string) => {
-    setGeneratedImageRelativePath(relativePath);
+  // Queue one job per combination of the varied settings; the sweep grid tracks them
+  const handleQueueSweep = useCallback(async (dimensions: SweepDimension[]) => {
+    setErrorMessage(null);
+    try {
+      const sweep = await createSweep(buildGenerationPayload(), dimensions);
+      console.log("Sweep queued:", sweep.id, `${sweep.items.length} combinations`);
+      setActiveSweepId(sweep.id);
+    } catch (error) {
+      console.error("Sweep API Error:", error);
+      reportRequestError(error, 'An unknown error occurred while queueing the sweep.');
+    }
+  }, [buildGenerationPayload, reportRequestError, setActiveSweepId, setErrorMessage]);
+
+  const handleCancelClick = useCallback(async () => {
+    if (!activeJobId) return;
+    try {
+      await cancelGenerationJob(activeJobId);
+      setActiveJob(null);
+    } catch (error) {
+      // The job most likely finished in the meantime; keep polling so its results still arrive
+      console.error("Cancel job error:", error);
+    }
+  }, [activeJobId, setActiveJob]);
+
+  // Receives the GalleryItem from the Gallery component
+  // Use store actions; the prompt and settings are fetched from the server record when the item has an id
+  const handleThumbnailClick = useCallback(async (item: GalleryItem) => {
+    setGeneratedImageRelativePath(item.relativePath);
     setGeneratedPrompt(null);
     setErrorMessage(null);
-  }, [setGeneratedImageRelativePath, setGeneratedPrompt, setErrorMessage]);
+    if (!item.generationId) return; // Saved before ids were tracked
+
+    try {
+      const record = await getGeneration(item.generationId);
+      // Ignore the response if the user has moved on to another image meanwhile
+      if (!record || useGenerationStore.getState().generatedImageRelativePath !== item.relativePath) return;
+      setGeneratedPrompt(record.promptUsed);
+      setGenerationDetails(record.generationId, record.settingsUsed);
+    } catch (error) {
+      console.error("Failed to load generation details:", error);
+    }
+  }, [setGeneratedImageRelativePath, setGeneratedPrompt, setErrorMessage, setGenerationDetails]);
+
+  // Server history records already carry their prompt and settings
+  const handleHistoryItemClick = useCallback((record: GenerationRecord) => {
+    setGeneratedImageRelativePath(record.imagePath);
+    setGeneratedPrompt(record.promptUsed);
+    setGenerationDetails(record.generationId, record.settingsUsed);
+    setErrorMessage(null);
+  }, [setGeneratedImageRelativePath, setGeneratedPrompt, setGenerationDetails, setErrorMessage]);
+
+  // Sweep results carry their job's prompt and settings
+  const handleSweepResultClick = useCallback((generationId: string, imageRelativePath: string, job: GenerationJob) => {
+    setGeneratedImageRelativePath(imageRelativePath);
+    setGeneratedPrompt(job.promptUsed);
+    setGenerationDetails(generationId, job.settingsUsed);
+    setErrorMessage(null);
+  }, [setGeneratedImageRelativePath, setGeneratedPrompt, setGenerationDetails, setErrorMessage]);
+
+  // Gallery loading is handled by persist middleware in galleryStore
+  // Effect to potentially load the latest gallery image into the viewer on initial load
+  useEffect(() => {
+    // Zustand ensures stores are hydrated before effects run
+    // Update to use galleryItems
+    if (galleryItems.length > 0 && !generatedImageRelativePath) {
+      handleThumbnailClick(galleryItems[0]); // Show first item with its prompt
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []); // Run only once on mount after hydration
+
+  // A refinement replaces the displayed batch with the refined image and joins the gallery
+  const handleRefined = useCallback((record: GenerationRecord) => {
+    setGeneratedResults([{ generationId: record.generationId, imageRelativePath: record.imagePath, errorMessage: null }], record.settingsUsed);
+    setGeneratedPrompt(record.promptUsed);
+    setErrorMessage(null);
+    addImage(record.imagePath, record.generationId);
+  }, [setGeneratedResults, setGeneratedPrompt, setErrorMessage, addImage]);
+
+  const handleInpainted = useCallback((record: GenerationRecord) => {
+    setMaskEditingId(null);
+    handleRefined(record);
+  }, [handleRefined]);
+
+  // Load the displayed image's settings back into the settings panel
+  const handleReuseSettings = useCallback(() => {
+    if (!generatedSettings) return;
+    restoreSettings(generatedSettings);
+    setReuseStatus('applied');
+    setTimeout(() => setReuseStatus('idle'), 1500); // Reset after 1.5s
+  }, [generatedSettings, restoreSettings]);
 
   // Use store actions
   const handleDismissError = useCallback(() => {
@@ -157,17 +378,76 @@ function App() {
     setIsSettingsPanelOpen(prev => !prev);
   }, []);
 
-  // Use store action (already includes clearing state)
-  const handleClearGallery = useCallback(() => {
-    clearGallery();
-  }, [clearGallery]);
+  // Picks or unpicks a gallery image for A/B comparison; a third pick replaces the oldest
+  const handleToggleCompare = useCallback((item: GalleryItem) => {
+    const isSelected = compareSelection.includes(item.relativePath);
+    const next = isSelected
+      ? compareSelection.filter(path => path !== item.relativePath)
+      : [...compareSelection, item.relativePath].slice(-2);
+    setCompareSelection(next);
+    if (next.length === 2) setComparisonMode('ab');
+  }, [compareSelection]);
+
+  const handleCloseComparison = useCallback(() => {
+    setCompareSelection([]);
+    setComparisonMode('side-by-side');
+  }, []);
+
+  // Drop deleted images from the viewer if one of them is on screen
+  const clearViewerIfShowing = useCallback((relativePaths: string[]) => {
+    const shownPath = useGenerationStore.getState().generatedImageRelativePath;
+    if (shownPath && relativePaths.includes(shownPath)) {
+      setGeneratedImageRelativePath(null);
+      setGeneratedPrompt(null);
+    }
+  }, [setGeneratedImageRelativePath, setGeneratedPrompt]);
+
+  // Permanently delete one image on the server, then drop it from the gallery
+  const handleDeleteGalleryItem = useCallback(async (item: GalleryItem) => {
+    try {
+      // A missing record (false) means it is already gone server-side, so local removal still applies
+      await deleteGeneration(getGalleryItemGenerationId(item));
+      deleteImage(item.relativePath);
+      clearViewerIfShowing([item.relativePath]);
+    } catch (error) {
+      console.error("Delete generation error:", error);
+      setErrorMessage(error instanceof Error ? `Could not delete image: ${error.message}` : 'Could not delete image.');
+    }
+  }, [deleteImage, clearViewerIfShowing, setErrorMessage]);
+
+  // A generation deleted from the server history must not linger in the local gallery
+  const handleHistoryItemDeleted = useCallback((record: GenerationRecord) => {
+    deleteImage(record.imagePath);
+    clearViewerIfShowing([record.imagePath]);
+  }, [deleteImage, clearViewerIfShowing]);
+
+  // Permanently delete every gallery image on the server; items that fail stay in the gallery
+  const handleClearGallery = useCallback(async () => {
+    try {
+      const { failed } = await deleteGenerations(galleryItems.map(getGalleryItemGenerationId));
+      const removedItems = galleryItems.filter(item => !failed.includes(getGalleryItemGenerationId(item)));
+      if (failed.length === 0) {
+        clearGallery();
+      } else {
+        removedItems.forEach(item => deleteImage(item.relativePath));
+        setErrorMessage(`Could not delete ${failed.length} image(s) from the server.`);
+      }
+      clearViewerIfShowing(removedItems.map(item => item.relativePath));
+    } catch (error) {
+      console.error("Clear gallery error:", error);
+      setErrorMessage(error instanceof Error ? `Could not clear gallery: ${error.message}` : 'Could not clear gallery.');
+    }
+  }, [galleryItems, clearGallery, deleteImage, clearViewerIfShowing, setErrorMessage]);
 
   // --- Upload Logic is now encapsulated in ImageUploader ---
   // The handleImageUpload callback is still needed to receive the data
   // The setUploadError callback is passed to ImageUploader to report errors
 
   // Determine if generate button should be disabled
-  const isGenerateDisabled = !uploadedImageData || isLoading;
+  // Wait for clean-up so the cleaned images are what gets sent
+  const isGenerateDisabled = uploadedGarments.length === 0 || uploadedGarments.some(garment => garment.isProcessing) || isLoading;
+  // Sweeps run beside a regular generation, so only the garments gate them
+  const isSweepDisabled = uploadedGarments.length === 0 || uploadedGarments.some(garment => garment.isProcessing);
 
   return (
     <div className="min-h-screen bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 flex flex-col transition-colors duration-200">
@@ -210,12 +490,18 @@ function App() {
           {/* Settings content - collapsible on mobile */}
           <div id="settings-panel" className={`${isSettingsPanelOpen ? 'block' : 'hidden md:block'} space-y-4 animate-fade-in`}>
             {/* Remove onChange props, components will use store directly */}
+            <PresetManager />
             <ModelSettings />
             <EnvironmentSettings />
+            <PromptPreview />
+            <SweepSettings onQueue={handleQueueSweep} isDisabled={isSweepDisabled} />
             <div className="mt-auto pt-4"> {/* Push button to bottom */}
+              <ProviderSelector />
+              <VariationCountSelector />
               <GenerationButton
                   onClick={handleGenerateClick}
                   isLoading={isLoading} // Get from store
+                  onCancel={handleCancelClick}
                   isDisabled={isGenerateDisabled} // Calculated from store state
               />
             </div>
@@ -224,14 +510,50 @@ function App() {
 
         {/* Comparison Area (Center/Right Columns - takes 9/12) */}
         <section className="md:col-span-9 bg-white dark:bg-gray-800 p-4 rounded shadow flex flex-col transition-colors duration-200">
-            <h2 className="text-xl font-semibold mb-3 border-b border-gray-200 dark:border-gray-700 pb-2 w-full">Comparison</h2>
-            {/* Grid for side-by-side images */}
+            <div className="flex flex-wrap justify-between items-center gap-2 mb-3 border-b border-gray-200 dark:border-gray-700 pb-2 w-full transition-colors duration-200">
+              <h2 className="text-xl font-semibold">Comparison</h2>
+              {/* Comparison mode toggle */}
+              <div className="inline-flex rounded-md shadow-sm text-sm" role="group">
+                {(Object.keys(COMPARISON_MODE_LABELS) as ComparisonMode[]).map(mode => (
+                  <button
+                    key={mode}
+                    type="button"
+                    onClick={() => setComparisonMode(mode)}
+                    disabled={mode === 'ab' && compareItems.length < 2}
+                    aria-pressed={comparisonMode === mode}
+                    title={mode === 'ab' && compareItems.length < 2 ? 'Pick two images in Recent Generations with their Compare button' : undefined}
+                    className={`px-3 py-1 border border-gray-300 dark:border-gray-600 first:rounded-l-md last:rounded-r-md disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200
+                                ${comparisonMode === mode
+                                  ? 'bg-primary-600 dark:bg-primary-700 text-white'
+                                  : 'bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-600'
+                                }`}
+                  >
+                    {COMPARISON_MODE_LABELS[mode]}
+                  </button>
+                ))}
+              </div>
+            </div>
+            {comparisonMode === 'ab' && compareItems.length === 2 ? (
+              <CompareView
+                items={[compareItems[0], compareItems[1]]}
+                apiBaseUrl={API_BASE_URL}
+                onClose={handleCloseComparison}
+              />
+            ) : comparisonMode === 'slider' ? (
+              <BeforeAfterSlider
+                beforeUrl={uploadedGarments[0]?.imageData ?? null} // The first garment as sent
+                afterUrl={generatedImageRelativePath && !isLoading ? `${API_BASE_URL}${generatedImageRelativePath}` : null}
+              />
+            ) : (
+            /* Grid for side-by-side images */
             <div className="flex-grow grid grid-cols-1 md:grid-cols-2 gap-4 relative min-h-[400px] lg:min-h-[500px]"> {/* Changed lg: to md: for earlier breakpoint */}
 
               {/* Render the new ImageUploader component */}
               <ImageUploader
-                uploadedImageData={uploadedImageData} // Get from store
-                onImageUpload={handleImageUpload} // Use App's handler (calls store action)
+                garments={uploadedGarments} // Get from store
+                onGarmentsAdd={handleGarmentsAdd} // Use App's handlers (call store actions)
+                onGarmentRemove={handleGarmentRemove}
+                onGarmentUpdate={updateUploadedGarment} // Clean-up results go straight to the store
                 onError={setUploadError} // Use store action directly
               />
               {/* Display upload error reported by the uploader */}
@@ -242,10 +564,34 @@ function App() {
                  <h3 className="text-lg font-semibold text-gray-800 dark:text-gray-200 mb-3 w-full text-center transition-colors duration-200">Generated</h3>
                  {/* Image container */}
                  <div className="relative w-full flex-grow flex items-center justify-center overflow-hidden p-1">
-                    <LoadingIndicator isActive={isLoading} /> {/* Get from store */}
-                    {/* ImageViewer handles its own placeholder */}
+                    <LoadingIndicator
+                      isActive={isLoading} // Get from store
+                      message={activeJob?.status === 'queued'
+                        ? 'Queued, waiting for a free slot...'
+                        : `Generating images (${activeJob?.completedVariations ?? 0}/${activeJob?.variationCount ?? 0} done), please wait...`}
+                      // Set while the server retries a transient model failure
+                      detail={activeJob?.retry ? `Retrying (${activeJob.retry.attempt}/${activeJob.retry.maxAttempts})...` : undefined}
+                    />
+                    {/* A batch renders as a selectable grid; a single image uses ImageViewer (which handles its own placeholder) */}
                     {/* Pass state from store */}
-                    <ImageViewer imageUrl={generatedImageRelativePath ? `${API_BASE_URL}${generatedImageRelativePath}` : null} isLoading={isLoading} />
+                    {isMaskEditing && generatedGenerationId && generatedImageRelativePath ? (
+                      <MaskEditor
+                        generationId={generatedGenerationId}
+                        imageUrl={`${API_BASE_URL}${generatedImageRelativePath}`}
+                        provider={provider}
+                        onInpainted={handleInpainted}
+                        onCancel={() => setMaskEditingId(null)}
+                      />
+                    ) : generatedResults.length > 1 && !isLoading ? (
+                      <ResultsGrid
+                        results={generatedResults}
+                        selectedIndex={selectedResultIndex}
+                        apiBaseUrl={API_BASE_URL}
+                        onSelect={selectResult}
+                      />
+                    ) : (
+                      <ImageViewer imageUrl={generatedImageRelativePath ? `${API_BASE_URL}${generatedImageRelativePath}` : null} isLoading={isLoading} />
+                    )}
                  </div>
                  {/* Prompt Display Area - Conditionally render below image */}
                  {/* Use state from store */}
@@ -275,29 +621,115 @@ function App() {
                         <pre className="text-xs bg-white dark:bg-gray-900 p-2 rounded overflow-x-auto whitespace-pre-wrap break-words font-mono border border-gray-200 dark:border-gray-700 text-gray-800 dark:text-gray-300 transition-colors duration-200">
                             {generatedPrompt}
                         </pre>
+                        {/* Reuse action - loads the settings that produced this image into the settings panel */}
+                        {generatedSettings && (
+                            <button
+                                type="button"
+                                onClick={handleReuseSettings}
+                                className="mt-2 text-sm text-primary-600 dark:text-primary-400 hover:text-primary-700 dark:hover:text-primary-300 transition-colors"
+                            >
+                                {reuseStatus === 'applied' ? 'Settings applied!' : 'Reuse these settings'}
+                            </button>
+                        )}
                     </div>
                  )}
+                 {/* Follow-up edits of the displayed image; needs its server record */}
+                 {generatedGenerationId && generatedImageRelativePath && !isLoading && (
+                    <RefinementPanel
+                      generationId={generatedGenerationId}
+                      apiBaseUrl={API_BASE_URL}
+                      provider={provider}
+                      onRefined={handleRefined}
+                      onNavigate={handleHistoryItemClick}
+                      onEditRegion={isMaskEditing ? undefined : () => setMaskEditingId(generatedGenerationId)}
+                    />
+                 )}
+                 {generatedGenerationId && generatedImageRelativePath && !isLoading && !isMaskEditing && (
+                    <BackgroundSwapForm
+                      key={generatedGenerationId} // Starts again from each image's own scene
+                      generationId={generatedGenerationId}
+                      environmentSettings={generatedSettings?.environmentSettings ?? null}
+                      provider={provider}
+                      onSwapped={handleRefined}
+                    />
+                 )}
+                 {generatedGenerationId && generatedImageRelativePath && !isLoading && !isMaskEditing && (
+                    <SaveIdentityForm
+                      key={generatedGenerationId}
+                      generationId={generatedGenerationId}
+                      imageUrl={`${API_BASE_URL}${generatedImageRelativePath}`}
+                    />
+                 )}
                  {/* Placeholder logic is now handled entirely by ImageViewer */}
               </div>
             </div>
+            )}
              {/* Generation Error Message below the comparison area */}
             <div className="mt-4">
                 {/* Use state and action from store */}
-                <ErrorMessage message={errorMessage} onDismiss={handleDismissError} />
+                <ErrorMessage
+                  message={errorMessage}
+                  code={errorInfo?.code}
+                  onRetry={errorInfo?.retryable && uploadedGarments.length > 0 && !isLoading ? handleGenerateClick : undefined}
+                  onDismiss={handleDismissError}
+                />
             </div>
           </section>
 
       </main>
 
+      {/* Sweep Section - the grid of the last queued sweep */}
+      {activeSweepId && (
+        <section className="p-4 sm:px-6 lg:px-8 mt-4 bg-white dark:bg-gray-800 rounded shadow transition-colors duration-200">
+          <SweepResults
+            sweepId={activeSweepId}
+            apiBaseUrl={API_BASE_URL}
+            onSelect={handleSweepResultClick}
+            onClose={() => setActiveSweepId(null)}
+          />
+        </section>
+      )}
+
       {/* Gallery Section */}
       <section className="p-4 sm:px-6 lg:px-8 mt-4 bg-white dark:bg-gray-800 rounded shadow transition-colors duration-200">
-         <h2 className="text-xl font-semibold mb-3 border-b border-gray-200 dark:border-gray-700 pb-2 transition-colors duration-200">Recent Generations</h2>
-         <Gallery
-            galleryItems={galleryItems} // Pass the full items array
-            apiBaseUrl={API_BASE_URL} // Constant
-            onThumbnailClick={handleThumbnailClick} // Use App's handler (calls store action)
-            onClearGallery={handleClearGallery} // Use App's handler (calls store action)
-         />
+         <div className="flex justify-between items-center mb-3 border-b border-gray-200 dark:border-gray-700 pb-2 transition-colors duration-200">
+            <h2 className="text-xl font-semibold">{galleryMode === 'recent' ? 'Recent Generations' : 'All Generations'}</h2>
+            {/* Gallery mode toggle */}
+            <div className="inline-flex rounded-md shadow-sm text-sm" role="group">
+              {(['recent', 'history'] as const).map(mode => (
+                <button
+                  key={mode}
+                  type="button"
+                  onClick={() => setGalleryMode(mode)}
+                  aria-pressed={galleryMode === mode}
+                  className={`px-3 py-1 border border-gray-300 dark:border-gray-600 first:rounded-l-md last:rounded-r-md transition-colors duration-200
+                              ${galleryMode === mode
+                                ? 'bg-primary-600 dark:bg-primary-700 text-white'
+                                : 'bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-600'
+                              }`}
+                >
+                  {mode === 'recent' ? 'This browser' : 'Server history'}
+                </button>
+              ))}
+            </div>
+         </div>
+         {galleryMode === 'recent' ? (
+           <Gallery
+              galleryItems={galleryItems} // Pass the full items array
+              apiBaseUrl={API_BASE_URL} // Constant
+              onThumbnailClick={handleThumbnailClick} // Use App's handler (calls store action)
+              onClearGallery={handleClearGallery} // Use App's handler (calls API, then store action)
+              onDeleteItem={handleDeleteGalleryItem}
+              compareSelection={compareItems.map(item => item.relativePath)}
+              onToggleCompare={handleToggleCompare}
+           />
+         ) : (
+           <HistoryBrowser
+              apiBaseUrl={API_BASE_URL}
+              onThumbnailClick={handleHistoryItemClick}
+              onPermanentlyDeleted={handleHistoryItemDeleted}
+           />
+         )}
       </section>
 
       {/* Footer */}
@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import type { EnvironmentSettings } from 'shared';
+import { BackgroundSwapSettings, GenerationRecord, swapBackground } from '../services/api';
+import { BACKGROUND_PRESET_MAP, LIGHTING_OPTIONS } from '../constants';
+
+interface BackgroundSwapFormProps {
+  generationId: string; // The displayed image
+  environmentSettings: EnvironmentSettings | null; // Its scene, to start from; null when unknown
+  provider: string | null; // Selected provider; null lets the backend reuse the one that made the image
+  onSwapped: (record: GenerationRecord) => void;
+}
+
+const selectClassName = 'block w-full px-2 py-1.5 border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 dark:focus:ring-primary-400 focus:border-primary-500 dark:focus:border-primary-400 text-sm disabled:opacity-50 transition-colors duration-200';
+const labelClassName = 'block text-xs font-medium text-gray-600 dark:text-gray-300 mb-1 transition-colors duration-200';
+
+// Places the model of the displayed image in another scene - same face, pose and framing - so one shot can be
+// shown across several backgrounds. The result joins the image's refinement chain.
+const BackgroundSwapForm: React.FC<BackgroundSwapFormProps> = ({ generationId, environmentSettings, provider, onSwapped }) => {
+  const [scene, setScene] = useState<Required<Pick<BackgroundSwapSettings, 'backgroundPreset' | 'backgroundCustom' | 'lighting'>>>({
+    backgroundPreset: environmentSettings?.backgroundPreset ?? Object.values(BACKGROUND_PRESET_MAP)[0],
+    backgroundCustom: environmentSettings?.backgroundCustom ?? '',
+    lighting: environmentSettings?.lighting ?? LIGHTING_OPTIONS[0],
+  });
+  const [isSwapping, setIsSwapping] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isUnchanged = Boolean(environmentSettings)
+    && scene.backgroundPreset === environmentSettings?.backgroundPreset
+    && scene.backgroundCustom.trim() === environmentSettings?.backgroundCustom
+    && scene.lighting === environmentSettings?.lighting;
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (isUnchanged || isSwapping) return;
+    setIsSwapping(true);
+    setError(null);
+    try {
+      const record = await swapBackground(generationId, { ...scene, backgroundCustom: scene.backgroundCustom.trim() }, provider ?? undefined);
+      onSwapped(record);
+    } catch (swapError) {
+      console.error('Background swap failed:', swapError);
+      setError(swapError instanceof Error ? swapError.message : 'Background swap failed.');
+    } finally {
+      setIsSwapping(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="w-full mt-3 pt-3 border-t border-gray-200 dark:border-gray-700 transition-colors duration-200">
+      <h4 className="text-sm font-medium text-gray-600 dark:text-gray-300 mb-2 px-1 transition-colors duration-200">Swap background</h4>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        <div>
+          <label htmlFor="swap-background-preset" className={labelClassName}>Background</label>
+          <select
+            id="swap-background-preset"
+            value={scene.backgroundPreset}
+            onChange={(event) => setScene(current => ({ ...current, backgroundPreset: event.target.value }))}
+            disabled={isSwapping || Boolean(scene.backgroundCustom.trim())}
+            className={selectClassName}
+          >
+            {Object.entries(BACKGROUND_PRESET_MAP).map(([label, value]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="swap-lighting" className={labelClassName}>Lighting</label>
+          <select
+            id="swap-lighting"
+            value={scene.lighting}
+            onChange={(event) => setScene(current => ({ ...current, lighting: event.target.value }))}
+            disabled={isSwapping}
+            className={selectClassName}
+          >
+            {LIGHTING_OPTIONS.map(option => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+        </div>
+        <div className="sm:col-span-2">
+          <label htmlFor="swap-background-custom" className={labelClassName}>Custom background (overrides the preset)</label>
+          <input
+            id="swap-background-custom"
+            type="text"
+            value={scene.backgroundCustom}
+            onChange={(event) => setScene(current => ({ ...current, backgroundCustom: event.target.value }))}
+            placeholder="e.g. a rooftop terrace at dusk"
+            maxLength={500}
+            disabled={isSwapping}
+            className={selectClassName}
+          />
+        </div>
+      </div>
+      <div className="flex items-center gap-2 mt-2">
+        <button
+          type="submit"
+          disabled={isUnchanged || isSwapping}
+          className="px-3 py-2 text-sm rounded-md bg-primary-600 dark:bg-primary-700 text-white hover:bg-primary-700 dark:hover:bg-primary-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200 whitespace-nowrap"
+        >
+          {isSwapping ? 'Swapping...' : 'Swap background'}
+        </button>
+        {isUnchanged && <span className="text-xs text-gray-500 dark:text-gray-400">Pick a different background or lighting.</span>}
+      </div>
+      {error && <p className="mt-1 text-sm text-red-600 dark:text-red-400">{error}</p>}
+    </form>
+  );
+};
+
+export default BackgroundSwapForm;
@@ -0,0 +1,83 @@
+import React, { useRef, useState } from 'react';
+
+interface BeforeAfterSliderProps {
+  beforeUrl: string | null; // The garment as uploaded
+  afterUrl: string | null; // The generated image
+}
+
+const KEYBOARD_STEP = 5; // Percent per arrow key press
+
+// Overlays two images with a draggable divider: the before image on the left of it, the after image on the right
+const BeforeAfterSlider: React.FC<BeforeAfterSliderProps> = ({ beforeUrl, afterUrl }) => {
+  const [position, setPosition] = useState<number>(50); // Divider position, percent from the left
+  const containerRef = useRef<HTMLDivElement>(null);
+  const isDraggingRef = useRef<boolean>(false);
+
+  if (!beforeUrl || !afterUrl) {
+    return (
+      <div className="w-full h-full flex items-center justify-center bg-slate-50 dark:bg-gray-800 rounded min-h-[300px] md:min-h-[400px] lg:min-h-[500px] transition-colors duration-200">
+        <p className="text-gray-500 dark:text-gray-400 text-center px-4 transition-colors duration-200">
+          Upload a garment and generate an image to compare them.
+        </p>
+      </div>
+    );
+  }
+
+  const moveTo = (clientX: number) => {
+    const bounds = containerRef.current?.getBoundingClientRect();
+    if (!bounds || bounds.width === 0) return;
+    setPosition(Math.min(100, Math.max(0, ((clientX - bounds.left) / bounds.width) * 100)));
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    isDraggingRef.current = true;
+    moveTo(event.clientX); // Clicking anywhere jumps the divider there
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    if (event.key === 'ArrowLeft') setPosition(current => Math.max(0, current - KEYBOARD_STEP));
+    else if (event.key === 'ArrowRight') setPosition(current => Math.min(100, current + KEYBOARD_STEP));
+    else return;
+    event.preventDefault();
+  };
+
+  const imageClassName = 'absolute inset-0 w-full h-full object-contain select-none';
+
+  return (
+    <div
+      ref={containerRef}
+      onPointerDown={handlePointerDown}
+      onPointerMove={(event) => { if (isDraggingRef.current) moveTo(event.clientX); }}
+      onPointerUp={() => { isDraggingRef.current = false; }}
+      onPointerCancel={() => { isDraggingRef.current = false; }}
+      onKeyDown={handleKeyDown}
+      role="slider"
+      tabIndex={0}
+      aria-label="Before/after divider"
+      aria-valuemin={0}
+      aria-valuemax={100}
+      aria-valuenow={Math.round(position)}
+      className="relative w-full h-full bg-slate-50 dark:bg-gray-800 rounded min-h-[300px] md:min-h-[400px] lg:min-h-[500px] overflow-hidden cursor-ew-resize touch-none focus:outline-none focus:ring-2 focus:ring-primary-500 transition-colors duration-200"
+    >
+      <img src={afterUrl} alt="Generated" draggable={false} className={imageClassName} />
+      <img
+        src={beforeUrl}
+        alt="Uploaded garment"
+        draggable={false}
+        style={{ clipPath: `inset(0 ${100 - position}% 0 0)` }}
+        className={imageClassName}
+      />
+      {/* Divider and handle */}
+      <div className="absolute inset-y-0 w-0.5 bg-white shadow pointer-events-none" style={{ left: `${position}%` }}>
+        <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-8 h-8 rounded-full bg-white shadow flex items-center justify-center text-gray-600 text-xs font-semibold">
+          &harr;
+        </div>
+      </div>
+      <span className="absolute top-2 left-2 text-xs px-2 py-0.5 rounded bg-black bg-opacity-50 text-white pointer-events-none">Before</span>
+      <span className="absolute top-2 right-2 text-xs px-2 py-0.5 rounded bg-black bg-opacity-50 text-white pointer-events-none">After</span>
+    </div>
+  );
+};
+
+export default BeforeAfterSlider;
@@ -0,0 +1,124 @@
+import React, { useEffect, useState } from 'react';
+import ImageViewer from './ImageViewer';
+import { GalleryItem, getGalleryItemGenerationId } from '../store/galleryStore';
+import { getGeneration, GenerationRecord } from '../services/api';
+import { compareSettings } from '../utils/settingsFields';
+import { DEFAULT_IMAGE_VIEW, ImageViewState, MAX_IMAGE_ZOOM, zoomImageView } from '../utils/imageView';
+
+interface CompareViewProps {
+  items: [GalleryItem, GalleryItem];
+  apiBaseUrl: string;
+  onClose: () => void;
+}
+
+const buttonClassName = 'px-2 py-1 text-xs rounded border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200';
+
+// A/B comparison of two gallery images with one shared zoom and pan, plus a diff of the settings that produced them
+const CompareView: React.FC<CompareViewProps> = ({ items, apiBaseUrl, onClose }) => {
+  const [view, setView] = useState<ImageViewState>(DEFAULT_IMAGE_VIEW);
+  const [records, setRecords] = useState<(GenerationRecord | null)[] | null>(null); // Null while loading
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [showOnlyDifferences, setShowOnlyDifferences] = useState<boolean>(true);
+
+  const [first, second] = items;
+  useEffect(() => {
+    let isCancelled = false;
+    setRecords(null);
+    setLoadError(null);
+    Promise.all([first, second].map(item => getGeneration(getGalleryItemGenerationId(item))))
+      .then(loaded => {
+        if (!isCancelled) setRecords(loaded);
+      })
+      .catch(error => {
+        console.error('Failed to load generation details for comparison:', error);
+        if (!isCancelled) setLoadError(error instanceof Error ? error.message : 'Failed to load the settings.');
+      });
+    return () => {
+      isCancelled = true;
+    };
+  }, [first, second]);
+
+  const zoomBy = (factor: number) => setView(current => zoomImageView(current, factor));
+
+  const settingsUsed = records?.map(record => record?.settingsUsed ?? null);
+  const rows = settingsUsed?.[0] && settingsUsed[1] ? compareSettings(settingsUsed[0], settingsUsed[1]) : null;
+  const shownRows = rows?.filter(row => row.isDifferent || !showOnlyDifferences);
+
+  return (
+    <div className="w-full space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm text-gray-600 dark:text-gray-300 transition-colors duration-200">Zoom {Math.round(view.zoom * 100)}%</span>
+        <button type="button" onClick={() => zoomBy(1 / 1.5)} disabled={view.zoom === 1} className={buttonClassName} aria-label="Zoom out">-</button>
+        <button type="button" onClick={() => zoomBy(1.5)} disabled={view.zoom === MAX_IMAGE_ZOOM} className={buttonClassName} aria-label="Zoom in">+</button>
+        <button type="button" onClick={() => setView(DEFAULT_IMAGE_VIEW)} className={buttonClassName}>Reset</button>
+        <span className="text-xs text-gray-500 dark:text-gray-400 transition-colors duration-200">Scroll to zoom, drag to pan, double-click to reset.</span>
+        <button type="button" onClick={onClose} className={`${buttonClassName} ml-auto`}>Close comparison</button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {items.map((item, index) => (
+          <div key={item.relativePath} className="flex flex-col">
+            <h3 className="text-sm font-semibold text-gray-800 dark:text-gray-200 mb-1 transition-colors duration-200">
+              {index === 0 ? 'A' : 'B'} <span className="font-normal text-gray-500 dark:text-gray-400">{new Date(item.timestamp).toLocaleString()}</span>
+            </h3>
+            <ImageViewer
+              imageUrl={`${apiBaseUrl}${item.relativePath}`}
+              isLoading={false}
+              alt={`Comparison image ${index === 0 ? 'A' : 'B'}`}
+              view={view}
+              onViewChange={setView}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-1">
+          <h4 className="text-sm font-medium text-gray-600 dark:text-gray-300 transition-colors duration-200">Settings</h4>
+          <label className="inline-flex items-center gap-1 text-xs text-gray-600 dark:text-gray-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={showOnlyDifferences}
+              onChange={(event) => setShowOnlyDifferences(event.target.checked)}
+              className="rounded border-gray-300 dark:border-gray-600 text-primary-600 focus:ring-primary-500"
+            />
+            Only differences
+          </label>
+        </div>
+        {loadError && <p className="text-sm text-red-600 dark:text-red-400">{loadError}</p>}
+        {!loadError && !records && <p className="text-sm text-gray-500 dark:text-gray-400 animate-pulse">Loading settings...</p>}
+        {records && !rows && (
+          <p className="text-sm text-gray-500 dark:text-gray-400">The server has no record of {records.every(record => !record) ? 'either image' : 'one of the images'}, so their settings can't be compared.</p>
+        )}
+        {shownRows && shownRows.length === 0 && (
+          <p className="text-sm text-gray-500 dark:text-gray-400">Both images were generated with the same settings.</p>
+        )}
+        {shownRows && shownRows.length > 0 && (
+          <table className="w-full text-sm border border-gray-200 dark:border-gray-700 transition-colors duration-200">
+            <thead className="bg-gray-50 dark:bg-gray-900 text-gray-600 dark:text-gray-300">
+              <tr>
+                <th className="text-left font-medium px-2 py-1">Field</th>
+                <th className="text-left font-medium px-2 py-1">A</th>
+                <th className="text-left font-medium px-2 py-1">B</th>
+              </tr>
+            </thead>
+            <tbody>
+              {shownRows.map(row => (
+                <tr
+                  key={row.fieldPath}
+                  className={`border-t border-gray-200 dark:border-gray-700 ${row.isDifferent ? 'bg-primary-50 dark:bg-primary-900/30 text-gray-900 dark:text-gray-100' : 'text-gray-500 dark:text-gray-400'}`}
+                >
+                  <td className="px-2 py-1">{row.label}</td>
+                  <td className="px-2 py-1">{row.values[0] || '-'}</td>
+                  <td className="px-2 py-1">{row.values[1] || '-'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CompareView;
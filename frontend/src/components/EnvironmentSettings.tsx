@@ -1,7 +1,18 @@
 import React from 'react';
+import type { EnvironmentSettings as EnvironmentSettingsState } from 'shared';
 import CollapsibleSection from './CollapsibleSection';
 import VisualOptionSelector, { VisualOption } from './VisualOptionSelector';
 import useSettingsStore from '../store/settingsStore';
+import {
+  BACKGROUND_PRESET_MAP,
+  BACKGROUND_PRESET_OPTIONS,
+  LIGHTING_OPTIONS,
+  LENS_STYLE_OPTIONS,
+  TIME_OF_DAY_OPTIONS,
+  WEATHER_OPTIONS,
+  SEASON_OPTIONS,
+  CAMERA_ANGLE_OPTIONS,
+} from '../constants';
 
 // Import Material Icons (using filled style)
 // Note: Adjust paths if your setup requires specific import methods for SVGs
@@ -16,43 +27,6 @@ import IconUmbrella from '@material-design-icons/svg/filled/umbrella.svg'; // Fo
 import IconCloud from '@material-design-icons/svg/filled/cloud.svg'; // For Foggy (placeholder)
 import IconAcUnit from '@material-design-icons/svg/filled/ac_unit.svg'; // For Snowy
 
-// Define options based on PRD (Section 3.3)
-// Define mapping from display name to backend key
-const BACKGROUND_PRESET_MAP: { [key: string]: string } = {
-  'Studio - White': 'studio-white',
-  'Studio - Gradient': 'studio-gradient',
-  'In Store': 'in-store',
-  'Lifestyle - Home': 'lifestyle-home',
-  'Lifestyle - Office': 'lifestyle-office',
-  'Outdoor - Urban': 'outdoor-urban',
-  'Outdoor - Nature': 'outdoor-nature',
-  'Seasonal - Spring': 'seasonal-spring',
-  'Seasonal - Summer': 'seasonal-summer',
-  'Seasonal - Fall': 'seasonal-fall',
-  'Seasonal - Winter': 'seasonal-winter',
-  // Add other mappings if needed, ensure keys match backend server.js
-};
-// Derive options from the map keys for the dropdown display
-const BACKGROUND_PRESET_OPTIONS = Object.keys(BACKGROUND_PRESET_MAP);
-const LIGHTING_OPTIONS = [
-  'Studio Softbox',
-  'Natural Daylight',
-  'Golden Hour Sunlight',
-  'Dramatic Rim Lighting',
-  'Cinematic Moody',
-];
-const LENS_STYLE_OPTIONS = [
-  'Fashion Magazine (Standard)',
-  'Portrait (Shallow DoF)',
-  'Wide Angle Environmental',
-  'Cinematic Look',
-];
-
-// New environment options
-const TIME_OF_DAY_OPTIONS = ['Morning', 'Noon', 'Afternoon', 'Sunset', 'Evening', 'Night'];
-const WEATHER_OPTIONS = ['Clear', 'Sunny', 'Cloudy', 'Overcast', 'Rainy', 'Foggy', 'Snowy'];
-const SEASON_OPTIONS = ['Spring', 'Summer', 'Fall', 'Winter'];
-const CAMERA_ANGLE_OPTIONS = ['Eye Level', 'Low Angle', 'High Angle', 'Dutch Angle', 'Overhead'];
 // --- Visual Options Definitions ---
 
 // Helper function to create icon components (adjust size/styling as needed)
@@ -91,18 +65,6 @@ const WEATHER_VISUAL_OPTIONS: VisualOption[] = WEATHER_OPTIONS.map(weather => ({
   icon: weatherIconMap[weather] || undefined,
 }));
 
-// Interface for the component's state
-export interface EnvironmentSettingsState {
-  backgroundPreset: string;
-  backgroundCustom: string;
-  lighting: string;
-  lensStyle: string;
-  timeOfDay: string;
-  weather: string;
-  season: string;
-  cameraAngle: string;
-}
-
 // Props are no longer needed as state comes from the store
 // interface EnvironmentSettingsProps { ... }
 
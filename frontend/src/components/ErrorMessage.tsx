@@ -1,23 +1,53 @@
 import React from 'react';
+import { ClientErrorCode } from '../services/api';
 
 interface ErrorMessageProps {
   message: string | null; // The error message to display, or null to hide
+  code?: ClientErrorCode | null; // Structured error code, when the API reported one
+  onRetry?: () => void; // Optional callback to retry; only pass it for retryable errors
   onDismiss?: () => void; // Optional callback to dismiss the error
 }
 
-const ErrorMessage: React.FC<ErrorMessageProps> = ({ message, onDismiss }) => {
+// What the user can do about each kind of failure
+const ERROR_GUIDANCE: Partial<Record<ClientErrorCode, { title: string; guidance: string }>> = {
+  NETWORK: { title: 'Connection problem', guidance: 'The server could not be reached. Check your connection and that the backend is running.' },
+  INVALID_INPUT: { title: 'Invalid request', guidance: 'Check the uploaded image and settings, then try again.' },
+  NOT_FOUND: { title: 'Not found', guidance: 'The item may have been deleted. Refresh the gallery and try again.' },
+  TIMEOUT: { title: 'Timed out', guidance: 'The model took too long to respond. Retrying usually helps.' },
+  SAFETY_BLOCKED: { title: 'Blocked by safety filters', guidance: 'Try a different garment image or adjust the settings; retrying the same request will likely be blocked again.' },
+  AUTH: { title: 'Model access problem', guidance: 'The server\'s API key or model configuration was rejected. Contact whoever runs the backend.' },
+  QUOTA: { title: 'Rate limit reached', guidance: 'Too many requests were made recently. Wait a minute before retrying.' },
+  NO_IMAGE_RETURNED: { title: 'No image returned', guidance: 'The model answered without an image. Retrying often produces one.' },
+  UPSTREAM_UNAVAILABLE: { title: 'Model unavailable', guidance: 'The image model is temporarily unreachable. Try again shortly.' },
+  STORAGE: { title: 'Could not save image', guidance: 'The server failed to store the result. Try again shortly.' },
+};
+
+const ErrorMessage: React.FC<ErrorMessageProps> = ({ message, code, onRetry, onDismiss }) => {
   if (!message) {
     return null; // Don't render anything if no message
   }
 
+  const guidance = code ? ERROR_GUIDANCE[code] : undefined;
+
   return (
-    <div className="bg-red-100 dark:bg-red-900/30 border border-red-400 dark:border-red-800 text-red-700 dark:text-red-300 px-4 py-3 rounded relative mt-4 transition-colors duration-200 animate-fade-in" role="alert">
-      <strong className="font-bold">Error: </strong>
+    <div className="bg-red-100 dark:bg-red-900/30 border border-red-400 dark:border-red-800 text-red-700 dark:text-red-300 px-4 py-3 pr-12 rounded relative mt-4 transition-colors duration-200 animate-fade-in" role="alert">
+      <strong className="font-bold">{guidance ? `${guidance.title}: ` : 'Error: '}</strong>
       <span className="block sm:inline">{message}</span>
+      {guidance && (
+        <p className="mt-1 text-sm">{guidance.guidance}</p>
+      )}
+      {onRetry && (
+        <button
+          onClick={onRetry}
+          className="mt-2 px-3 py-1 text-sm font-medium rounded bg-red-600 hover:bg-red-700 text-white transition-colors"
+        >
+          Retry
+        </button>
+      )}
       {onDismiss && (
         <button
           onClick={onDismiss}
-          className="absolute top-0 bottom-0 right-0 px-4 py-3 hover:text-red-800 dark:hover:text-red-200 transition-colors"
+          className="absolute top-0 right-0 px-4 py-3 hover:text-red-800 dark:hover:text-red-200 transition-colors"
           aria-label="Dismiss error"
         >
           <svg className="fill-current h-6 w-6 text-red-500 dark:text-red-400" role="button" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20">
@@ -30,4 +60,4 @@ const ErrorMessage: React.FC<ErrorMessageProps> = ({ message, onDismiss }) => {
   );
 };
 
-export default ErrorMessage;
\ No newline at end of file
+export default ErrorMessage;
@@ -1,17 +1,18 @@
 import React, { useState, useCallback } from 'react'; // Added useCallback
-import useGalleryStore, { GalleryItem } from '../store/galleryStore'; // Import store and type
+import { GalleryItem } from '../store/galleryStore'; // Import type
 import IconClose from '@material-design-icons/svg/filled/close.svg'; // Import close icon
 
 interface GalleryProps {
   galleryItems: GalleryItem[]; // Accept GalleryItem objects
   apiBaseUrl: string;
-  onThumbnailClick: (relativePath: string) => void;
+  onThumbnailClick: (item: GalleryItem) => void;
   onClearGallery?: () => void;
+  onDeleteItem: (item: GalleryItem) => void; // Deletes the image on the server and from the gallery
+  compareSelection?: string[]; // Relative paths picked for A/B comparison, in A, B order
+  onToggleCompare?: (item: GalleryItem) => void; // Shows the compare toggle on each thumbnail
 }
 
-const Gallery: React.FC<GalleryProps> = ({ galleryItems, apiBaseUrl, onThumbnailClick, onClearGallery }) => {
-  const deleteImage = useGalleryStore(state => state.deleteImage); // Get delete action
-  const [clearConfirm, setClearConfirm] = useState<boolean>(false);
+const Gallery: React.FC<GalleryProps> = ({ galleryItems, apiBaseUrl, onThumbnailClick, onClearGallery, onDeleteItem, compareSelection = [], onToggleCompare }) => {  const [clearConfirm, setClearConfirm] = useState<boolean>(false);
 
   const handleClearGallery = () => {
     // Show confirmation dialog
@@ -31,12 +32,40 @@ const Gallery: React.FC<GalleryProps> = ({ galleryItems, apiBaseUrl, onThumbnail
   };
 
   // Handler for deleting an image with confirmation
-  const handleDeleteClick = useCallback((event: React.MouseEvent, relativePath: string) => {
+  const handleDeleteClick = useCallback((event: React.MouseEvent, item: GalleryItem) => {
     event.stopPropagation(); // Prevent triggering onThumbnailClick
-    if (window.confirm('Are you sure you want to delete this image from the gallery?')) {
-      deleteImage(relativePath);
+    if (window.confirm('Permanently delete this image? It will be removed from the server as well as the gallery.')) {
+      onDeleteItem(item);
     }
-  }, [deleteImage]);
+  }, [onDeleteItem]);
+
+  // Compare toggle, top-left of a thumbnail; shows the item's letter once it is picked
+  const renderCompareToggle = (item: GalleryItem) => {
+    if (!onToggleCompare) return null;
+    const selectionIndex = compareSelection.indexOf(item.relativePath);
+    const isSelected = selectionIndex !== -1;
+    return (
+      <button
+        onClick={(e) => {
+          e.stopPropagation(); // Prevent triggering onThumbnailClick
+          onToggleCompare(item);
+        }}
+        className={`absolute top-1 left-1 z-10 px-1.5 py-0.5 text-xs rounded transition-all duration-200 focus:outline-none focus:ring-1 focus:ring-primary-500
+                    ${isSelected
+                      ? 'bg-primary-600 text-white opacity-100'
+                      : 'bg-black bg-opacity-30 hover:bg-opacity-50 text-white opacity-0 group-hover:opacity-100'
+                    }`}
+        aria-pressed={isSelected}
+        aria-label={isSelected ? 'Remove from comparison' : 'Add to comparison'}
+        title={isSelected ? 'Remove from comparison' : 'Compare with another image'}
+      >
+        {isSelected ? (selectionIndex === 0 ? 'A' : 'B') : 'Compare'}
+      </button>
+    );
+  };
+
+  const compareRingClassName = (item: GalleryItem) =>
+    compareSelection.includes(item.relativePath) ? 'ring-2 ring-primary-500 dark:ring-primary-400' : '';
 
   if (!galleryItems || galleryItems.length === 0) {
     return (
@@ -57,8 +86,8 @@ const Gallery: React.FC<GalleryProps> = ({ galleryItems, apiBaseUrl, onThumbnail
             return (
               <div
                 key={`${item.relativePath}-${index}`}
-                className="flex-shrink-0 w-24 h-24 rounded border border-gray-300 dark:border-gray-600 overflow-hidden cursor-pointer hover:opacity-90 hover:border-primary-500 dark:hover:border-primary-400 transition-all duration-200 animate-fade-in relative group"
-                onClick={() => onThumbnailClick(item.relativePath)}
+                className={`flex-shrink-0 w-24 h-24 rounded border border-gray-300 dark:border-gray-600 overflow-hidden cursor-pointer hover:opacity-90 hover:border-primary-500 dark:hover:border-primary-400 transition-all duration-200 animate-fade-in relative group ${compareRingClassName(item)}`}
+                onClick={() => onThumbnailClick(item)}
                 title={`Generated: ${dateTimeString}`}
               >
                 <img
@@ -67,9 +96,10 @@ const Gallery: React.FC<GalleryProps> = ({ galleryItems, apiBaseUrl, onThumbnail
                   className="w-full h-full object-cover"
                   loading="lazy"
                 />
+                {renderCompareToggle(item)}
                 {/* Delete Button */}
                 <button
-                  onClick={(e) => handleDeleteClick(e, item.relativePath)}
+                  onClick={(e) => handleDeleteClick(e, item)}
                   className="absolute top-1 right-1 z-10 p-0.5 bg-black dark:bg-white bg-opacity-30 dark:bg-opacity-20 hover:bg-opacity-50 dark:hover:bg-opacity-30 text-white dark:text-gray-200 rounded-full opacity-0 group-hover:opacity-100 transition-all duration-200 focus:outline-none focus:ring-1 focus:ring-red-500 dark:focus:ring-red-400"
                   aria-label="Delete image"
                   title="Delete image"
@@ -90,8 +120,8 @@ const Gallery: React.FC<GalleryProps> = ({ galleryItems, apiBaseUrl, onThumbnail
            return (
              <div
                key={`${item.relativePath}-${index}`}
-               className="aspect-square rounded border border-gray-300 dark:border-gray-600 overflow-hidden cursor-pointer hover:opacity-90 hover:border-primary-500 dark:hover:border-primary-400 hover:shadow-md transition-all duration-200 animate-fade-in relative group"
-               onClick={() => onThumbnailClick(item.relativePath)}
+               className={`aspect-square rounded border border-gray-300 dark:border-gray-600 overflow-hidden cursor-pointer hover:opacity-90 hover:border-primary-500 dark:hover:border-primary-400 hover:shadow-md transition-all duration-200 animate-fade-in relative group ${compareRingClassName(item)}`}
+               onClick={() => onThumbnailClick(item)}
                title={`Generated: ${dateTimeString}`}
              >
                <img
@@ -100,9 +130,10 @@ const Gallery: React.FC<GalleryProps> = ({ galleryItems, apiBaseUrl, onThumbnail
                  className="w-full h-full object-cover"
                  loading="lazy"
                />
+               {renderCompareToggle(item)}
                {/* Delete Button */}
                 <button
-                  onClick={(e) => handleDeleteClick(e, item.relativePath)}
+                  onClick={(e) => handleDeleteClick(e, item)}
                   className="absolute top-1 right-1 z-10 p-0.5 bg-black dark:bg-white bg-opacity-30 dark:bg-opacity-20 hover:bg-opacity-50 dark:hover:bg-opacity-30 text-white dark:text-gray-200 rounded-full opacity-0 group-hover:opacity-100 transition-all duration-200 focus:outline-none focus:ring-1 focus:ring-red-500 dark:focus:ring-red-400"
                   aria-label="Delete image"
                   title="Delete image"
@@ -119,7 +150,7 @@ const Gallery: React.FC<GalleryProps> = ({ galleryItems, apiBaseUrl, onThumbnail
         <div className="mt-4 flex justify-end">
           {clearConfirm ? (
             <div className="flex space-x-2 items-center animate-fade-in">
-              <span className="text-sm text-gray-600 dark:text-gray-300">Clear all images?</span>
+              <span className="text-sm text-gray-600 dark:text-gray-300">Permanently delete all images from the server?</span>
               <button
                 className="text-sm px-2 py-1 bg-red-500 hover:bg-red-600 text-white rounded transition-colors"
                 onClick={handleConfirmClear}
@@ -0,0 +1,246 @@
+import React, { useEffect, useState } from 'react';
+import {
+  listGenerations,
+  deleteGeneration,
+  restoreGeneration,
+  GenerationFieldPath,
+  GenerationListPage,
+  GenerationListQuery,
+  GenerationRecord,
+} from '../services/api';
+import IconClose from '@material-design-icons/svg/filled/close.svg'; // Import close icon
+import { HISTORY_PAGE_SIZE } from '../constants';
+import { SELECT_SETTINGS_FIELDS } from '../utils/settingsFields';
+
+// Every settings field the history can be filtered or sorted by
+const FILTER_FIELDS = SELECT_SETTINGS_FIELDS;
+type FilterFieldPath = (typeof FILTER_FIELDS)[number]['fieldPath'];
+
+const selectClassName = "appearance-none px-2 py-1 border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 rounded-md text-sm focus:outline-none focus:ring-primary-500 dark:focus:ring-primary-400 focus:border-primary-500 dark:focus:border-primary-400 transition-colors duration-200";
+const overlayButtonClassName = "text-xs px-2 py-0.5 rounded bg-black bg-opacity-50 hover:bg-opacity-70 text-white transition-colors";
+const pagerButtonClassName = "text-sm px-2 py-1 bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 text-gray-800 dark:text-gray-200 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+interface HistoryBrowserProps {
+  apiBaseUrl: string;
+  onThumbnailClick: (record: GenerationRecord) => void;
+  onPermanentlyDeleted: (record: GenerationRecord) => void; // Lets the parent drop the image from the local gallery/viewer
+}
+
+// Browses the full server-side generation history, unlike Gallery which only shows this browser's recent items
+const HistoryBrowser: React.FC<HistoryBrowserProps> = ({ apiBaseUrl, onThumbnailClick, onPermanentlyDeleted }) => {
+  const [showTrash, setShowTrash] = useState<boolean>(false); // Browse soft-deleted generations instead
+  const [refreshCount, setRefreshCount] = useState<number>(0); // Bumped to refetch after a delete/restore
+  const [page, setPage] = useState<number>(1);
+  const [sortBy, setSortBy] = useState<GenerationFieldPath>('createdAt');
+  const [order, setOrder] = useState<'asc' | 'desc'>('desc');
+  const [filters, setFilters] = useState<NonNullable<GenerationListQuery['filters']>>({});
+  const [pendingFilterField, setPendingFilterField] = useState<FilterFieldPath>(FILTER_FIELDS[0].fieldPath);
+  const [result, setResult] = useState<GenerationListPage | null>(null);
+  const [isFetching, setIsFetching] = useState<boolean>(false);
+  const [fetchError, setFetchError] = useState<string | null>(null);
+
+  // Refetch whenever the query changes
+  useEffect(() => {
+    let isStale = false;
+    setIsFetching(true);
+    setFetchError(null);
+    listGenerations({ page, pageSize: HISTORY_PAGE_SIZE, sortBy, order, filters, trash: showTrash })
+      .then(data => { if (!isStale) setResult(data); })
+      .catch(error => { if (!isStale) setFetchError(error instanceof Error ? error.message : 'Failed to load history.'); })
+      .finally(() => { if (!isStale) setIsFetching(false); });
+    return () => { isStale = true; };
+  }, [page, sortBy, order, filters, showTrash, refreshCount]);
+
+  // Runs a delete/restore action for one item, then reloads the current page
+  const runItemAction = async (event: React.MouseEvent, action: () => Promise<unknown>) => {
+    event.stopPropagation(); // Prevent triggering onThumbnailClick
+    try {
+      await action();
+      setRefreshCount(count => count + 1);
+    } catch (error) {
+      setFetchError(error instanceof Error ? error.message : 'The action failed.');
+    }
+  };
+
+  const handleMoveToTrash = (event: React.MouseEvent, record: GenerationRecord) =>
+    runItemAction(event, () => deleteGeneration(record.generationId, { soft: true }));
+
+  const handleRestore = (event: React.MouseEvent, record: GenerationRecord) =>
+    runItemAction(event, () => restoreGeneration(record.generationId));
+
+  const handleDeleteForever = (event: React.MouseEvent, record: GenerationRecord) => {
+    event.stopPropagation();
+    if (!window.confirm('Permanently delete this image? This cannot be undone.')) return;
+    runItemAction(event, async () => {
+      await deleteGeneration(record.generationId);
+      onPermanentlyDeleted(record);
+    });
+  };
+
+  const pendingField = FILTER_FIELDS.find(field => field.fieldPath === pendingFilterField) ?? FILTER_FIELDS[0];
+
+  const setFilter = (fieldPath: FilterFieldPath, value: string | null) => {
+    setFilters(prev => {
+      const next = { ...prev };
+      if (value) next[fieldPath] = value;
+      else delete next[fieldPath];
+      return next;
+    });
+    setPage(1); // Filters change the result set, restart from the first page
+  };
+
+  const activeFilters = Object.entries(filters) as [FilterFieldPath, string][];
+
+  return (
+    <div className="space-y-3">
+      {/* Query controls */}
+      <div className="flex flex-wrap gap-2 items-center text-sm">
+        <span className="text-gray-600 dark:text-gray-300">Filter:</span>
+        <select
+          aria-label="Filter field"
+          className={selectClassName}
+          value={pendingFilterField}
+          onChange={(e) => setPendingFilterField(e.target.value as FilterFieldPath)}
+        >
+          {FILTER_FIELDS.map(field => (
+            <option key={field.fieldPath} value={field.fieldPath}>{field.label}</option>
+          ))}
+        </select>
+        <select
+          aria-label="Filter value"
+          className={selectClassName}
+          value={filters[pendingFilterField] ?? ''}
+          onChange={(e) => setFilter(pendingFilterField, e.target.value || null)}
+        >
+          <option value="">Any</option>
+          {pendingField.options.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+
+        <span className="text-gray-600 dark:text-gray-300 ml-4">Sort by:</span>
+        <select
+          aria-label="Sort field"
+          className={selectClassName}
+          value={sortBy}
+          onChange={(e) => { setSortBy(e.target.value as GenerationFieldPath); setPage(1); }}
+        >
+          <option value="createdAt">Date</option>
+          {FILTER_FIELDS.map(field => (
+            <option key={field.fieldPath} value={field.fieldPath}>{field.label}</option>
+          ))}
+        </select>
+        <select
+          aria-label="Sort order"
+          className={selectClassName}
+          value={order}
+          onChange={(e) => { setOrder(e.target.value as 'asc' | 'desc'); setPage(1); }}
+        >
+          <option value="desc">{sortBy === 'createdAt' ? 'Newest first' : 'Z to A'}</option>
+          <option value="asc">{sortBy === 'createdAt' ? 'Oldest first' : 'A to Z'}</option>
+        </select>
+
+        <label className="ml-auto inline-flex items-center space-x-1 text-gray-600 dark:text-gray-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={showTrash}
+            onChange={(e) => { setShowTrash(e.target.checked); setPage(1); }}
+            className="rounded border-gray-300 dark:border-gray-600 text-primary-600 focus:ring-primary-500"
+          />
+          <span>Show trash</span>
+        </label>
+      </div>
+
+      {/* Active filter chips */}
+      {activeFilters.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {activeFilters.map(([fieldPath, value]) => {
+            const field = FILTER_FIELDS.find(f => f.fieldPath === fieldPath);
+            const valueLabel = field?.options.find(option => option.value === value)?.label ?? value;
+            return (
+              <button
+                key={fieldPath}
+                type="button"
+                onClick={() => setFilter(fieldPath, null)}
+                className="text-xs px-2 py-1 rounded-full bg-primary-100 dark:bg-primary-900/40 text-primary-700 dark:text-primary-300 hover:bg-primary-200 dark:hover:bg-primary-900/60 transition-colors"
+                title="Remove filter"
+              >
+                {field?.label ?? fieldPath}: {valueLabel} ✕
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {fetchError && (
+        <p className="text-sm text-red-600 dark:text-red-400">{fetchError}</p>
+      )}
+
+      {!fetchError && result && result.items.length === 0 && !isFetching && (
+        <div className="text-center text-gray-500 dark:text-gray-400 py-4 transition-colors duration-200">
+          {showTrash ? 'The trash is empty.' : 'No generations match these filters.'}
+        </div>
+      )}
+
+      {/* Results grid */}
+      {result && result.items.length > 0 && (
+        <div className={`grid grid-cols-3 md:grid-cols-4 lg:grid-cols-6 gap-3 ${isFetching ? 'opacity-60' : ''} transition-opacity duration-200`}>
+          {result.items.map(item => (
+            <div
+              key={item.generationId}
+              className="aspect-square rounded border border-gray-300 dark:border-gray-600 overflow-hidden cursor-pointer hover:opacity-90 hover:border-primary-500 dark:hover:border-primary-400 hover:shadow-md transition-all duration-200 animate-fade-in relative group"
+              onClick={() => onThumbnailClick(item)}
+              title={`Generated: ${new Date(item.createdAt).toLocaleString()}`}
+            >
+              <img
+                src={`${apiBaseUrl}${item.imagePath}`}
+                alt={`Generated image ${item.generationId}`}
+                className="w-full h-full object-cover"
+                loading="lazy"
+              />
+              {showTrash ? (
+                // Trash actions
+                <div className="absolute bottom-1 inset-x-1 flex justify-between opacity-0 group-hover:opacity-100 transition-opacity duration-200">
+                  <button type="button" className={overlayButtonClassName} onClick={(e) => handleRestore(e, item)}>
+                    Restore
+                  </button>
+                  <button type="button" className={overlayButtonClassName} onClick={(e) => handleDeleteForever(e, item)}>
+                    Delete forever
+                  </button>
+                </div>
+              ) : (
+                // Move to trash button
+                <button
+                  type="button"
+                  onClick={(e) => handleMoveToTrash(e, item)}
+                  className="absolute top-1 right-1 z-10 p-0.5 bg-black dark:bg-white bg-opacity-30 dark:bg-opacity-20 hover:bg-opacity-50 dark:hover:bg-opacity-30 text-white dark:text-gray-200 rounded-full opacity-0 group-hover:opacity-100 transition-all duration-200 focus:outline-none focus:ring-1 focus:ring-red-500 dark:focus:ring-red-400"
+                  aria-label="Move to trash"
+                  title="Move to trash"
+                >
+                  <img src={IconClose} alt="Move to trash" className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Pagination */}
+      {result && result.totalPages > 1 && (
+        <div className="flex justify-end items-center space-x-2">
+          <button type="button" className={pagerButtonClassName} disabled={page <= 1 || isFetching} onClick={() => setPage(page - 1)}>
+            Previous
+          </button>
+          <span className="text-sm text-gray-600 dark:text-gray-300">
+            Page {result.page} of {result.totalPages} ({result.total} images)
+          </span>
+          <button type="button" className={pagerButtonClassName} disabled={page >= result.totalPages || isFetching} onClick={() => setPage(page + 1)}>
+            Next
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HistoryBrowser;
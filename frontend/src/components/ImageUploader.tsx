@@ -1,65 +1,182 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import { GARMENT_ROLES, GARMENT_ROLE_LABELS, MAX_GARMENTS } from 'shared';
 import {
     MAX_FILE_SIZE_MB,
     MAX_FILE_SIZE_BYTES,
     ACCEPTED_IMAGE_FORMATS,
-    ACCEPTED_IMAGE_FORMATS_STRING
+    ACCEPTED_IMAGE_FORMATS_STRING,
+    UPLOAD_MAX_DIMENSION_OPTIONS
 } from '../constants'; // Assuming this path works at build time
+import { UploadedGarment } from '../store/generationStore';
+import useSettingsStore, { PreprocessingOptions } from '../store/settingsStore';
+import { GarmentRole, getBackgroundRemovalStatus, removeBackground } from '../services/api';
+import { autoCropImage, removePlainBackground } from '../utils/imagePreprocessing';
+import { EncodeImageOptions, UploadImageFormat, dataUrlBytes, encodeImage, formatBytes, isImageEncoderSupported } from '../utils/imageEncoder';
+
+const optionSelectClassName = 'px-2 py-1 border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 rounded focus:outline-none focus:ring-primary-500 focus:border-primary-500 transition-colors duration-200';
 
 interface ImageUploaderProps {
-  uploadedImageData: string | null; // Receive uploaded image data to display
-  onImageUpload: (imageData: string | null) => void;
+  garments: UploadedGarment[]; // Receive uploaded garments to display
+  onGarmentsAdd: (garments: UploadedGarment[]) => void;
+  onGarmentRemove: (garmentId: string) => void;
+  onGarmentUpdate: (garmentId: string, changes: Partial<UploadedGarment>) => void; // Applies role changes and clean-up results as they finish
   onError: (error: string | null) => void;
 }
 
-const ImageUploader: React.FC<ImageUploaderProps> = ({ uploadedImageData, onImageUpload, onError }) => {
-  const [isDragging, setIsDragging] = useState(false);
-  // Use the onError prop directly for external reporting, keep internal for display if needed
-  // const [uploadErrorInternal, setUploadErrorInternal] = useState<string | null>(null);
+// Roles offered for the second and later garments, in the order they are suggested
+const OUTFIT_ROLES = GARMENT_ROLES.filter(role => role !== 'garment');
 
-  // --- Upload Logic (Moved from App.tsx) ---
-  const processFile = useCallback((file: File | null) => {
-    onError(null); // Clear previous errors via prop
+// First garment is unlabelled (the single-garment case); later ones get the next role not used yet
+const suggestRole = (existing: UploadedGarment[]): GarmentRole => {
+  if (existing.length === 0) return 'garment';
+  return OUTFIT_ROLES.find(role => !existing.some(garment => garment.role === role)) ?? 'accessory';
+};
 
-    if (!file) {
-        onImageUpload(null); // Clear image data in parent if file is null
-        return;
+const readAsDataUrl = (file: Blob) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onloadend = () => resolve(reader.result as string);
+  reader.onerror = () => reject(new Error('Failed to read file.'));
+  reader.readAsDataURL(file);
+});
+
+// Downscaled and re-encoded in the worker; browsers without OffscreenCanvas (or undecodable files) send the file as-is
+const prepareUpload = async (file: File, encoding: EncodeImageOptions) => {
+  if (isImageEncoderSupported()) {
+    try {
+      const { blob } = await encodeImage(file, encoding);
+      return await readAsDataUrl(blob);
+    } catch (encodeError) {
+      console.warn(`Could not re-encode ${file.name}; uploading it unchanged:`, encodeError);
     }
+  }
+  return readAsDataUrl(file);
+};
+
+const needsCleanup = ({ autoCrop, backgroundRemoval }: PreprocessingOptions) => autoCrop || backgroundRemoval !== 'off';
 
-    // Validate file type
-    if (!ACCEPTED_IMAGE_FORMATS.includes(file.type)) {
-      onError(`Invalid format. Use ${ACCEPTED_IMAGE_FORMATS.map((f: string) => f.split('/')[1]).join(', ')}.`);
-      onImageUpload(null);
+// Background removal first, so auto-crop can use the transparency it leaves
+const cleanGarmentImage = async (imageData: string, { autoCrop, backgroundRemoval }: PreprocessingOptions) => {
+  let cleaned = imageData;
+  if (backgroundRemoval === 'local') cleaned = await removePlainBackground(cleaned);
+  if (backgroundRemoval === 'server') cleaned = await removeBackground(cleaned);
+  if (autoCrop) cleaned = await autoCropImage(cleaned);
+  return cleaned;
+};
+
+// Upload one garment, or several (top, bottom, shoes, ...) to generate a complete outfit.
+// Each garment carries a role; the backend sends them as separate images and refers to them by role.
+// Uploads are cleaned up (auto-crop, optional background removal) before they are sent; tiles toggle before/after.
+const ImageUploader: React.FC<ImageUploaderProps> = ({ garments, onGarmentsAdd, onGarmentRemove, onGarmentUpdate, onError }) => {
+  const preprocessing = useSettingsStore(state => state.preprocessing);
+  const setPreprocessing = useSettingsStore(state => state.setPreprocessing);
+  const uploadEncoding = useSettingsStore(state => state.uploadEncoding);
+  const setUploadEncoding = useSettingsStore(state => state.setUploadEncoding);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isServerRemovalAvailable, setIsServerRemovalAvailable] = useState(false);
+  const [showingOriginal, setShowingOriginal] = useState<Set<string>>(new Set()); // Garment ids in "before" view
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const cleanupRuns = useRef(new Map<string, number>()); // Latest clean-up run per garment; older results are dropped
+  const canAddMore = garments.length < MAX_GARMENTS;
+
+  useEffect(() => {
+    let isCancelled = false;
+    getBackgroundRemovalStatus()
+      .then(available => {
+        if (isCancelled) return;
+        setIsServerRemovalAvailable(available);
+        // A saved choice the backend no longer offers falls back to no removal
+        if (!available && useSettingsStore.getState().preprocessing.backgroundRemoval === 'server') {
+          setPreprocessing({ backgroundRemoval: 'off' });
+        }
+      })
+      .catch(error => console.error('Failed to check background removal support:', error));
+    return () => {
+      isCancelled = true;
+    };
+  }, [setPreprocessing]);
+
+  // Cleans one garment from its original image with the given options
+  const runCleanup = useCallback(async (garment: Pick<UploadedGarment, 'id' | 'originalImageData'>, options: PreprocessingOptions) => {
+    const run = (cleanupRuns.current.get(garment.id) ?? 0) + 1;
+    cleanupRuns.current.set(garment.id, run);
+    if (!needsCleanup(options)) {
+      onGarmentUpdate(garment.id, { imageData: garment.originalImageData, isProcessing: false, processingError: null });
       return;
     }
 
-    // Validate file size
-    if (file.size > MAX_FILE_SIZE_BYTES) {
-      onError(`File too large. Max ${MAX_FILE_SIZE_MB}MB.`);
-      onImageUpload(null);
-      return;
+    onGarmentUpdate(garment.id, { isProcessing: true, processingError: null });
+    try {
+      const imageData = await cleanGarmentImage(garment.originalImageData, options);
+      if (cleanupRuns.current.get(garment.id) === run) onGarmentUpdate(garment.id, { imageData, isProcessing: false });
+    } catch (cleanupError) {
+      console.error('Garment clean-up failed:', cleanupError);
+      if (cleanupRuns.current.get(garment.id) !== run) return;
+      onGarmentUpdate(garment.id, {
+        imageData: garment.originalImageData, // Fall back to the upload as-is
+        isProcessing: false,
+        processingError: cleanupError instanceof Error ? cleanupError.message : 'Clean-up failed.',
+      });
     }
+  }, [onGarmentUpdate]);
 
-    // Read file as Data URL
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      const base64String = reader.result as string;
-      onImageUpload(base64String); // Pass base64 data up
-      onError(null); // Clear error on success via prop
-    };
-    reader.onerror = () => {
-      onError('Failed to read file.');
-      onImageUpload(null);
-    };
-    reader.readAsDataURL(file);
-  }, [onImageUpload, onError]); // Include dependencies
+  // Changing the options re-cleans every garment from its original
+  const garmentsRef = useRef(garments);
+  garmentsRef.current = garments;
+  const previousPreprocessing = useRef(preprocessing);
+  useEffect(() => {
+    if (previousPreprocessing.current === preprocessing) return;
+    previousPreprocessing.current = preprocessing;
+    garmentsRef.current.forEach(garment => runCleanup(garment, preprocessing));
+  }, [preprocessing, runCleanup]);
+
+  // --- Upload Logic ---
+  const processFiles = useCallback(async (files: File[]) => {
+    onError(null); // Clear previous errors via prop
+    if (files.length === 0) return;
+
+    const room = MAX_GARMENTS - garments.length;
+    if (files.length > room) {
+      onError(`You can upload up to ${MAX_GARMENTS} garments.`);
+      if (room <= 0) return;
+    }
+
+    const added: UploadedGarment[] = [];
+    for (const file of files.slice(0, Math.max(room, 0))) {
+      // Validate file type
+      if (!ACCEPTED_IMAGE_FORMATS.includes(file.type)) {
+        onError(`Invalid format. Use ${ACCEPTED_IMAGE_FORMATS.map((f: string) => f.split('/')[1]).join(', ')}.`);
+        continue;
+      }
+      // Validate file size
+      if (file.size > MAX_FILE_SIZE_BYTES) {
+        onError(`File too large. Max ${MAX_FILE_SIZE_MB}MB.`);
+        continue;
+      }
+      try {
+        const imageData = await prepareUpload(file, uploadEncoding);
+        added.push({
+          id: crypto.randomUUID(),
+          role: suggestRole([...garments, ...added]),
+          imageData,
+          originalImageData: imageData,
+          sourceBytes: file.size,
+          isProcessing: needsCleanup(preprocessing),
+        });
+      } catch (readError) {
+        onError(readError instanceof Error ? readError.message : 'Failed to read file.');
+      }
+    }
+    if (added.length === 0) return;
+    // Appended to the store's current list: clean-up of earlier garments may have updated it while these were read
+    onGarmentsAdd(added);
+    added.forEach(garment => runCleanup(garment, preprocessing));
+  }, [garments, preprocessing, uploadEncoding, onGarmentsAdd, onError, runCleanup]);
 
   const handleFileChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    processFile(file || null);
+    processFiles(Array.from(event.target.files ?? []));
     // Reset input value to allow uploading the same file again
     event.target.value = '';
-  }, [processFile]);
+  }, [processFiles]);
 
   const handleDragOver = useCallback((event: React.DragEvent<HTMLDivElement>) => {
     event.preventDefault();
@@ -81,76 +198,199 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({ uploadedImageData, onImag
     event.preventDefault();
     event.stopPropagation();
     setIsDragging(false);
-    const file = event.dataTransfer.files?.[0];
-    processFile(file || null);
-  }, [processFile]);
-
-  const handleClearUpload = useCallback(() => {
-    processFile(null); // This calls onImageUpload(null) and onError(null)
-    // Ensure the hidden file input is cleared if needed
-    const fileInput = document.getElementById('fileInput') as HTMLInputElement;
-    if (fileInput) {
-        fileInput.value = '';
-    }
-  }, [processFile]);
+    processFiles(Array.from(event.dataTransfer.files ?? []));
+  }, [processFiles]);
+
+  const handleRoleChange = useCallback((garmentId: string, role: GarmentRole) => {
+    onGarmentUpdate(garmentId, { role });
+  }, [onGarmentUpdate]);
+
+  const handleRemove = useCallback((garmentId: string) => {
+    onError(null);
+    cleanupRuns.current.delete(garmentId);
+    onGarmentRemove(garmentId);
+  }, [onGarmentRemove, onError]);
+
+  const toggleOriginal = useCallback((garmentId: string) => {
+    setShowingOriginal(current => {
+      const next = new Set(current);
+      if (!next.delete(garmentId)) next.add(garmentId);
+      return next;
+    });
+  }, []);
   // --- End Upload Logic ---
 
   return (
-    <div className="border border-gray-200 dark:border-gray-700 rounded p-4 flex flex-col items-center justify-center bg-gray-50 dark:bg-gray-800 relative group min-h-[300px] sm:min-h-[350px] md:min-h-[400px] lg:min-h-[500px] transition-colors duration-200">
-       <h3 className="text-lg font-semibold text-gray-800 dark:text-gray-200 mb-3 w-full text-center transition-colors duration-200">Original</h3>
+    <div
+       className={`border rounded p-4 flex flex-col bg-gray-50 dark:bg-gray-800 relative min-h-[300px] sm:min-h-[350px] md:min-h-[400px] lg:min-h-[500px] transition-colors duration-200
+                   ${isDragging ? 'border-primary-500 bg-primary-50 dark:bg-primary-900/30' : 'border-gray-200 dark:border-gray-700'}`}
+       onDragOver={handleDragOver}
+       onDragLeave={handleDragLeave}
+       onDrop={handleDrop}
+    >
+       <h3 className="text-lg font-semibold text-gray-800 dark:text-gray-200 mb-3 w-full text-center transition-colors duration-200">
+         Original{garments.length > 1 ? ` (${garments.length} garments)` : ''}
+       </h3>
+       {/* Clean-up Options */}
+       <div className="flex flex-wrap items-center justify-center gap-3 mb-3 text-xs text-gray-700 dark:text-gray-300 transition-colors duration-200">
+         <label className="flex items-center gap-1">
+           <input
+              type="checkbox"
+              checked={preprocessing.autoCrop}
+              onChange={(event) => setPreprocessing({ autoCrop: event.target.checked })}
+              className="rounded border-gray-300 dark:border-gray-600 text-primary-600 focus:ring-primary-500"
+           />
+           Auto-crop
+         </label>
+         <label className="flex items-center gap-1">
+           Background
+           <select
+              value={preprocessing.backgroundRemoval}
+              onChange={(event) => setPreprocessing({ backgroundRemoval: event.target.value as PreprocessingOptions['backgroundRemoval'] })}
+              className={optionSelectClassName}
+           >
+             <option value="off">Keep</option>
+             <option value="local">Remove (plain backgrounds)</option>
+             <option value="server" disabled={!isServerRemovalAvailable}>Remove (AI, server){isServerRemovalAvailable ? '' : ' - unavailable'}</option>
+           </select>
+         </label>
+       </div>
+       {/* Upload Encoding - applies to new uploads */}
+       <div className="flex flex-wrap items-center justify-center gap-3 mb-3 text-xs text-gray-700 dark:text-gray-300 transition-colors duration-200">
+         <label className="flex items-center gap-1">
+           Max size
+           <select
+              value={uploadEncoding.maxDimension}
+              onChange={(event) => setUploadEncoding({ maxDimension: Number(event.target.value) })}
+              className={optionSelectClassName}
+           >
+             {UPLOAD_MAX_DIMENSION_OPTIONS.map(dimension => (
+               <option key={dimension} value={dimension}>{dimension}px</option>
+             ))}
+           </select>
+         </label>
+         <label className="flex items-center gap-1">
+           Format
+           <select
+              value={uploadEncoding.mimeType}
+              onChange={(event) => setUploadEncoding({ mimeType: event.target.value as UploadImageFormat })}
+              className={optionSelectClassName}
+           >
+             <option value="image/webp">WebP</option>
+             <option value="image/jpeg">JPEG</option>
+           </select>
+         </label>
+         <label className="flex items-center gap-1">
+           Quality
+           <input
+              type="range"
+              min={0.5}
+              max={1}
+              step={0.05}
+              value={uploadEncoding.quality}
+              onChange={(event) => setUploadEncoding({ quality: Number(event.target.value) })}
+              className="w-20 accent-primary-600"
+           />
+           <span className="w-8 text-right">{Math.round(uploadEncoding.quality * 100)}%</span>
+         </label>
+       </div>
        {/* Hidden File Input */}
        <input
-          id="fileInput"
+          ref={fileInputRef}
           type="file"
+          multiple
           accept={ACCEPTED_IMAGE_FORMATS_STRING}
           onChange={handleFileChange}
           className="hidden"
        />
-       {/* Drop Zone / Display Area - Takes full space */}
-       <div
-          className={`absolute inset-0 flex items-center justify-center overflow-hidden p-1 rounded-md cursor-pointer border-2 border-dashed flex-grow
-                      ${isDragging ? 'border-primary-500 bg-primary-50 dark:bg-primary-900/30' : 'border-gray-200 dark:border-gray-700 hover:border-gray-400 dark:hover:border-gray-500'}
-                      ${uploadedImageData ? 'border-transparent hover:border-gray-400 dark:hover:border-gray-500' : ''}
-                      transition-all duration-200 ease-in-out`}
-          onDragOver={handleDragOver}
-          onDragLeave={handleDragLeave}
-          onDrop={handleDrop}
-          onClick={() => !uploadedImageData && document.getElementById('fileInput')?.click()} // Only allow click to upload if no image
-       >
-         {uploadedImageData ? (
-           <img src={uploadedImageData} alt="Original Upload" className="max-w-full max-h-full object-contain rounded shadow-sm"/>
-         ) : (
+       {garments.length === 0 ? (
+         /* Drop Zone - Takes full space */
+         <div
+            className={`flex-grow flex items-center justify-center p-1 rounded-md cursor-pointer border-2 border-dashed
+                        ${isDragging ? 'border-primary-500' : 'border-gray-200 dark:border-gray-700 hover:border-gray-400 dark:hover:border-gray-500'}
+                        transition-all duration-200 ease-in-out`}
+            onClick={() => fileInputRef.current?.click()}
+         >
            <div className="text-center text-gray-500 dark:text-gray-400 p-4 transition-colors duration-200">
               {/* Upload Icon */}
               <svg xmlns="http://www.w3.org/2000/svg" className="h-12 w-12 mx-auto text-gray-400 dark:text-gray-500 mb-2 transition-colors duration-200" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1}>
                 <path strokeLinecap="round" strokeLinejoin="round" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
               </svg>
-              <p className="font-semibold">{isDragging ? 'Drop image here' : 'Click or drag & drop image'}</p>
-              <p className="text-xs mt-1">({ACCEPTED_IMAGE_FORMATS.map((f: string) => f.split('/')[1].toUpperCase()).join(', ')} up to {MAX_FILE_SIZE_MB}MB)</p>
+              <p className="font-semibold">{isDragging ? 'Drop images here' : 'Click or drag & drop garment images'}</p>
+              <p className="text-xs mt-1">({ACCEPTED_IMAGE_FORMATS.map((f: string) => f.split('/')[1].toUpperCase()).join(', ')} up to {MAX_FILE_SIZE_MB}MB, up to {MAX_GARMENTS} garments)</p>
            </div>
-         )}
-       </div>
-       {/* Clear/Replace Button - More prominent, centered on hover */}
-       {uploadedImageData && (
-          <button
-              onClick={handleClearUpload}
-              className="absolute top-2 right-2 z-10 p-1.5 bg-black dark:bg-white bg-opacity-30 dark:bg-opacity-20 hover:bg-opacity-50 dark:hover:bg-opacity-30 text-white dark:text-gray-200 rounded-full opacity-0 group-hover:opacity-100 transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-red-500 dark:focus:ring-red-400 focus:ring-offset-2 dark:focus:ring-offset-gray-800"
-              aria-label="Clear uploaded image"
-          >
-               {/* Using a smaller trash icon */}
-               <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
-                 <path strokeLinecap="round" strokeLinejoin="round" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-               </svg>
-          </button>
+         </div>
+       ) : (
+         /* Garment tiles - one large image, or a grid for an outfit */
+         <div className={`flex-grow grid gap-3 ${garments.length === 1 ? 'grid-cols-1' : 'grid-cols-2'}`}>
+           {garments.map((garment, index) => (
+             <div key={garment.id} className="relative group flex flex-col border border-gray-200 dark:border-gray-700 rounded-md overflow-hidden bg-white dark:bg-gray-900 transition-colors duration-200">
+               <div className="relative flex-grow flex items-center justify-center p-1 min-h-[120px] bg-[repeating-conic-gradient(#e5e7eb_0_25%,transparent_0_50%)] bg-[length:16px_16px] dark:bg-[repeating-conic-gradient(#374151_0_25%,transparent_0_50%)]">
+                 <img
+                    src={showingOriginal.has(garment.id) ? garment.originalImageData : garment.imageData}
+                    alt={`Garment ${index + 1}: ${GARMENT_ROLE_LABELS[garment.role]}`}
+                    className={`max-w-full max-h-full object-contain rounded shadow-sm ${garment.isProcessing ? 'opacity-50' : ''}`}
+                 />
+                 {garment.isProcessing && (
+                   <span className="absolute inset-x-0 bottom-2 text-center text-xs font-medium text-gray-700 dark:text-gray-200">Cleaning up...</span>
+                 )}
+                 {!garment.isProcessing && garment.imageData !== garment.originalImageData && (
+                   <button
+                      type="button"
+                      onClick={() => toggleOriginal(garment.id)}
+                      className="absolute bottom-2 left-2 px-2 py-0.5 text-xs rounded bg-black bg-opacity-50 text-white hover:bg-opacity-70 transition-colors duration-200"
+                      aria-pressed={showingOriginal.has(garment.id)}
+                   >
+                     {showingOriginal.has(garment.id) ? 'Before' : 'After'}
+                   </button>
+                 )}
+               </div>
+               <p className="px-2 pt-1 text-xs text-gray-500 dark:text-gray-400 transition-colors duration-200">
+                 {formatBytes(garment.sourceBytes)} &rarr; {formatBytes(dataUrlBytes(garment.imageData))}
+               </p>
+               {garment.processingError && (
+                 <p className="px-2 pt-1 text-xs text-red-600 dark:text-red-400 transition-colors duration-200">Clean-up failed, using the original: {garment.processingError}</p>
+               )}
+               <div className="flex items-center gap-2 p-2 border-t border-gray-200 dark:border-gray-700 transition-colors duration-200">
+                 <span className="text-xs text-gray-500 dark:text-gray-400">{index + 1}.</span>
+                 <select
+                    value={garment.role}
+                    onChange={(event) => handleRoleChange(garment.id, event.target.value as GarmentRole)}
+                    aria-label={`Role of garment ${index + 1}`}
+                    className="flex-grow px-2 py-1 text-xs border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 rounded focus:outline-none focus:ring-primary-500 focus:border-primary-500 transition-colors duration-200"
+                 >
+                   {GARMENT_ROLES.map(role => (
+                     <option key={role} value={role}>{GARMENT_ROLE_LABELS[role]}</option>
+                   ))}
+                 </select>
+               </div>
+               {/* Remove Button - shown on hover */}
+               <button
+                   onClick={() => handleRemove(garment.id)}
+                   className="absolute top-2 right-2 z-10 p-1.5 bg-black dark:bg-white bg-opacity-30 dark:bg-opacity-20 hover:bg-opacity-50 dark:hover:bg-opacity-30 text-white dark:text-gray-200 rounded-full opacity-0 group-hover:opacity-100 transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-red-500 dark:focus:ring-red-400 focus:ring-offset-2 dark:focus:ring-offset-gray-800"
+                   aria-label={`Remove garment ${index + 1}`}
+               >
+                    {/* Using a smaller trash icon */}
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                      <path strokeLinecap="round" strokeLinejoin="round" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                    </svg>
+               </button>
+             </div>
+           ))}
+           {canAddMore && (
+             <button
+                type="button"
+                onClick={() => fileInputRef.current?.click()}
+                className={`flex flex-col items-center justify-center min-h-[120px] rounded-md border-2 border-dashed border-gray-200 dark:border-gray-700 hover:border-gray-400 dark:hover:border-gray-500 text-gray-500 dark:text-gray-400 text-sm transition-colors duration-200 ${garments.length === 1 ? 'py-3' : ''}`}
+             >
+               <span className="text-2xl leading-none">+</span>
+               <span>Add garment (top, bottom, shoes...)</span>
+             </button>
+           )}
+         </div>
        )}
-       {/* Upload Error Display - Positioned at the bottom - TODO: Decide if this should use internal state or prop */}
-       {/* {uploadErrorInternal && (
-          <div className="absolute bottom-2 left-2 right-2 p-1 bg-red-100 dark:bg-red-900/30 border border-red-400 dark:border-red-800 text-red-700 dark:text-red-300 text-xs rounded text-center transition-colors duration-200">
-              {uploadErrorInternal}
-          </div>
-        )} */}
     </div>
   );
 };
 
-export default ImageUploader;
\ No newline at end of file
+export default ImageUploader;
@@ -1,13 +1,74 @@
-import React from 'react';
+import React, { useEffect, useRef } from 'react';
+import { DEFAULT_IMAGE_VIEW, ImageViewState, zoomImageView } from '../utils/imageView';
 
 interface ImageViewerProps {
   imageUrl: string | null; // URL of the image to display
   isLoading: boolean; // To potentially show a different state while loading the *display*
+  alt?: string;
+  // Makes the image zoomable (wheel) and pannable (drag). Controlled, so several viewers can share one view.
+  view?: ImageViewState;
+  onViewChange?: (view: ImageViewState) => void;
 }
 
-const ImageViewer: React.FC<ImageViewerProps> = ({ imageUrl, isLoading }) => {
+const ImageViewer: React.FC<ImageViewerProps> = ({
+  imageUrl,
+  isLoading,
+  alt = 'Generated Fashion',
+  view = DEFAULT_IMAGE_VIEW,
+  onViewChange,
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragStartRef = useRef<{ pointerX: number; pointerY: number; view: ImageViewState } | null>(null);
+  // The wheel listener is registered once, so it reads the latest props from here
+  const latestRef = useRef({ view, onViewChange });
+  latestRef.current = { view, onViewChange };
+
+  const isZoomable = Boolean(onViewChange);
+
+  // React's onWheel is passive and can't stop the page from scrolling, hence the native listener
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || !isZoomable) return;
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const { view: current, onViewChange: notify } = latestRef.current;
+      notify?.(zoomImageView(current, event.deltaY < 0 ? 1.15 : 1 / 1.15));
+    };
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    return () => container.removeEventListener('wheel', handleWheel);
+  }, [isZoomable]);
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!isZoomable || view.zoom === 1) return; // Nothing to pan at 100%
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragStartRef.current = { pointerX: event.clientX, pointerY: event.clientY, view };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const dragStart = dragStartRef.current;
+    if (!dragStart || !onViewChange) return;
+    onViewChange({
+      ...dragStart.view,
+      offsetX: dragStart.view.offsetX + event.clientX - dragStart.pointerX,
+      offsetY: dragStart.view.offsetY + event.clientY - dragStart.pointerY,
+    });
+  };
+
+  const handlePointerUp = () => {
+    dragStartRef.current = null;
+  };
+
   return (
-    <div className="w-full h-full flex items-center justify-center bg-slate-50 dark:bg-gray-800 rounded min-h-[300px] md:min-h-[400px] lg:min-h-[500px] overflow-hidden transition-colors duration-200">
+    <div
+      ref={containerRef}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onDoubleClick={isZoomable ? () => onViewChange?.(DEFAULT_IMAGE_VIEW) : undefined}
+      className={`w-full h-full flex items-center justify-center bg-slate-50 dark:bg-gray-800 rounded min-h-[300px] md:min-h-[400px] lg:min-h-[500px] overflow-hidden transition-colors duration-200
+                  ${isZoomable && view.zoom > 1 ? 'cursor-grab active:cursor-grabbing touch-none' : ''}`}
+    >
       {isLoading && !imageUrl && (
          <p className="text-gray-500 dark:text-gray-400 animate-pulse transition-colors duration-200">
            Loading image...
@@ -16,8 +77,10 @@ const ImageViewer: React.FC<ImageViewerProps> = ({ imageUrl, isLoading }) => {
       {!isLoading && imageUrl && (
         <img
           src={imageUrl}
-          alt="Generated Fashion"
-          className="max-w-full max-h-full object-contain animate-fade-in"
+          alt={alt}
+          draggable={false}
+          style={isZoomable ? { transform: `translate(${view.offsetX}px, ${view.offsetY}px) scale(${view.zoom})` } : undefined}
+          className="max-w-full max-h-full object-contain animate-fade-in select-none"
         />
       )}
       {!isLoading && !imageUrl && (
@@ -29,4 +92,4 @@ const ImageViewer: React.FC<ImageViewerProps> = ({ imageUrl, isLoading }) => {
   );
 };
 
-export default ImageViewer;
\ No newline at end of file
+export default ImageViewer;
@@ -3,9 +3,10 @@ import React from 'react';
 interface LoadingIndicatorProps {
   isActive: boolean; // Controls visibility
   message?: string; // Optional message
+  detail?: string; // Optional secondary line, e.g. retry progress
 }
 
-const LoadingIndicator: React.FC<LoadingIndicatorProps> = ({ isActive, message = "Generating image, please wait..." }) => {
+const LoadingIndicator: React.FC<LoadingIndicatorProps> = ({ isActive, message = "Generating image, please wait...", detail }) => {
   if (!isActive) {
     return null; // Don't render anything if not active
   }
@@ -18,6 +19,9 @@ const LoadingIndicator: React.FC<LoadingIndicatorProps> = ({ isActive, message =
         <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
       </svg>
       <p className="text-primary-600 dark:text-primary-400 font-medium transition-colors duration-200">{message}</p>
+      {detail && (
+        <p className="text-sm text-amber-600 dark:text-amber-400 mt-1 transition-colors duration-200">{detail}</p>
+      )}
     </div>
   );
 };
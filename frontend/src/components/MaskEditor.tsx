@@ -0,0 +1,210 @@
+import React, { useRef, useState } from 'react';
+import { GenerationRecord, inpaintGeneration } from '../services/api';
+import {
+  MASK_BRUSH_SIZE_RANGE,
+  MaskPoint,
+  MaskTool,
+  clearCanvas,
+  hasPaint,
+  paintLasso,
+  paintStroke,
+  toMaskDataUrl,
+} from '../utils/inpaintMask';
+
+interface MaskEditorProps {
+  generationId: string;
+  imageUrl: string;
+  provider: string | null; // Selected provider; null lets the backend reuse the one that made the image
+  onInpainted: (record: GenerationRecord) => void;
+  onCancel: () => void;
+}
+
+const TOOL_LABELS: Record<MaskTool, string> = {
+  brush: 'Brush',
+  lasso: 'Lasso',
+  erase: 'Erase',
+};
+
+const buttonClassName = 'px-2 py-1 text-xs rounded border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200';
+const inputClassName = 'block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 dark:focus:ring-primary-400 focus:border-primary-500 dark:focus:border-primary-400 sm:text-sm disabled:opacity-50 transition-colors duration-200';
+
+// Paint the region to regenerate over the generated image - brush strokes or a lasso outline - and describe
+// what it should show. Only that region is regenerated; the result is saved as a refinement of the image.
+const MaskEditor: React.FC<MaskEditorProps> = ({ generationId, imageUrl, provider, onInpainted, onCancel }) => {
+  const [naturalSize, setNaturalSize] = useState<{ width: number; height: number } | null>(null);
+  const [tool, setTool] = useState<MaskTool>('brush');
+  const [brushSize, setBrushSize] = useState<number>(MASK_BRUSH_SIZE_RANGE.default);
+  const [isMaskEmpty, setIsMaskEmpty] = useState(true);
+  const [instruction, setInstruction] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const paintCanvasRef = useRef<HTMLCanvasElement>(null);
+  const previewCanvasRef = useRef<HTMLCanvasElement>(null); // Lasso outline while it is drawn
+  const strokeRef = useRef<MaskPoint[] | null>(null); // Points of the stroke in progress
+
+  const brushWidth = naturalSize ? (Math.max(naturalSize.width, naturalSize.height) * brushSize) / 100 : 0;
+
+  // Pointer position in image pixels; the canvases are displayed scaled
+  const toImagePoint = (event: React.PointerEvent<HTMLCanvasElement>): MaskPoint => {
+    const canvas = event.currentTarget;
+    const bounds = canvas.getBoundingClientRect();
+    return {
+      x: ((event.clientX - bounds.left) / bounds.width) * canvas.width,
+      y: ((event.clientY - bounds.top) / bounds.height) * canvas.height,
+    };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const paint = paintCanvasRef.current;
+    if (!paint || isSubmitting) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const point = toImagePoint(event);
+    strokeRef.current = [point];
+    if (tool !== 'lasso') paintStroke(paint, point, point, brushWidth, tool === 'erase');
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const stroke = strokeRef.current;
+    const paint = paintCanvasRef.current;
+    const preview = previewCanvasRef.current;
+    if (!stroke || !paint || !preview) return;
+    const point = toImagePoint(event);
+    if (tool === 'lasso') {
+      stroke.push(point);
+      clearCanvas(preview);
+      paintLasso(preview, stroke, { fill: false });
+    } else {
+      paintStroke(paint, stroke[stroke.length - 1], point, brushWidth, tool === 'erase');
+      stroke.push(point);
+    }
+  };
+
+  const handlePointerUp = () => {
+    const stroke = strokeRef.current;
+    const paint = paintCanvasRef.current;
+    const preview = previewCanvasRef.current;
+    strokeRef.current = null;
+    if (!stroke || !paint || !preview) return;
+    if (tool === 'lasso') {
+      clearCanvas(preview);
+      paintLasso(paint, stroke, { fill: true });
+    }
+    setIsMaskEmpty(!hasPaint(paint));
+  };
+
+  const handleClear = () => {
+    if (paintCanvasRef.current) clearCanvas(paintCanvasRef.current);
+    setIsMaskEmpty(true);
+  };
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const paint = paintCanvasRef.current;
+    const trimmed = instruction.trim();
+    if (!paint || isMaskEmpty || !trimmed || isSubmitting) return;
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const record = await inpaintGeneration(generationId, toMaskDataUrl(paint), trimmed, provider ?? undefined);
+      onInpainted(record);
+    } catch (inpaintError) {
+      console.error('Inpainting failed:', inpaintError);
+      setError(inpaintError instanceof Error ? inpaintError.message : 'Inpainting failed.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const canvasProps = naturalSize ? { width: naturalSize.width, height: naturalSize.height } : {};
+
+  return (
+    <div className="w-full space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="inline-flex rounded-md shadow-sm text-xs" role="group" aria-label="Mask tool">
+          {(Object.keys(TOOL_LABELS) as MaskTool[]).map(option => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setTool(option)}
+              aria-pressed={tool === option}
+              className={`px-2 py-1 border border-gray-300 dark:border-gray-600 first:rounded-l-md last:rounded-r-md transition-colors duration-200
+                          ${tool === option
+                            ? 'bg-primary-600 dark:bg-primary-700 text-white'
+                            : 'bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-600'}`}
+            >
+              {TOOL_LABELS[option]}
+            </button>
+          ))}
+        </div>
+        {tool !== 'lasso' && (
+          <label className="inline-flex items-center gap-1 text-xs text-gray-600 dark:text-gray-300">
+            Size
+            <input
+              type="range"
+              min={MASK_BRUSH_SIZE_RANGE.min}
+              max={MASK_BRUSH_SIZE_RANGE.max}
+              value={brushSize}
+              onChange={(event) => setBrushSize(Number(event.target.value))}
+              className="w-24 accent-primary-600"
+            />
+          </label>
+        )}
+        <button type="button" onClick={handleClear} disabled={isMaskEmpty || isSubmitting} className={buttonClassName}>Clear</button>
+        <button type="button" onClick={onCancel} disabled={isSubmitting} className={`${buttonClassName} ml-auto`}>Cancel</button>
+      </div>
+
+      <div className="flex justify-center bg-slate-50 dark:bg-gray-800 rounded transition-colors duration-200">
+        <div className="relative inline-block">
+          <img
+            src={imageUrl}
+            alt="Image to edit"
+            draggable={false}
+            onLoad={(event) => setNaturalSize({ width: event.currentTarget.naturalWidth, height: event.currentTarget.naturalHeight })}
+            className="block max-w-full max-h-[70vh] select-none"
+          />
+          {naturalSize && (
+            <>
+              <canvas ref={paintCanvasRef} {...canvasProps} className="absolute inset-0 w-full h-full opacity-50 pointer-events-none" />
+              <canvas
+                ref={previewCanvasRef}
+                {...canvasProps}
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerUp}
+                className="absolute inset-0 w-full h-full cursor-crosshair touch-none"
+                aria-label="Paint the region to regenerate"
+              />
+            </>
+          )}
+        </div>
+      </div>
+      <p className="text-xs text-gray-500 dark:text-gray-400 transition-colors duration-200">
+        Paint over the part to regenerate, such as the face, the hands or the background. Leave the garment unpainted to keep it as it is.
+      </p>
+
+      <form onSubmit={handleSubmit} className="flex gap-2">
+        <input
+          type="text"
+          value={instruction}
+          onChange={(event) => setInstruction(event.target.value)}
+          placeholder="What the painted region should show, e.g. relaxed hands"
+          maxLength={1000}
+          disabled={isSubmitting}
+          className={inputClassName}
+          aria-label="Region instruction"
+        />
+        <button
+          type="submit"
+          disabled={isMaskEmpty || !instruction.trim() || isSubmitting}
+          className="px-3 py-2 text-sm rounded-md bg-primary-600 dark:bg-primary-700 text-white hover:bg-primary-700 dark:hover:bg-primary-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200 whitespace-nowrap"
+        >
+          {isSubmitting ? 'Regenerating...' : 'Regenerate region'}
+        </button>
+      </form>
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default MaskEditor;
@@ -0,0 +1,168 @@
+import React, { useEffect, useState } from 'react';
+import { API_BASE_URL } from '../constants';
+import useSettingsStore from '../store/settingsStore';
+import useIdentityStore from '../store/identityStore';
+import { deleteIdentity, listIdentities, updateIdentity } from '../services/api';
+import { applyIdentityAttributes } from '../utils/modelIdentity';
+
+const inputClassName = 'block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 dark:focus:ring-primary-400 focus:border-primary-500 dark:focus:border-primary-400 sm:text-sm transition-colors duration-200';
+const buttonClassName = 'px-2 py-1 text-xs rounded border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200';
+
+interface Status {
+  tone: 'info' | 'error';
+  text: string;
+}
+
+// Keep the same person across generations: pick a model identity saved from an earlier image.
+// Selecting one applies its attributes; generations then send its reference crop along with the garments.
+const ModelIdentityPicker: React.FC = () => {
+  const identityId = useSettingsStore(state => state.identityId);
+  const setIdentityId = useSettingsStore(state => state.setIdentityId);
+  const modelSettings = useSettingsStore(state => state.modelSettings);
+  const setModelSettings = useSettingsStore(state => state.setModelSettings);
+  const identities = useIdentityStore(state => state.identities);
+  const isLoaded = useIdentityStore(state => state.isLoaded);
+  const setIdentities = useIdentityStore(state => state.setIdentities);
+  const upsertIdentity = useIdentityStore(state => state.upsertIdentity);
+  const removeIdentity = useIdentityStore(state => state.removeIdentity);
+
+  const [isAvailable, setIsAvailable] = useState(true);
+  const [name, setName] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [status, setStatus] = useState<Status | null>(null);
+
+  useEffect(() => {
+    if (isLoaded) return;
+    let isCancelled = false;
+    listIdentities()
+      .then(loaded => {
+        if (!isCancelled) setIdentities(loaded);
+      })
+      .catch(error => {
+        console.error('Failed to load model identities:', error);
+        if (!isCancelled) setIsAvailable(false);
+      });
+    return () => {
+      isCancelled = true;
+    };
+  }, [isLoaded, setIdentities]);
+
+  const selected = identities.find(identity => identity.id === identityId);
+
+  // An identity deleted elsewhere (or in another tab) can't be sent with a generation
+  useEffect(() => {
+    if (isLoaded && identityId && !selected) setIdentityId(null);
+  }, [isLoaded, identityId, selected, setIdentityId]);
+
+  useEffect(() => {
+    setName(selected?.name ?? '');
+  }, [selected?.name]);
+
+  const trimmedName = name.trim();
+
+  // Runs an action, reporting its outcome (or error) under the buttons
+  const run = async (action: () => Promise<string>) => {
+    setIsBusy(true);
+    try {
+      setStatus({ tone: 'info', text: await action() });
+    } catch (error) {
+      console.error('Model identity action failed:', error);
+      setStatus({ tone: 'error', text: error instanceof Error ? error.message : 'Model identity action failed.' });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSelect = (event: React.ChangeEvent<HTMLSelectElement>) => {
+    const identity = identities.find(option => option.id === event.target.value);
+    setStatus(null);
+    setIdentityId(identity?.id ?? null);
+    if (identity) setModelSettings(applyIdentityAttributes(modelSettings, identity));
+  };
+
+  const handleRename = () => run(async () => {
+    const updated = await updateIdentity(selected!.id, { name: trimmedName });
+    upsertIdentity(updated);
+    return `Renamed to "${updated.name}".`;
+  });
+
+  // Stores the current attributes (hair, build, ...) with the identity, for when it is selected again
+  const handleUpdateAttributes = () => run(async () => {
+    const updated = await updateIdentity(selected!.id, { modelSettings });
+    upsertIdentity(updated);
+    return `Updated the attributes of "${updated.name}".`;
+  });
+
+  const handleDelete = () => {
+    if (!window.confirm(`Delete the model identity "${selected!.name}"? Images already generated with it are kept.`)) return;
+    run(async () => {
+      await deleteIdentity(selected!.id);
+      removeIdentity(selected!.id);
+      setIdentityId(null);
+      return `Deleted "${selected!.name}".`;
+    });
+  };
+
+  if (!isAvailable) {
+    return <p className="text-xs text-gray-500 dark:text-gray-400">Model identities are unavailable: the backend could not be reached.</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-start gap-3">
+        <div className="flex-1 min-w-0">
+          <label htmlFor="modelIdentity" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1 transition-colors duration-200">
+            Model identity
+          </label>
+          <select id="modelIdentity" value={selected?.id ?? ''} onChange={handleSelect} disabled={isBusy} className={inputClassName}>
+            <option value="">None (a new person each time)</option>
+            {identities.map(identity => <option key={identity.id} value={identity.id}>{identity.name}</option>)}
+          </select>
+        </div>
+        {selected && (
+          <img
+            src={`${API_BASE_URL}${selected.referenceImagePath}`}
+            alt={`Reference for ${selected.name}`}
+            className="w-14 h-14 object-cover rounded border border-gray-300 dark:border-gray-600 flex-shrink-0"
+          />
+        )}
+      </div>
+      {identities.length === 0 && isLoaded && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">Save the model of a generated image as an identity to reuse them across a collection.</p>
+      )}
+
+      {selected && (
+        <>
+          <input
+            type="text"
+            value={name}
+            maxLength={100}
+            onChange={(event) => setName(event.target.value)}
+            aria-label="Identity name"
+            className={inputClassName}
+          />
+          <div className="flex flex-wrap gap-2">
+            <button
+              type="button"
+              onClick={handleRename}
+              disabled={!trimmedName || trimmedName === selected.name || isBusy}
+              className={buttonClassName}
+            >
+              Rename
+            </button>
+            <button type="button" onClick={handleUpdateAttributes} disabled={isBusy} className={buttonClassName}>Update with current</button>
+            <button type="button" onClick={handleDelete} disabled={isBusy} className={buttonClassName}>Delete</button>
+          </div>
+        </>
+      )}
+
+      {status && (
+        <p className={`text-xs transition-colors duration-200 ${status.tone === 'error' ? 'text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'}`}>
+          {status.text}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ModelIdentityPicker;
@@ -1,7 +1,20 @@
 import React from 'react';
+import type { ModelSettings as ModelSettingsState } from 'shared';
 import CollapsibleSection from './CollapsibleSection';
+import ModelIdentityPicker from './ModelIdentityPicker';
 import VisualOptionSelector, { VisualOption } from './VisualOptionSelector';
 import useSettingsStore from '../store/settingsStore';
+import {
+  GENDER_OPTIONS,
+  BODY_TYPE_OPTIONS,
+  AGE_RANGE_OPTIONS,
+  ETHNICITY_OPTIONS,
+  HAIR_STYLE_OPTIONS,
+  HAIR_COLOR_OPTIONS,
+  HEIGHT_OPTIONS,
+  POSE_OPTIONS,
+  ACCESSORIES_OPTIONS,
+} from '../constants';
 
 // Import Material Icons (using filled style)
 // Note: Adjust paths if your setup requires specific import methods for SVGs
@@ -14,27 +27,6 @@ import IconViewHeadline from '@material-design-icons/svg/filled/view_headline.sv
 import IconRadioButtonChecked from '@material-design-icons/svg/filled/radio_button_checked.svg'; // Placeholder for Bun
 import IconMoreVert from '@material-design-icons/svg/filled/more_vert.svg'; // Placeholder for Ponytail
 
-// Define options based on PRD (Section 3.2)
-const GENDER_OPTIONS = ['Female', 'Male', 'Androgynous'];
-const BODY_TYPE_OPTIONS = ['Slim', 'Average', 'Athletic', 'Curvy', 'Plus-size'];
-const AGE_RANGE_OPTIONS = ['18-25', '26-35', '36-45', '46-55', '55+'];
-const ETHNICITY_OPTIONS = [
-  'Caucasian',
-  'Black/African Descent',
-  'East Asian',
-  'South Asian',
-  'Hispanic/Latino',
-  'Middle Eastern',
-  'Mixed-race',
-];
-
-// New options for enhanced customization
-const HAIR_STYLE_OPTIONS = ['Short', 'Medium', 'Long', 'Curly', 'Straight', 'Wavy', 'Braided', 'Bun', 'Ponytail'];
-const HAIR_COLOR_OPTIONS = ['Black', 'Brown', 'Blonde', 'Red', 'Gray', 'White', 'Colorful'];
-const HEIGHT_OPTIONS = ['Short', 'Average', 'Tall'];
-const POSE_OPTIONS = ['Standing', 'Sitting', 'Walking', 'Casual Pose', 'Fashion Pose'];
-const ACCESSORIES_OPTIONS = ['None', 'Glasses', 'Jewelry', 'Hat', 'Scarf', 'Multiple'];
-
 // --- Visual Options Definitions ---
 
 // Helper function to create icon components (adjust size/styling as needed)
@@ -79,19 +71,6 @@ const HAIR_COLOR_VISUAL_OPTIONS: VisualOption[] = HAIR_COLOR_OPTIONS.map(color =
   ),
 }));
 
-// Interface for the component's state
-export interface ModelSettingsState {
-  gender: string;
-  bodyType: string;
-  ageRange: string;
-  ethnicity: string;
-  hairStyle: string;
-  hairColor: string;
-  height: string;
-  pose: string;
-  accessories: string;
-}
-
 // Props are no longer needed as state comes from the store
 // interface ModelSettingsProps { ... }
 
@@ -160,6 +139,9 @@ const ModelSettings: React.FC = () => { // Removed props
     <div className="mb-4 space-y-4">
       <h3 className="text-lg font-medium leading-6 text-gray-900 dark:text-gray-100 mb-2 transition-colors duration-200">Model Customization</h3>
 
+      {/* Saved identity: the same person across generations */}
+      <ModelIdentityPicker />
+
       {/* Basic Characteristics Section */}
       <CollapsibleSection title="Basic Characteristics" defaultOpen={true}>
         <div className="space-y-3">
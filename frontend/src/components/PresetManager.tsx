@@ -0,0 +1,280 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { BUILT_IN_PRESETS, PRESET_FILE_FORMAT, PresetFile, PresetFileSchema } from 'shared';
+import CollapsibleSection from './CollapsibleSection';
+import useSettingsStore from '../store/settingsStore';
+import usePresetStore from '../store/presetStore';
+import {
+  SettingsPreset,
+  createTeamPreset,
+  deleteTeamPreset,
+  importTeamPresets,
+  listTeamPresets,
+  updateTeamPreset,
+} from '../services/api';
+
+const inputClassName = 'block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 dark:focus:ring-primary-400 focus:border-primary-500 dark:focus:border-primary-400 sm:text-sm transition-colors duration-200';
+const labelClassName = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1 transition-colors duration-200';
+const buttonClassName = 'px-2 py-1 text-xs rounded border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200';
+
+type Library = 'local' | 'team'; // Where new, duplicated and imported presets go
+
+interface Status {
+  tone: 'info' | 'error';
+  text: string;
+}
+
+const sortByName = (presets: SettingsPreset[]) => presets.slice().sort((a, b) => a.name.localeCompare(b.name));
+
+// Save the current settings as named presets and apply them later.
+// Built-in presets are read-only; "My presets" stay in this browser and the team library is stored by the backend.
+const PresetManager: React.FC = () => {
+  const modelSettings = useSettingsStore(state => state.modelSettings);
+  const environmentSettings = useSettingsStore(state => state.environmentSettings);
+  const restoreSettings = useSettingsStore(state => state.restoreSettings);
+  const localPresets = usePresetStore(state => state.presets);
+  const addPresets = usePresetStore(state => state.addPresets);
+  const updatePreset = usePresetStore(state => state.updatePreset);
+  const deletePreset = usePresetStore(state => state.deletePreset);
+
+  const [teamPresets, setTeamPresets] = useState<SettingsPreset[]>([]);
+  const [isTeamAvailable, setIsTeamAvailable] = useState(true);
+  const [selectedId, setSelectedId] = useState('');
+  const [name, setName] = useState('');
+  const [library, setLibrary] = useState<Library>('local');
+  const [isBusy, setIsBusy] = useState(false);
+  const [status, setStatus] = useState<Status | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    let isCancelled = false;
+    listTeamPresets()
+      .then(presets => {
+        if (!isCancelled) setTeamPresets(presets);
+      })
+      .catch(error => {
+        console.error('Failed to load team presets:', error);
+        if (!isCancelled) setIsTeamAvailable(false);
+      });
+    return () => {
+      isCancelled = true;
+    };
+  }, []);
+
+  const builtIn = BUILT_IN_PRESETS.find(preset => preset.id === selectedId);
+  const local = localPresets.find(preset => preset.id === selectedId);
+  const team = teamPresets.find(preset => preset.id === selectedId);
+  const selected = builtIn ?? local ?? team;
+  const trimmedName = name.trim();
+
+  // Runs an action, reporting its outcome (or error) under the buttons
+  const run = async (action: () => Promise<string> | string) => {
+    setIsBusy(true);
+    try {
+      setStatus({ tone: 'info', text: await action() });
+    } catch (error) {
+      console.error('Preset action failed:', error);
+      setStatus({ tone: 'error', text: error instanceof Error ? error.message : 'Preset action failed.' });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const select = (preset: SettingsPreset) => {
+    setSelectedId(preset.id);
+    setName(preset.name);
+  };
+
+  // Adds presets to the chosen library and returns the stored copies
+  const addToLibrary = async (presets: { name: string; settings: SettingsPreset['settings'] }[]) => {
+    if (library === 'local') return addPresets(presets);
+    const created = await Promise.all(presets.map(preset => createTeamPreset(preset)));
+    setTeamPresets(current => sortByName([...current, ...created]));
+    return created;
+  };
+
+  const libraryLabel = library === 'local' ? 'My presets' : 'the team library';
+
+  const handleApply = () => run(() => {
+    restoreSettings(selected!.settings);
+    return `Applied "${selected!.name}".`;
+  });
+
+  const handleSaveAsNew = () => run(async () => {
+    const [created] = await addToLibrary([{ name: trimmedName, settings: { modelSettings, environmentSettings } }]);
+    select(created);
+    return `Saved "${created.name}" to ${libraryLabel}.`;
+  });
+
+  const handleOverwrite = () => run(async () => {
+    const settings = { modelSettings, environmentSettings };
+    if (local) {
+      updatePreset(local.id, { settings });
+    } else {
+      const updated = await updateTeamPreset(team!.id, { settings });
+      setTeamPresets(current => current.map(preset => (preset.id === updated.id ? updated : preset)));
+    }
+    return `Updated "${selected!.name}" with the current settings.`;
+  });
+
+  const handleRename = () => run(async () => {
+    if (local) {
+      updatePreset(local.id, { name: trimmedName });
+    } else {
+      const updated = await updateTeamPreset(team!.id, { name: trimmedName });
+      setTeamPresets(current => sortByName(current.map(preset => (preset.id === updated.id ? updated : preset))));
+    }
+    return `Renamed to "${trimmedName}".`;
+  });
+
+  const handleDuplicate = () => run(async () => {
+    const [created] = await addToLibrary([{ name: `${selected!.name} (copy)`, settings: selected!.settings }]);
+    select(created);
+    return `Duplicated to ${libraryLabel} as "${created.name}".`;
+  });
+
+  const handleDelete = () => {
+    if (!window.confirm(`Delete the preset "${selected!.name}"?${team ? ' It will be removed for the whole team.' : ''}`)) return;
+    run(async () => {
+      if (local) {
+        deletePreset(local.id);
+      } else {
+        await deleteTeamPreset(team!.id);
+        setTeamPresets(current => current.filter(preset => preset.id !== team!.id));
+      }
+      setSelectedId('');
+      setName('');
+      return `Deleted "${selected!.name}".`;
+    });
+  };
+
+  // Downloads the chosen library as a preset file
+  const handleExport = () => run(() => {
+    const presets = library === 'local' ? localPresets : teamPresets;
+    if (presets.length === 0) throw new Error(`There are no presets in ${libraryLabel} to export.`);
+    const file: PresetFile = { format: PRESET_FILE_FORMAT, version: 1, presets: presets.map(({ name, settings }) => ({ name, settings })) };
+    const url = URL.createObjectURL(new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = library === 'local' ? 'my-presets.json' : 'team-presets.json';
+    link.click();
+    URL.revokeObjectURL(url);
+    return `Exported ${presets.length} preset${presets.length === 1 ? '' : 's'}.`;
+  });
+
+  // Imported presets are always added as new presets, never merged into existing ones
+  const handleImportFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Allow importing the same file again
+    if (!file) return;
+    run(async () => {
+      let data: unknown;
+      try {
+        data = JSON.parse(await file.text());
+      } catch {
+        throw new Error(`${file.name} is not valid JSON.`);
+      }
+      const parsed = PresetFileSchema.safeParse(data);
+      if (!parsed.success) throw new Error(`${file.name} is not a valid preset file.`);
+      const added = library === 'local'
+        ? addPresets(parsed.data.presets)
+        : await importTeamPresets(parsed.data).then(created => {
+          setTeamPresets(current => sortByName([...current, ...created]));
+          return created;
+        });
+      return `Imported ${added.length} preset${added.length === 1 ? '' : 's'} into ${libraryLabel}.`;
+    });
+  };
+
+  const isEditable = Boolean(local || team);
+
+  return (
+    <CollapsibleSection title="Presets">
+      <div className="space-y-3">
+        <div>
+          <label htmlFor="preset" className={labelClassName}>Preset</label>
+          <select
+            id="preset"
+            value={selectedId}
+            onChange={(event) => {
+              const preset = [...BUILT_IN_PRESETS, ...localPresets, ...teamPresets].find(option => option.id === event.target.value);
+              if (preset) select(preset);
+              else setSelectedId('');
+            }}
+            className={inputClassName}
+          >
+            <option value="">Choose a preset...</option>
+            <optgroup label="Built-in">
+              {BUILT_IN_PRESETS.map(preset => <option key={preset.id} value={preset.id}>{preset.name}</option>)}
+            </optgroup>
+            {localPresets.length > 0 && (
+              <optgroup label="My presets">
+                {localPresets.map(preset => <option key={preset.id} value={preset.id}>{preset.name}</option>)}
+              </optgroup>
+            )}
+            {teamPresets.length > 0 && (
+              <optgroup label="Team library">
+                {teamPresets.map(preset => <option key={preset.id} value={preset.id}>{preset.name}</option>)}
+              </optgroup>
+            )}
+          </select>
+          <div className="flex flex-wrap gap-2 mt-2">
+            <button type="button" onClick={handleApply} disabled={!selected || isBusy} className={buttonClassName}>Apply</button>
+            <button type="button" onClick={handleOverwrite} disabled={!isEditable || isBusy} className={buttonClassName}>Update with current</button>
+            <button type="button" onClick={handleDuplicate} disabled={!selected || isBusy} className={buttonClassName}>Duplicate</button>
+            <button type="button" onClick={handleDelete} disabled={!isEditable || isBusy} className={buttonClassName}>Delete</button>
+          </div>
+        </div>
+
+        <div>
+          <label htmlFor="presetName" className={labelClassName}>Name</label>
+          <input
+            type="text"
+            id="presetName"
+            value={name}
+            maxLength={100}
+            onChange={(event) => setName(event.target.value)}
+            placeholder="e.g., 'Summer lookbook'"
+            className={inputClassName}
+          />
+          <div className="flex flex-wrap gap-2 mt-2">
+            <button type="button" onClick={handleSaveAsNew} disabled={!trimmedName || isBusy} className={buttonClassName}>Save current as new</button>
+            <button
+              type="button"
+              onClick={handleRename}
+              disabled={!isEditable || !trimmedName || trimmedName === selected?.name || isBusy}
+              className={buttonClassName}
+            >
+              Rename
+            </button>
+          </div>
+        </div>
+
+        <div>
+          <label htmlFor="presetLibrary" className={labelClassName}>Save, duplicate, import and export with</label>
+          <select
+            id="presetLibrary"
+            value={library}
+            onChange={(event) => setLibrary(event.target.value as Library)}
+            className={inputClassName}
+          >
+            <option value="local">My presets (this browser)</option>
+            <option value="team" disabled={!isTeamAvailable}>Team library{isTeamAvailable ? '' : ' (unavailable)'}</option>
+          </select>
+          <div className="flex flex-wrap gap-2 mt-2">
+            <button type="button" onClick={() => fileInputRef.current?.click()} disabled={isBusy} className={buttonClassName}>Import file...</button>
+            <button type="button" onClick={handleExport} disabled={isBusy} className={buttonClassName}>Export</button>
+            <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImportFile} className="hidden" />
+          </div>
+        </div>
+
+        {status && (
+          <p className={`text-xs transition-colors duration-200 ${status.tone === 'error' ? 'text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'}`}>
+            {status.text}
+          </p>
+        )}
+      </div>
+    </CollapsibleSection>
+  );
+};
+
+export default PresetManager;
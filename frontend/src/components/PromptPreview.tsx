@@ -0,0 +1,158 @@
+import React, { useEffect, useState } from 'react';
+import CollapsibleSection from './CollapsibleSection';
+import useSettingsStore, { toPromptOverride } from '../store/settingsStore';
+import useGenerationStore from '../store/generationStore';
+import { GarmentRole, previewPrompt } from '../services/api';
+import { PROMPT_PREVIEW_DEBOUNCE_MS } from '../constants';
+
+const inputClassName = 'block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 dark:focus:ring-primary-400 focus:border-primary-500 dark:focus:border-primary-400 sm:text-sm transition-colors duration-200';
+const labelClassName = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1 transition-colors duration-200';
+
+interface Preview {
+  prompt: string; // Final prompt, expert-mode edits included
+  generatedPrompt: string; // Template output alone
+  templateVersion: string;
+}
+
+// Live preview of the prompt the backend would build from the current settings.
+// Expert mode lets users edit it, append instructions and list things to avoid; the edits are sent with generations.
+const PromptPreview: React.FC = () => {
+  const modelSettings = useSettingsStore(state => state.modelSettings);
+  const environmentSettings = useSettingsStore(state => state.environmentSettings);
+  const expertMode = useSettingsStore(state => state.expertMode);
+  const promptEdits = useSettingsStore(state => state.promptEdits);
+  const setExpertMode = useSettingsStore(state => state.setExpertMode);
+  const setPromptEdits = useSettingsStore(state => state.setPromptEdits);
+  const resetPromptEdits = useSettingsStore(state => state.resetPromptEdits);
+  const uploadedGarments = useGenerationStore(state => state.uploadedGarments);
+  // Joined so the preview only refetches when the roles change, not when an image is replaced
+  const garmentRoleKey = uploadedGarments.map(garment => garment.role).join(',');
+
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+
+  // Re-render on the backend shortly after the settings or edits stop changing
+  useEffect(() => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      previewPrompt({
+        settings: { modelSettings, environmentSettings },
+        promptOverride: expertMode ? toPromptOverride(promptEdits) : undefined,
+        ...(garmentRoleKey && { garmentRoles: garmentRoleKey.split(',') as GarmentRole[] }),
+      }, controller.signal)
+        .then(result => {
+          setPreview(result);
+          setPreviewError(null);
+        })
+        .catch(error => {
+          if (controller.signal.aborted) return;
+          console.error('Prompt preview failed:', error);
+          setPreviewError(error instanceof Error ? error.message : 'Could not load the prompt preview.');
+        });
+    }, PROMPT_PREVIEW_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [modelSettings, environmentSettings, expertMode, promptEdits, garmentRoleKey]);
+
+  const isPromptEdited = promptEdits.prompt !== null;
+
+  return (
+    <CollapsibleSection title="Prompt Preview">
+      <div className="space-y-3">
+        <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 transition-colors duration-200">
+          <input
+            type="checkbox"
+            checked={expertMode}
+            onChange={(event) => setExpertMode(event.target.checked)}
+            className="rounded border-gray-300 dark:border-gray-600 text-primary-600 focus:ring-primary-500"
+          />
+          Expert mode (edit the prompt)
+        </label>
+
+        {previewError && (
+          <p className="text-xs text-red-600 dark:text-red-400 transition-colors duration-200">{previewError}</p>
+        )}
+
+        {expertMode ? (
+          <>
+            <div>
+              <div className="flex justify-between items-center mb-1">
+                <label htmlFor="promptEdit" className={labelClassName}>Prompt</label>
+                {isPromptEdited && (
+                  <button
+                    type="button"
+                    onClick={() => setPromptEdits({ prompt: null })}
+                    className="text-xs text-primary-600 dark:text-primary-400 hover:underline"
+                  >
+                    Reset to generated
+                  </button>
+                )}
+              </div>
+              <textarea
+                id="promptEdit"
+                rows={8}
+                value={promptEdits.prompt ?? preview?.generatedPrompt ?? ''}
+                onChange={(event) => setPromptEdits({ prompt: event.target.value })}
+                className={`${inputClassName} font-mono text-xs`}
+              />
+              {isPromptEdited && (
+                <p className="text-xs text-amber-600 dark:text-amber-400 mt-1 transition-colors duration-200">
+                  Edited: settings changes no longer update this prompt until you reset it.
+                </p>
+              )}
+            </div>
+            <div>
+              <label htmlFor="extraInstructions" className={labelClassName}>Extra instructions</label>
+              <textarea
+                id="extraInstructions"
+                rows={2}
+                value={promptEdits.extraInstructions}
+                onChange={(event) => setPromptEdits({ extraInstructions: event.target.value })}
+                placeholder="e.g., 'Soft film grain, muted colors'"
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label htmlFor="avoid" className={labelClassName}>Avoid</label>
+              <input
+                type="text"
+                id="avoid"
+                value={promptEdits.avoid}
+                onChange={(event) => setPromptEdits({ avoid: event.target.value })}
+                placeholder="e.g., 'logos, jewelry, busy backgrounds'"
+                className={inputClassName}
+              />
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1 transition-colors duration-200">Separate items with commas.</p>
+            </div>
+            <button
+              type="button"
+              onClick={resetPromptEdits}
+              className="text-xs text-gray-600 dark:text-gray-400 hover:underline"
+            >
+              Clear all edits
+            </button>
+            <div>
+              <h4 className={labelClassName}>Final prompt</h4>
+              <pre className="p-2 bg-gray-100 dark:bg-gray-900 rounded text-xs text-gray-700 dark:text-gray-300 whitespace-pre-wrap break-words max-h-48 overflow-y-auto transition-colors duration-200">
+                {preview?.prompt ?? 'Loading...'}
+              </pre>
+            </div>
+          </>
+        ) : (
+          <pre className="p-2 bg-gray-100 dark:bg-gray-900 rounded text-xs text-gray-700 dark:text-gray-300 whitespace-pre-wrap break-words max-h-64 overflow-y-auto transition-colors duration-200">
+            {preview?.generatedPrompt ?? 'Loading...'}
+          </pre>
+        )}
+
+        {preview && (
+          <p className="text-xs text-gray-500 dark:text-gray-400 transition-colors duration-200">Template {preview.templateVersion}</p>
+        )}
+      </div>
+    </CollapsibleSection>
+  );
+};
+
+export default PromptPreview;
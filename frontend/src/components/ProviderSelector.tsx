@@ -0,0 +1,68 @@
+import React, { useEffect, useState } from 'react';
+import useSettingsStore from '../store/settingsStore';
+import { listProviders, ProviderInfo } from '../services/api';
+
+// Picks the image-generation provider from those the backend advertises.
+// Hidden until the list loads; generation falls back to the backend's default meanwhile.
+const ProviderSelector: React.FC = () => {
+  const provider = useSettingsStore(state => state.provider);
+  const setProvider = useSettingsStore(state => state.setProvider);
+  const [providers, setProviders] = useState<ProviderInfo[]>([]);
+  const [defaultProvider, setDefaultProvider] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isCancelled = false;
+    listProviders()
+      .then(result => {
+        if (isCancelled) return;
+        setProviders(result.providers);
+        setDefaultProvider(result.defaultProvider);
+      })
+      .catch(error => console.error('Failed to load image providers:', error));
+    return () => {
+      isCancelled = true;
+    };
+  }, []);
+
+  // A saved choice the backend no longer offers falls back to its default
+  useEffect(() => {
+    if (provider && providers.length > 0 && !providers.some(option => option.id === provider)) {
+      setProvider(null);
+    }
+  }, [provider, providers, setProvider]);
+
+  if (providers.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mb-3">
+      <label htmlFor="provider" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1 transition-colors duration-200">
+        Image model
+      </label>
+      <div className="relative mt-1">
+        <select
+          id="provider"
+          name="provider"
+          value={provider ?? defaultProvider ?? ''}
+          onChange={(event) => setProvider(event.target.value === defaultProvider ? null : event.target.value)}
+          className="appearance-none block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 dark:focus:ring-primary-400 focus:border-primary-500 dark:focus:border-primary-400 sm:text-sm transition-colors duration-200"
+        >
+          {providers.map(option => (
+            <option key={option.id} value={option.id}>
+              {option.label}{option.id === defaultProvider ? ' (default)' : ''}
+            </option>
+          ))}
+        </select>
+        {/* Custom dropdown arrow */}
+        <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2 text-gray-700 dark:text-gray-300 transition-colors duration-200">
+          <svg className="fill-current h-4 w-4" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20">
+            <path d="M9.293 12.95l.707.707L15.657 8l-1.414-1.414L10 10.828 5.757 6.586 4.343 8z"/>
+          </svg>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProviderSelector;
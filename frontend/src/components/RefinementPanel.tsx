@@ -0,0 +1,159 @@
+import React, { useEffect, useState } from 'react';
+import { MAX_REFINEMENT_DEPTH } from 'shared';
+import { GenerationRecord, RefinementChain, getRefinementChain, refineGeneration } from '../services/api';
+
+interface RefinementPanelProps {
+  generationId: string; // The displayed image
+  apiBaseUrl: string;
+  provider: string | null; // Selected provider; null lets the backend reuse the one that made the image
+  onRefined: (record: GenerationRecord) => void;
+  onNavigate: (record: GenerationRecord) => void; // Show another step of the chain
+  onEditRegion?: () => void; // Opens the mask editor for inpainting
+}
+
+const inputClassName = 'block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 dark:focus:ring-primary-400 focus:border-primary-500 dark:focus:border-primary-400 sm:text-sm disabled:opacity-50 transition-colors duration-200';
+
+// The displayed generation and its ancestors, original first. The chain leaves out trashed
+// generations, so the walk stops at the first missing parent.
+const lineageOf = (chain: RefinementChain, generationId: string): GenerationRecord[] => {
+  const byId = new Map(chain.items.map(record => [record.generationId, record]));
+  const lineage: GenerationRecord[] = [];
+  for (let record = byId.get(generationId); record; record = record.parentGenerationId ? byId.get(record.parentGenerationId) : undefined) {
+    lineage.unshift(record);
+  }
+  return lineage;
+};
+
+// Follow-up edits of the displayed image ("make the jacket red"), and the chain of edits that led to it.
+// Each refinement is a new generation; any step can be shown again or refined in another direction.
+const RefinementPanel: React.FC<RefinementPanelProps> = ({ generationId, apiBaseUrl, provider, onRefined, onNavigate, onEditRegion }) => {
+  const [chain, setChain] = useState<RefinementChain | null>(null);
+  const [instruction, setInstruction] = useState('');
+  const [isRefining, setIsRefining] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isCancelled = false;
+    setError(null);
+    getRefinementChain(generationId)
+      .then(loaded => {
+        if (!isCancelled) setChain(loaded);
+      })
+      .catch(loadError => {
+        console.error('Failed to load the refinement chain:', loadError);
+        if (!isCancelled) setChain(null);
+      });
+    return () => {
+      isCancelled = true;
+    };
+  }, [generationId]);
+
+  const lineage = chain ? lineageOf(chain, generationId) : [];
+  const branches = chain?.items.filter(record => record.parentGenerationId === generationId) ?? [];
+  const isAtMaxDepth = lineage.length > MAX_REFINEMENT_DEPTH;
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const trimmed = instruction.trim();
+    if (!trimmed || isRefining) return;
+    setIsRefining(true);
+    setError(null);
+    try {
+      const record = await refineGeneration(generationId, trimmed, provider ?? undefined);
+      setInstruction('');
+      onRefined(record);
+    } catch (refineError) {
+      console.error('Refinement failed:', refineError);
+      setError(refineError instanceof Error ? refineError.message : 'Refinement failed.');
+    } finally {
+      setIsRefining(false);
+    }
+  };
+
+  const renderStep = (record: GenerationRecord, isCurrent: boolean) => {
+    const label = !record.refinementInstruction
+      ? 'Original'
+      : `${record.refinementMode === 'inpaint' ? 'Region: ' : ''}${record.refinementInstruction}`;
+    return (
+      <button
+        key={record.generationId}
+        type="button"
+        onClick={() => onNavigate(record)}
+        disabled={isCurrent}
+        title={label}
+        aria-current={isCurrent ? 'step' : undefined}
+        className={`flex-shrink-0 w-16 text-left rounded focus:outline-none focus:ring-2 focus:ring-primary-500 transition-colors duration-200 ${isCurrent ? 'cursor-default' : 'hover:opacity-80'}`}
+      >
+        <img
+          src={`${apiBaseUrl}${record.imagePath}`}
+          alt={label}
+          className={`w-16 h-16 object-cover rounded border-2 ${isCurrent ? 'border-primary-600 dark:border-primary-400' : 'border-gray-300 dark:border-gray-600'}`}
+        />
+        <span className="block text-[10px] leading-tight text-gray-600 dark:text-gray-400 truncate mt-0.5">{label}</span>
+      </button>
+    );
+  };
+
+  return (
+    <div className="w-full mt-3 pt-3 border-t border-gray-200 dark:border-gray-700 transition-colors duration-200">
+      <div className="flex justify-between items-center mb-2 px-1">
+        <h4 className="text-sm font-medium text-gray-600 dark:text-gray-300 transition-colors duration-200">Refine</h4>
+        {onEditRegion && (
+          <button
+            type="button"
+            onClick={onEditRegion}
+            disabled={isRefining || isAtMaxDepth}
+            className="text-sm text-primary-600 dark:text-primary-400 hover:text-primary-700 dark:hover:text-primary-300 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            Edit a region...
+          </button>
+        )}
+      </div>
+
+      {/* Chain so far, original first; later refinements of the displayed image are listed as branches */}
+      {(lineage.length > 1 || branches.length > 0) && (
+        <nav aria-label="Refinement history" className="mb-2 space-y-1">
+          <div className="flex items-start gap-1 overflow-x-auto pb-1">
+            {lineage.map((record, index) => (
+              <React.Fragment key={record.generationId}>
+                {index > 0 && <span className="self-center text-gray-400 dark:text-gray-500 text-xs" aria-hidden="true">&rarr;</span>}
+                {renderStep(record, record.generationId === generationId)}
+              </React.Fragment>
+            ))}
+          </div>
+          {branches.length > 0 && (
+            <div>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mb-1 px-1">Refined from this image:</p>
+              <div className="flex items-start gap-1 overflow-x-auto pb-1">
+                {branches.map(record => renderStep(record, false))}
+              </div>
+            </div>
+          )}
+        </nav>
+      )}
+
+      <form onSubmit={handleSubmit} className="flex gap-2">
+        <input
+          type="text"
+          value={instruction}
+          onChange={(event) => setInstruction(event.target.value)}
+          placeholder={isAtMaxDepth ? 'Refine an earlier step to continue' : 'Describe a change, e.g. make the jacket red'}
+          maxLength={1000}
+          disabled={isRefining || isAtMaxDepth}
+          className={inputClassName}
+          aria-label="Refinement instruction"
+        />
+        <button
+          type="submit"
+          disabled={!instruction.trim() || isRefining || isAtMaxDepth}
+          className="px-3 py-2 text-sm rounded-md bg-primary-600 dark:bg-primary-700 text-white hover:bg-primary-700 dark:hover:bg-primary-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200 whitespace-nowrap"
+        >
+          {isRefining ? 'Refining...' : 'Refine'}
+        </button>
+      </form>
+      {error && <p className="mt-1 text-sm text-red-600 dark:text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default RefinementPanel;
@@ -0,0 +1,64 @@
+import React from 'react';
+import { GenerationResult } from '../store/generationStore';
+
+interface ResultsGridProps {
+  results: GenerationResult[]; // All variations from the latest batch
+  selectedIndex: number | null;
+  apiBaseUrl: string;
+  onSelect: (index: number) => void;
+}
+
+const ResultsGrid: React.FC<ResultsGridProps> = ({ results, selectedIndex, apiBaseUrl, onSelect }) => {
+  const successCount = results.filter(result => result.imageRelativePath !== null).length;
+
+  return (
+    <div className="w-full h-full flex flex-col">
+      <p className="text-xs text-gray-500 dark:text-gray-400 mb-2 text-center transition-colors duration-200">
+        {successCount} of {results.length} variations generated. Click one to select it.
+      </p>
+      <div className="grid grid-cols-2 gap-2">
+        {results.map((result, index) => {
+          const isSelected = index === selectedIndex;
+
+          if (!result.imageRelativePath) {
+            // Failed variation - show its own error instead of an image
+            return (
+              <div
+                key={index}
+                className="aspect-square rounded border border-red-300 dark:border-red-800 bg-red-50 dark:bg-red-900/20 flex items-center justify-center p-2 transition-colors duration-200"
+                title={result.errorMessage ?? undefined}
+              >
+                <p className="text-xs text-red-700 dark:text-red-300 text-center line-clamp-4">
+                  Variation {index + 1} failed: {result.errorMessage}
+                </p>
+              </div>
+            );
+          }
+
+          return (
+            <button
+              key={index}
+              type="button"
+              onClick={() => onSelect(index)}
+              className={`aspect-square rounded overflow-hidden border-2 transition-all duration-200 animate-fade-in focus:outline-none focus:ring-2 focus:ring-primary-500 dark:focus:ring-primary-400
+                          ${isSelected
+                            ? 'border-primary-600 dark:border-primary-400 shadow-md'
+                            : 'border-gray-300 dark:border-gray-600 hover:border-primary-400 dark:hover:border-primary-500 hover:opacity-90'
+                          }`}
+              aria-pressed={isSelected}
+              aria-label={`Select variation ${index + 1}`}
+            >
+              <img
+                src={`${apiBaseUrl}${result.imageRelativePath}`}
+                alt={`Generated variation ${index + 1}`}
+                className="w-full h-full object-cover"
+              />
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ResultsGrid;
@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import useSettingsStore from '../store/settingsStore';
+import useIdentityStore from '../store/identityStore';
+import { createIdentity } from '../services/api';
+import { REFERENCE_CROPS, ReferenceCrop, applyIdentityAttributes, cropReferenceImage } from '../utils/modelIdentity';
+
+interface SaveIdentityFormProps {
+  generationId: string; // The displayed image
+  imageUrl: string; // Its absolute URL, to crop the reference from
+}
+
+const inputClassName = 'block w-full px-2 py-1.5 border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 dark:focus:ring-primary-400 focus:border-primary-500 dark:focus:border-primary-400 text-sm disabled:opacity-50 transition-colors duration-200';
+const labelClassName = 'block text-xs font-medium text-gray-600 dark:text-gray-300 mb-1 transition-colors duration-200';
+
+// Saves the model of the displayed image as a named identity, so later generations show the same person.
+// The new identity is selected right away.
+const SaveIdentityForm: React.FC<SaveIdentityFormProps> = ({ generationId, imageUrl }) => {
+  const modelSettings = useSettingsStore(state => state.modelSettings);
+  const setModelSettings = useSettingsStore(state => state.setModelSettings);
+  const setIdentityId = useSettingsStore(state => state.setIdentityId);
+  const upsertIdentity = useIdentityStore(state => state.upsertIdentity);
+
+  const [name, setName] = useState('');
+  const [crop, setCrop] = useState<ReferenceCrop>('head');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [savedName, setSavedName] = useState<string | null>(null);
+
+  const trimmedName = name.trim();
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!trimmedName || isSaving) return;
+    setIsSaving(true);
+    setError(null);
+    setSavedName(null);
+    try {
+      const referenceImageData = await cropReferenceImage(imageUrl, crop);
+      const identity = await createIdentity({ name: trimmedName, generationId, referenceImageData });
+      upsertIdentity(identity);
+      setIdentityId(identity.id);
+      setModelSettings(applyIdentityAttributes(modelSettings, identity));
+      setSavedName(identity.name);
+      setName('');
+    } catch (saveError) {
+      console.error('Saving the model identity failed:', saveError);
+      setError(saveError instanceof Error ? saveError.message : 'Saving the model identity failed.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="w-full mt-3 pt-3 border-t border-gray-200 dark:border-gray-700 transition-colors duration-200">
+      <h4 className="text-sm font-medium text-gray-600 dark:text-gray-300 mb-2 px-1 transition-colors duration-200">Save model identity</h4>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        <div>
+          <label htmlFor="identity-name" className={labelClassName}>Name</label>
+          <input
+            id="identity-name"
+            type="text"
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            placeholder="e.g. Ava"
+            maxLength={100}
+            disabled={isSaving}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label htmlFor="identity-crop" className={labelClassName}>Reference crop</label>
+          <select
+            id="identity-crop"
+            value={crop}
+            onChange={(event) => setCrop(event.target.value as ReferenceCrop)}
+            disabled={isSaving}
+            className={inputClassName}
+          >
+            {(Object.keys(REFERENCE_CROPS) as ReferenceCrop[]).map(option => (
+              <option key={option} value={option}>{REFERENCE_CROPS[option].label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+      <div className="flex items-center gap-2 mt-2">
+        <button
+          type="submit"
+          disabled={!trimmedName || isSaving}
+          className="px-3 py-2 text-sm rounded-md bg-primary-600 dark:bg-primary-700 text-white hover:bg-primary-700 dark:hover:bg-primary-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200 whitespace-nowrap"
+        >
+          {isSaving ? 'Saving...' : 'Save identity'}
+        </button>
+        {savedName && <span className="text-xs text-gray-500 dark:text-gray-400">Saved "{savedName}" and selected it for the next generations.</span>}
+      </div>
+      {error && <p className="mt-1 text-sm text-red-600 dark:text-red-400">{error}</p>}
+    </form>
+  );
+};
+
+export default SaveIdentityForm;
@@ -0,0 +1,183 @@
+import React, { useEffect, useState } from 'react';
+import type { SettingsFieldPath } from 'shared';
+import { GenerationJob, Sweep, SweepItem, cancelSweep, getSweep } from '../services/api';
+import { JOB_POLL_INTERVAL_MS } from '../constants';
+import { getSettingsFieldLabel, getSettingsValueLabel } from '../utils/settingsFields';
+
+interface SweepResultsProps {
+  sweepId: string;
+  apiBaseUrl: string;
+  onSelect: (generationId: string, imageRelativePath: string, job: GenerationJob) => void; // Show a result in the viewer
+  onClose: () => void;
+}
+
+const buttonClassName = 'px-2 py-1 text-xs rounded border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200';
+
+const isJobPending = (job: GenerationJob) => job.status === 'queued' || job.status === 'running';
+
+// "Body type: Curvy, Pose: Walking" for the given fields of a combination
+const describeValues = (item: SweepItem, fieldPaths: SettingsFieldPath[]) => fieldPaths
+  .map(fieldPath => `${getSettingsFieldLabel(fieldPath)}: ${getSettingsValueLabel(fieldPath, item.values[fieldPath] ?? '')}`)
+  .join(', ');
+
+// Status of a combination that has no image to show yet
+const describeJob = (job: GenerationJob) => {
+  switch (job.status) {
+    case 'queued': return 'Queued';
+    case 'running': return `Generating (${job.completedVariations}/${job.variationCount})...`;
+    case 'cancelled': return 'Cancelled';
+    case 'failed': return job.message ?? 'Failed';
+    default: return 'No images were generated';
+  }
+};
+
+// Grid of a sweep's combinations, labelled by the varied values. Polls the sweep until every job has finished;
+// with several varied settings, rows are grouped by the first one.
+const SweepResults: React.FC<SweepResultsProps> = ({ sweepId, apiBaseUrl, onSelect, onClose }) => {
+  const [sweep, setSweep] = useState<Sweep | null>(null);
+  const [isMissing, setIsMissing] = useState(false);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isStopped = false;
+    let pollTimer: ReturnType<typeof setTimeout> | undefined;
+    setSweep(null);
+    setIsMissing(false);
+    setError(null);
+
+    const poll = async () => {
+      try {
+        const loaded = await getSweep(sweepId);
+        if (isStopped) return;
+        if (!loaded) {
+          setIsMissing(true);
+          return;
+        }
+        setSweep(loaded);
+        if (loaded.items.some(item => isJobPending(item.job))) pollTimer = setTimeout(poll, JOB_POLL_INTERVAL_MS);
+      } catch (pollError) {
+        // Network hiccup - keep polling rather than abandoning the sweep
+        console.error('Sweep polling error:', pollError);
+        if (!isStopped) pollTimer = setTimeout(poll, JOB_POLL_INTERVAL_MS);
+      }
+    };
+
+    poll();
+
+    return () => {
+      isStopped = true;
+      clearTimeout(pollTimer);
+    };
+  }, [sweepId]);
+
+  const handleCancel = async () => {
+    setIsCancelling(true);
+    setError(null);
+    try {
+      setSweep(await cancelSweep(sweepId));
+    } catch (cancelError) {
+      // Most likely finished in the meantime; the next poll shows the final state
+      console.error('Cancel sweep error:', cancelError);
+      setError(cancelError instanceof Error ? cancelError.message : 'Could not cancel the sweep.');
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
+  const header = (title: string, actions?: React.ReactNode) => (
+    <div className="flex justify-between items-center mb-3 border-b border-gray-200 dark:border-gray-700 pb-2 transition-colors duration-200">
+      <h2 className="text-xl font-semibold">{title}</h2>
+      <div className="flex gap-2">
+        {actions}
+        <button type="button" onClick={onClose} className={buttonClassName}>Close</button>
+      </div>
+    </div>
+  );
+
+  if (isMissing) {
+    return (
+      <>
+        {header('Sweep')}
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          This sweep could not be found. It may have expired or the server was restarted; its images are still in the server history.
+        </p>
+      </>
+    );
+  }
+
+  if (!sweep) {
+    return (
+      <>
+        {header('Sweep')}
+        <p className="text-sm text-gray-500 dark:text-gray-400">Loading sweep...</p>
+      </>
+    );
+  }
+
+  const fieldPaths = sweep.dimensions.map(dimension => dimension.fieldPath);
+  const groupFieldPath = fieldPaths.length > 1 ? fieldPaths[0] : null;
+  const cardFieldPaths = groupFieldPath ? fieldPaths.slice(1) : fieldPaths;
+  const finishedCount = sweep.items.filter(item => !isJobPending(item.job)).length;
+  const isPending = finishedCount < sweep.items.length;
+
+  // Items are in expandSweep order, so each group's items are contiguous
+  const groups = groupFieldPath
+    ? sweep.dimensions[0].values.map(value => ({
+        title: `${getSettingsFieldLabel(groupFieldPath)}: ${getSettingsValueLabel(groupFieldPath, value)}`,
+        items: sweep.items.filter(item => item.values[groupFieldPath] === value),
+      }))
+    : [{ title: null, items: sweep.items }];
+
+  return (
+    <>
+      {header(
+        `Sweep (${finishedCount}/${sweep.items.length} done)`,
+        isPending && (
+          <button type="button" onClick={handleCancel} disabled={isCancelling} className={buttonClassName}>
+            {isCancelling ? 'Cancelling...' : 'Cancel'}
+          </button>
+        ),
+      )}
+      {error && <p className="mb-2 text-sm text-red-600 dark:text-red-400">{error}</p>}
+      <div className="space-y-4">
+        {groups.map(group => (
+          <div key={group.title ?? 'all'}>
+            {group.title && <h3 className="text-sm font-medium text-gray-600 dark:text-gray-300 mb-2 px-1 transition-colors duration-200">{group.title}</h3>}
+            <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 xl:grid-cols-6 gap-3">
+              {group.items.map(item => {
+                const images = item.job.results?.flatMap(result => (result.success ? [result] : [])) ?? [];
+                return (
+                  <div key={item.job.id} className="border border-gray-200 dark:border-gray-700 rounded-md p-2 flex flex-col gap-2 transition-colors duration-200">
+                    <p className="text-xs text-gray-700 dark:text-gray-300">{describeValues(item, cardFieldPaths)}</p>
+                    {images.length > 0 ? (
+                      <div className="grid grid-cols-2 gap-1">
+                        {images.map(result => (
+                          <button
+                            key={result.generationId}
+                            type="button"
+                            onClick={() => onSelect(result.generationId, result.imageUrl, item.job)}
+                            className={`${images.length === 1 ? 'col-span-2' : ''} rounded overflow-hidden hover:ring-2 hover:ring-primary-500 transition-shadow duration-200`}
+                          >
+                            <img src={`${apiBaseUrl}${result.imageUrl}`} alt={describeValues(item, fieldPaths)} className="w-full h-auto object-cover" loading="lazy" />
+                          </button>
+                        ))}
+                      </div>
+                    ) : (
+                      <div className={`flex items-center justify-center aspect-[3/4] rounded bg-gray-50 dark:bg-gray-700 text-xs text-center p-2 transition-colors duration-200
+                                       ${item.job.status === 'failed' ? 'text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'}`}>
+                        {describeJob(item.job)}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+      </div>
+    </>
+  );
+};
+
+export default SweepResults;
@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { MAX_SWEEP_DIMENSIONS, MAX_SWEEP_IMAGES, countSweepCombinations } from 'shared';
+import CollapsibleSection from './CollapsibleSection';
+import useSettingsStore from '../store/settingsStore';
+import { SweepDimension } from '../services/api';
+import { SELECT_SETTINGS_FIELDS, SelectSettingsField } from '../utils/settingsFields';
+
+interface SweepSettingsProps {
+  onQueue: (dimensions: SweepDimension[]) => Promise<void>;
+  isDisabled: boolean; // No garments yet, or clean-up still running
+}
+
+const chipClassName = 'px-2 py-0.5 text-xs rounded-full border transition-colors duration-200';
+
+// Sweep mode: mark settings to vary, pick their values and queue every combination as one tracked batch -
+// e.g. the same garment on every body type. The other settings come from the panels above.
+const SweepSettings: React.FC<SweepSettingsProps> = ({ onQueue, isDisabled }) => {
+  const variationCount = useSettingsStore(state => state.variationCount);
+  const [dimensions, setDimensions] = useState<SweepDimension[]>([]);
+  const [isQueueing, setIsQueueing] = useState(false);
+
+  const combinationCount = dimensions.length > 0 ? countSweepCombinations(dimensions) : 0;
+  const imageCount = combinationCount * variationCount;
+  const isOverLimit = imageCount > MAX_SWEEP_IMAGES;
+  const canQueue = combinationCount > 0 && !isOverLimit && !isDisabled && !isQueueing;
+
+  const dimensionOf = (field: SelectSettingsField) => dimensions.find(dimension => dimension.fieldPath === field.fieldPath);
+
+  // Varying a field starts with all of its values
+  const toggleVary = (field: SelectSettingsField) => {
+    setDimensions(current => (dimensionOf(field)
+      ? current.filter(dimension => dimension.fieldPath !== field.fieldPath)
+      : [...current, { fieldPath: field.fieldPath, values: field.options.map(option => option.value) }]));
+  };
+
+  // Values stay in option order, so the grid does too
+  const toggleValue = (field: SelectSettingsField, value: string) => {
+    setDimensions(current => current.map(dimension => {
+      if (dimension.fieldPath !== field.fieldPath) return dimension;
+      const values = dimension.values.includes(value)
+        ? dimension.values.filter(existing => existing !== value)
+        : field.options.map(option => option.value).filter(option => option === value || dimension.values.includes(option));
+      return { ...dimension, values };
+    }));
+  };
+
+  const handleQueue = async () => {
+    if (!canQueue) return;
+    setIsQueueing(true);
+    try {
+      await onQueue(dimensions);
+    } finally {
+      setIsQueueing(false);
+    }
+  };
+
+  return (
+    <CollapsibleSection title="Sweep">
+      <div className="space-y-2">
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Vary up to {MAX_SWEEP_DIMENSIONS} settings to generate every combination; the rest come from the settings above.
+        </p>
+        {SELECT_SETTINGS_FIELDS.map(field => {
+          const dimension = dimensionOf(field);
+          return (
+            <div key={field.fieldPath}>
+              <label className="inline-flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={Boolean(dimension)}
+                  onChange={() => toggleVary(field)}
+                  disabled={!dimension && dimensions.length >= MAX_SWEEP_DIMENSIONS}
+                  className="accent-primary-600"
+                />
+                Vary {field.label}
+              </label>
+              {dimension && (
+                <div className="flex flex-wrap gap-1 mt-1 ml-6">
+                  {field.options.map(option => {
+                    const isSelected = dimension.values.includes(option.value);
+                    return (
+                      <button
+                        key={option.value}
+                        type="button"
+                        onClick={() => toggleValue(field, option.value)}
+                        aria-pressed={isSelected}
+                        className={`${chipClassName} ${isSelected
+                          ? 'bg-primary-600 dark:bg-primary-700 border-primary-600 dark:border-primary-700 text-white'
+                          : 'bg-white dark:bg-gray-700 border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-600'}`}
+                      >
+                        {option.label}
+                      </button>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          );
+        })}
+
+        <p className={`text-xs ${isOverLimit ? 'text-red-600 dark:text-red-400' : 'text-gray-600 dark:text-gray-300'}`}>
+          {combinationCount === 0
+            ? 'Pick at least one value for each varied setting.'
+            : `${combinationCount} combination${combinationCount === 1 ? '' : 's'} x ${variationCount} variation${variationCount === 1 ? '' : 's'} = ${imageCount} image${imageCount === 1 ? '' : 's'}`}
+          {isOverLimit && ` (at most ${MAX_SWEEP_IMAGES})`}
+        </p>
+        <button
+          type="button"
+          onClick={handleQueue}
+          disabled={!canQueue}
+          className="w-full px-3 py-2 text-sm rounded-md bg-primary-600 dark:bg-primary-700 text-white hover:bg-primary-700 dark:hover:bg-primary-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+        >
+          {isQueueing ? 'Queueing...' : `Queue sweep${combinationCount > 0 ? ` (${combinationCount})` : ''}`}
+        </button>
+      </div>
+    </CollapsibleSection>
+  );
+};
+
+export default SweepSettings;
@@ -0,0 +1,41 @@
+import React from 'react';
+import useSettingsStore from '../store/settingsStore';
+import { MAX_VARIATIONS } from '../constants';
+
+const VARIATION_COUNT_OPTIONS = Array.from({ length: MAX_VARIATIONS }, (_, i) => i + 1);
+
+const VariationCountSelector: React.FC = () => {
+  const variationCount = useSettingsStore(state => state.variationCount);
+  const setVariationCount = useSettingsStore(state => state.setVariationCount);
+
+  return (
+    <div className="mb-3">
+      <label htmlFor="variationCount" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1 transition-colors duration-200">
+        Variations per generation
+      </label>
+      <div className="relative mt-1">
+        <select
+          id="variationCount"
+          name="variationCount"
+          value={variationCount}
+          onChange={(event) => setVariationCount(Number(event.target.value))}
+          className="appearance-none block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 dark:focus:ring-primary-400 focus:border-primary-500 dark:focus:border-primary-400 sm:text-sm transition-colors duration-200"
+        >
+          {VARIATION_COUNT_OPTIONS.map(count => (
+            <option key={count} value={count}>
+              {count}
+            </option>
+          ))}
+        </select>
+        {/* Custom dropdown arrow */}
+        <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2 text-gray-700 dark:text-gray-300 transition-colors duration-200">
+          <svg className="fill-current h-4 w-4" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20">
+            <path d="M9.293 12.95l.707.707L15.657 8l-1.414-1.414L10 10.828 5.757 6.586 4.343 8z"/>
+          </svg>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VariationCountSelector;
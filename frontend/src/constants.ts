@@ -10,9 +10,87 @@ export const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localho
 // --- Gallery ---
 export const GALLERY_STORAGE_KEY = 'aiFashionGallery_v1';
 export const MAX_GALLERY_ITEMS = 20; // As per PRD
+export const HISTORY_PAGE_SIZE = 24; // Server-side history page size
+
+// --- Generation ---
+export { MAX_VARIATIONS } from 'shared'; // Enforced by the backend through the shared contract
+export const DEFAULT_VARIATION_COUNT = 4;
+export const GENERATION_JOB_STORAGE_KEY = 'aiFashionGenerationJob_v1';
+export const JOB_POLL_INTERVAL_MS = 2000;
+export const PROMPT_PREVIEW_DEBOUNCE_MS = 400; // Wait for settings/edits to settle before re-rendering the prompt
+
+// --- Presets ---
+export const PRESET_STORAGE_KEY = 'aiFashionPresets_v1';
 
 // --- Upload ---
-export const MAX_FILE_SIZE_MB = 10;
+export const MAX_FILE_SIZE_MB = 10; // Applies to the source file; uploads are downscaled and re-encoded before sending
 export const MAX_FILE_SIZE_BYTES = MAX_FILE_SIZE_MB * 1024 * 1024;
 export const ACCEPTED_IMAGE_FORMATS = ['image/jpeg', 'image/png', 'image/webp'];
-export const ACCEPTED_IMAGE_FORMATS_STRING = ACCEPTED_IMAGE_FORMATS.join(',');
\ No newline at end of file
+export const ACCEPTED_IMAGE_FORMATS_STRING = ACCEPTED_IMAGE_FORMATS.join(',');
+
+export const UPLOAD_MAX_DIMENSION_OPTIONS = [1024, 1536, 2048, 3072]; // Longest side after downscaling, in pixels
+
+// --- Garment Clean-up ---
+export const BACKGROUND_COLOR_TOLERANCE = 40; // Max RGB distance from the border colour still counted as background
+export const AUTO_CROP_MARGIN_RATIO = 0.04; // Space kept around the garment, as a fraction of its size
+
+// --- Model Settings Options ---
+// Define options based on PRD (Section 3.2)
+export const GENDER_OPTIONS = ['Female', 'Male', 'Androgynous'];
+export const BODY_TYPE_OPTIONS = ['Slim', 'Average', 'Athletic', 'Curvy', 'Plus-size'];
+export const AGE_RANGE_OPTIONS = ['18-25', '26-35', '36-45', '46-55', '55+'];
+export const ETHNICITY_OPTIONS = [
+  'Caucasian',
+  'Black/African Descent',
+  'East Asian',
+  'South Asian',
+  'Hispanic/Latino',
+  'Middle Eastern',
+  'Mixed-race',
+];
+
+// New options for enhanced customization
+export const HAIR_STYLE_OPTIONS = ['Short', 'Medium', 'Long', 'Curly', 'Straight', 'Wavy', 'Braided', 'Bun', 'Ponytail'];
+export const HAIR_COLOR_OPTIONS = ['Black', 'Brown', 'Blonde', 'Red', 'Gray', 'White', 'Colorful'];
+export const HEIGHT_OPTIONS = ['Short', 'Average', 'Tall'];
+export const POSE_OPTIONS = ['Standing', 'Sitting', 'Walking', 'Casual Pose', 'Fashion Pose'];
+export const ACCESSORIES_OPTIONS = ['None', 'Glasses', 'Jewelry', 'Hat', 'Scarf', 'Multiple'];
+
+// --- Environment Settings Options ---
+// Define options based on PRD (Section 3.3)
+// Define mapping from display name to backend key
+export const BACKGROUND_PRESET_MAP: { [key: string]: string } = {
+  'Studio - White': 'studio-white',
+  'Studio - Gradient': 'studio-gradient',
+  'In Store': 'in-store',
+  'Lifestyle - Home': 'lifestyle-home',
+  'Lifestyle - Office': 'lifestyle-office',
+  'Outdoor - Urban': 'outdoor-urban',
+  'Outdoor - Nature': 'outdoor-nature',
+  'Seasonal - Spring': 'seasonal-spring',
+  'Seasonal - Summer': 'seasonal-summer',
+  'Seasonal - Fall': 'seasonal-fall',
+  'Seasonal - Winter': 'seasonal-winter',
+  // Add other mappings if needed, ensure values match backend server.js
+};
+// Derive options from the map keys for the dropdown display
+export const BACKGROUND_PRESET_OPTIONS = Object.keys(BACKGROUND_PRESET_MAP);
+export const LIGHTING_OPTIONS = [
+  'Studio Softbox',
+  'Natural Daylight',
+  'Golden Hour Sunlight',
+  'Dramatic Rim Lighting',
+  'Cinematic Moody',
+];
+export const LENS_STYLE_OPTIONS = [
+  'Fashion Magazine (Standard)',
+  'Portrait (Shallow DoF)',
+  'Wide Angle Environmental',
+  'Cinematic Look',
+];
+
+// New environment options
+export const TIME_OF_DAY_OPTIONS = ['Morning', 'Noon', 'Afternoon', 'Sunset', 'Evening', 'Night'];
+export const WEATHER_OPTIONS = ['Clear', 'Sunny', 'Cloudy', 'Overcast', 'Rainy', 'Foggy', 'Snowy'];
+export const SEASON_OPTIONS = ['Spring', 'Summer', 'Fall', 'Winter'];
+export const CAMERA_ANGLE_OPTIONS = ['Eye Level', 'Low Angle', 'High Angle', 'Dutch Angle', 'Overhead'];
@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { BUILT_IN_PRESETS, GenerationJob } from 'shared';
+import { API_BASE_URL } from '../constants';
+import { ApiError, createGenerationJob } from './api';
+
+const settings = BUILT_IN_PRESETS[0].settings;
+
+const job: GenerationJob = {
+  id: 'job-1', status: 'queued', createdAt: '2025-01-01T00:00:00.000Z', updatedAt: '2025-01-01T00:00:00.000Z',
+  variationCount: 1, completedVariations: 0, settingsUsed: settings,
+  promptUsed: null, results: null, message: null, error: null, retry: null,
+};
+
+const json = (status: number, body: unknown) => new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+const uploadExpired = (uploadId: string) => json(404, { success: false, code: 'NOT_FOUND', message: 'Upload expired.', retryable: false, details: { uploadId } });
+
+// Answers data URL decoding and uploads itself; each POST /jobs takes the next queued response
+function mockBackend(jobResponses: Response[]) {
+  let uploadCount = 0;
+  const jobBodies: unknown[] = [];
+  const fetchMock = vi.fn(async (input: string | URL | Request, init?: RequestInit) => {
+    const url = String(input);
+    if (url.startsWith('data:')) return new Response(new Blob(['png'], { type: 'image/png' }));
+    if (url === `${API_BASE_URL}/uploads`) {
+      uploadCount++;
+      return json(201, { success: true, uploadId: `upload-${uploadCount}.png`, mimeType: 'image/png', bytes: 3, width: 64, height: 64, expiresAt: '2025-01-01T01:00:00.000Z' });
+    }
+    if (url === `${API_BASE_URL}/jobs`) {
+      jobBodies.push(JSON.parse(String(init?.body)));
+      return jobResponses.shift()!;
+    }
+    throw new Error(`Unexpected fetch ${url}`);
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return { jobBodies, uploads: () => uploadCount };
+}
+
+describe('createGenerationJob', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('uploads each image once and references it by id', async () => {
+    const backend = mockBackend([json(202, { success: true, job }), json(202, { success: true, job })]);
+    const payload = { settings, variationCount: 1, imageData: 'data:image/png;base64,cmV1c2Vk' };
+    expect(await createGenerationJob(payload)).toEqual(job);
+    await createGenerationJob(payload);
+    expect(backend.uploads()).toBe(1);
+    expect(backend.jobBodies[1]).toEqual({ settings, variationCount: 1, uploadId: 'upload-1.png' });
+  });
+
+  it('uploads again and retries once when an upload has expired', async () => {
+    const backend = mockBackend([uploadExpired('upload-1.png'), json(202, { success: true, job })]);
+    expect(await createGenerationJob({ settings, variationCount: 1, imageData: 'data:image/png;base64,ZXhwaXJlZA==' })).toEqual(job);
+    expect(backend.uploads()).toBe(2);
+    expect(backend.jobBodies).toEqual([
+      expect.objectContaining({ uploadId: 'upload-1.png' }),
+      expect.objectContaining({ uploadId: 'upload-2.png' }),
+    ]);
+  });
+
+  it('gives up after the retry', async () => {
+    const backend = mockBackend([uploadExpired('upload-1.png'), uploadExpired('upload-2.png')]);
+    const error = await createGenerationJob({ settings, variationCount: 1, imageData: 'data:image/png;base64,c3RpbGwgZ29uZQ==' }).catch(caught => caught);
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toMatchObject({ status: 404, code: 'NOT_FOUND' });
+    expect(backend.jobBodies).toHaveLength(2);
+  });
+
+  it('does not retry other NOT_FOUND errors', async () => {
+    const backend = mockBackend([json(404, { success: false, code: 'NOT_FOUND', message: 'No such identity.', retryable: false })]);
+    await expect(createGenerationJob({ settings, variationCount: 1, imageData: 'data:image/png;base64,bm8gcmV0cnk=' })).rejects.toMatchObject({ code: 'NOT_FOUND' });
+    expect(backend.jobBodies).toHaveLength(1);
+  });
+});
@@ -1,103 +1,693 @@
-import { ModelSettingsState } from '../components/ModelSettings';
-import { EnvironmentSettingsState } from '../components/EnvironmentSettings';
+import {
+  ApiErrorResponseSchema,
+  BackgroundSwapRequest,
+  BackgroundSwapSettings,
+  BackgroundRemovalResponseSchema,
+  BackgroundRemovalStatusSchema,
+  CreateIdentityRequest,
+  CreatePresetRequest,
+  DeleteGenerationsResult,
+  DeleteGenerationsResultSchema,
+  ErrorCode,
+  ErrorInfo,
+  FieldError,
+  GenerateRequestInput,
+  GenerationFieldPath,
+  GenerationJob,
+  GenerationListPage,
+  GenerationListPageSchema,
+  GenerationRecord,
+  GenerationResponseSchema,
+  IdentityListResponseSchema,
+  IdentityResponseSchema,
+  InpaintRequest,
+  JobResponseSchema,
+  MAX_GARMENTS,
+  ModelIdentity,
+  PresetFile,
+  PresetListResponseSchema,
+  PresetResponseSchema,
+  PromptPreviewRequestInput,
+  PromptPreviewResponseSchema,
+  ProviderInfo,
+  ProvidersResponseSchema,
+  RefineRequest,
+  RefinementChain,
+  RefinementChainResponseSchema,
+  SettingsFieldPath,
+  SettingsPreset,
+  Sweep,
+  SweepDimension,
+  SweepRequestInput,
+  SweepResponseSchema,
+  UpdateIdentityRequest,
+  UpdatePresetRequest,
+  UploadResponseSchema,
+  VariationResult,
+} from 'shared';
 import { API_BASE_URL } from '../constants'; // Trying relative path from src
 
+// Request/response types come from the shared contract; re-exported so components keep importing from here
+export type {
+  BackgroundSwapSettings,
+  DeleteGenerationsResult,
+  ErrorInfo,
+  GarmentRole,
+  GenerationFieldPath,
+  GenerationJob,
+  GenerationJobStatus,
+  GenerationListPage,
+  GenerationRecord,
+  GenerationSettings,
+  JobRetry,
+  ModelIdentity,
+  PromptOverride,
+  ProviderInfo,
+  RefinementChain,
+  SettingsPreset,
+  Sweep,
+  SweepDimension,
+  SweepItem,
+} from 'shared';
+
 // Define the expected structure of the backend request payload
-interface GenerateApiPayload {
-  settings: {
-    modelSettings: ModelSettingsState;
-    environmentSettings: EnvironmentSettingsState;
-  };
-  imageData: string; // Base64 data URI
-}
+export type GenerateApiPayload = GenerateRequestInput;
 
-// Define the expected structure of a successful backend response
-interface GenerateApiSuccessResponse {
-  success: true;
-  imageUrl: string;
-  promptUsed: string; // Add prompt field
-}
+// Per-variation outcome returned by the backend
+export type GenerateApiVariationResult = VariationResult;
 
-// Define the expected structure of a failed backend response
-interface GenerateApiErrorResponse {
-  success: false;
+// Backend error codes plus NETWORK, which the client reports when the backend can't be reached at all
+export type ClientErrorCode = ErrorCode | 'NETWORK';
+
+// Structured error as shown in the UI (mirrors the backend's ErrorInfo)
+export interface ClientErrorInfo {
+  code: ClientErrorCode;
   message: string;
+  retryable: boolean;
 }
 
-// Type guard to check for success response
-function isSuccessResponse(response: unknown): response is GenerateApiSuccessResponse {
-    return typeof response === 'object' && response !== null &&
-           'success' in response && response.success === true &&
-           'imageUrl' in response && typeof response.imageUrl === 'string' &&
-           'promptUsed' in response && typeof response.promptUsed === 'string'; // Check for prompt field
+// Error thrown by every API call; branch on `code`, not on the message
+export class ApiError extends Error {
+  readonly status: number; // HTTP status, 0 for network failures
+  readonly code: ClientErrorCode;
+  readonly retryable: boolean;
+  readonly details?: Record<string, unknown>;
+  readonly fieldErrors: FieldError[];
+
+  constructor(message: string, status: number, info: { code: ClientErrorCode; retryable: boolean; details?: Record<string, unknown>; fieldErrors?: FieldError[] }) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = info.code;
+    this.retryable = info.retryable;
+    this.details = info.details;
+    this.fieldErrors = info.fieldErrors ?? [];
+  }
+
+  toInfo(): ClientErrorInfo {
+    return { code: this.code, message: this.message, retryable: this.retryable };
+  }
 }
 
-// Type guard to check for error response
-function isErrorResponse(response: unknown): response is GenerateApiErrorResponse {
-    return typeof response === 'object' && response !== null &&
-           'success' in response && response.success === false &&
-           'message' in response && typeof response.message === 'string';
+// API_BASE_URL is now imported from constants.ts
+
+// fetch() that reports an unreachable backend as a retryable NETWORK ApiError
+const apiFetch = async (input: string, init?: RequestInit): Promise<Response> => {
+  try {
+    return await fetch(input, init);
+  } catch (networkError) {
+    console.error(`Network error calling ${input}:`, networkError);
+    throw new ApiError('Could not reach the server. Check your connection and that the backend is running.', 0, { code: 'NETWORK', retryable: true });
+  }
+};
+
+// Builds an ApiError from a non-OK response, preferring the backend's structured error
+const toApiError = async (response: Response): Promise<ApiError> => {
+  try {
+    const parsed = ApiErrorResponseSchema.safeParse(await response.json());
+    if (parsed.success) {
+      const { message, code, retryable, details, fieldErrors = [] } = parsed.data;
+      // Validation failures name the offending fields so the message is actionable on its own
+      const fullMessage = fieldErrors.length > 0
+        ? `${message} (${fieldErrors.map(fieldError => `${fieldError.field}: ${fieldError.message}`).join('; ')})`
+        : message;
+      return new ApiError(fullMessage, response.status, { code, retryable, details, fieldErrors });
+    }
+  } catch (parseError) {
+    // Ignore if response body is not JSON or empty
+    console.error("Could not parse error response body:", parseError);
+  }
+  // Non-JSON error (e.g. a proxy in front of the backend); 5xx responses are worth retrying
+  return new ApiError(`API request failed with status ${response.status}`, response.status, { code: 'INTERNAL', retryable: response.status >= 500 });
+};
+
+// Converts a job/variation ErrorInfo from the backend into the UI shape
+export const toClientErrorInfo = ({ code, message, retryable }: ErrorInfo): ClientErrorInfo => ({ code, message, retryable });
+
+// The part of a contract schema needed to validate a response body
+interface ResponseSchema<T> {
+  safeParse(data: unknown): { success: true; data: T } | { success: false; error: { issues: unknown[] } };
 }
 
+// Parses a successful response body against its contract schema or throws if it has an unexpected shape
+const parseResponse = async <T,>(response: Response, schema: ResponseSchema<T>, label: string): Promise<T> => {
+  const data = await response.json();
+  const parsed = schema.safeParse(data);
+  if (!parsed.success) {
+    console.error(`Unexpected ${label} response format:`, data, parsed.error.issues);
+    throw new Error('Received an unexpected response format from the server.');
+  }
+  return parsed.data;
+};
 
-// API_BASE_URL is now imported from constants.ts
+// Parses a /jobs response body or throws if it has an unexpected shape
+const parseJobResponse = async (response: Response): Promise<GenerationJob> => {
+  return (await parseResponse(response, JobResponseSchema, 'job')).job;
+};
+
+// Upload ids by the data URL they were created from, so repeated generations reuse them instead of re-sending the bytes
+const uploadIds = new Map<string, Promise<string>>();
+const MAX_CACHED_UPLOADS = MAX_GARMENTS * 2; // Oldest entries are dropped first
 
 /**
- * Calls the backend API to generate an image.
- * @param payload - The settings and image data.
- * @returns The URL of the generated image.
- * @throws An error with a message if the API call fails or returns an error.
+ * Uploads one image as binary so generation requests can reference it by id.
+ * @param imageData - Image as a data URL.
+ * @returns The upload id.
+ * @throws An ApiError with a code and message if the upload is rejected.
  */
-export const generateImage = async (payload: GenerateApiPayload): Promise<{ imageUrl: string, promptUsed: string }> => {
-  const apiUrl = `${API_BASE_URL}/generate`;
-  console.log(`Sending request to: ${apiUrl}`);
+const uploadImage = async (imageData: string): Promise<string> => {
+  const blob = await (await fetch(imageData)).blob(); // Decodes the data URL locally
+  const response = await apiFetch(`${API_BASE_URL}/uploads`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': blob.type,
+    },
+    body: blob,
+  });
+  if (!response.ok) throw await toApiError(response);
+  return (await parseResponse(response, UploadResponseSchema, 'upload')).uploadId;
+};
 
-  try {
-    const response = await fetch(apiUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(payload),
-    });
-
-    // Check if the response status code indicates an error
-    if (!response.ok) {
-      // Try to parse error message from backend if available
-      let errorMessage = `API request failed with status ${response.status}`;
-      try {
-        const errorData = await response.json();
-        if (isErrorResponse(errorData)) {
-          errorMessage = errorData.message;
-        }
-      } catch (parseError) {
-        // Ignore if response body is not JSON or empty
-        console.error("Could not parse error response body:", parseError);
-      }
-      throw new Error(errorMessage);
-    }
+// Cached uploadImage; failed uploads are forgotten so the next call retries
+const uploadOnce = (imageData: string): Promise<string> => {
+  let uploadId = uploadIds.get(imageData);
+  if (!uploadId) {
+    uploadId = uploadImage(imageData);
+    uploadIds.set(imageData, uploadId);
+    if (uploadIds.size > MAX_CACHED_UPLOADS) uploadIds.delete(uploadIds.keys().next().value!);
+    uploadId.catch(() => uploadIds.delete(imageData));
+  }
+  return uploadId;
+};
 
-    // Parse the successful JSON response
-    const data = await response.json();
-
-    // Validate the success response structure
-    if (isSuccessResponse(data)) {
-      // Return the object containing both URL and prompt
-      return { imageUrl: data.imageUrl, promptUsed: data.promptUsed };
-    } else {
-      // Handle cases where the status code was ok, but the body is unexpected
-      console.error("Unexpected successful response format:", data);
-      throw new Error('Received an unexpected response format from the server.');
-    }
+// Replaces inline image data with upload ids
+const withUploadedImages = async (payload: GenerateApiPayload): Promise<GenerateApiPayload> => {
+  const { imageData, garments, ...rest } = payload;
+  if (imageData) return { ...rest, uploadId: await uploadOnce(imageData) };
+  if (!garments) return payload;
+  return {
+    ...rest,
+    garments: await Promise.all(garments.map(async ({ role, imageData: garmentData, uploadId }) => (
+      garmentData ? { role, uploadId: await uploadOnce(garmentData) } : { role, uploadId }
+    ))),
+  };
+};
 
-  } catch (error) {
-    console.error('Error calling generate API:', error);
-    // Re-throw the error to be caught by the calling component
-    // If it's already an Error object, re-throw it, otherwise wrap it
-    if (error instanceof Error) {
-        throw error;
-    } else {
-        throw new Error('An unknown error occurred during the API call.');
-    }
+// POSTs a generation payload with its images uploaded separately. Uploads expire on the server, so a NOT_FOUND
+// naming an upload drops the cached ids and retries once with fresh uploads. toBody wraps the payload for routes
+// that take it inside a larger body.
+const postGenerationPayload = async (
+  url: string,
+  payload: GenerateApiPayload,
+  toBody: (request: GenerateApiPayload) => unknown = request => request,
+): Promise<Response> => {
+  const send = async () => apiFetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(toBody(await withUploadedImages(payload))),
+  });
+  const response = await send();
+  if (response.status !== 404) return response;
+  const error = await toApiError(response);
+  if (error.code !== 'NOT_FOUND' || !error.details?.uploadId) throw error;
+  console.warn('An uploaded image expired on the server; uploading again.');
+  uploadIds.clear();
+  return send();
+};
+
+/**
+ * Queues an asynchronous generation job.
+ * @param payload - The settings, image data and variation count.
+ * @returns The newly created job (status "queued" or "running").
+ * @throws An ApiError with a code and message if the request is rejected.
+ */
+export const createGenerationJob = async (payload: GenerateApiPayload): Promise<GenerationJob> => {
+  const response = await postGenerationPayload(`${API_BASE_URL}/jobs`, payload);
+  if (!response.ok) throw await toApiError(response);
+  return parseJobResponse(response);
+};
+
+/**
+ * Fetches the current state of a generation job.
+ * @param jobId - Id returned by createGenerationJob.
+ * @returns The job, or null if the backend no longer knows it (expired or server restarted).
+ * @throws An ApiError with a code and message for any other failure.
+ */
+export const getGenerationJob = async (jobId: string): Promise<GenerationJob | null> => {
+  const response = await apiFetch(`${API_BASE_URL}/jobs/${encodeURIComponent(jobId)}`);
+  if (response.status === 404) return null;
+  if (!response.ok) throw await toApiError(response);
+  return parseJobResponse(response);
+};
+
+/**
+ * Cancels a queued or running generation job.
+ * @param jobId - Id returned by createGenerationJob.
+ * @returns The job in its cancelled state.
+ * @throws An ApiError with a code and message if the job is unknown or already finished.
+ */
+export const cancelGenerationJob = async (jobId: string): Promise<GenerationJob> => {
+  const response = await apiFetch(`${API_BASE_URL}/jobs/${encodeURIComponent(jobId)}`, { method: 'DELETE' });
+  if (!response.ok) throw await toApiError(response);
+  return parseJobResponse(response);
+};
+
+/**
+ * Queues a settings sweep: one generation job per combination of the varied settings.
+ * @param payload - Base generation payload; each combination replaces the varied fields of its settings.
+ * @param dimensions - The varied settings fields and their values.
+ * @returns The sweep with one queued job per combination.
+ * @throws An ApiError with a code and message if the sweep is rejected (e.g. too many images).
+ */
+export const createSweep = async (payload: GenerateApiPayload, dimensions: SweepDimension[]): Promise<Sweep> => {
+  const response = await postGenerationPayload(`${API_BASE_URL}/sweeps`, payload, (request): SweepRequestInput => ({ request, dimensions }));
+  if (!response.ok) throw await toApiError(response);
+  return (await parseResponse(response, SweepResponseSchema, 'sweep')).sweep;
+};
+
+/**
+ * Fetches the current state of a sweep and its jobs.
+ * @param sweepId - Id returned by createSweep.
+ * @returns The sweep, or null if the backend no longer knows it (expired or server restarted).
+ * @throws An ApiError with a code and message for any other failure.
+ */
+export const getSweep = async (sweepId: string): Promise<Sweep | null> => {
+  const response = await apiFetch(`${API_BASE_URL}/sweeps/${encodeURIComponent(sweepId)}`);
+  if (response.status === 404) return null;
+  if (!response.ok) throw await toApiError(response);
+  return (await parseResponse(response, SweepResponseSchema, 'sweep')).sweep;
+};
+
+/**
+ * Cancels every combination of a sweep that hasn't finished.
+ * @param sweepId - Id returned by createSweep.
+ * @returns The sweep with the cancelled jobs.
+ * @throws An ApiError with a code and message if the sweep is unknown or already finished.
+ */
+export const cancelSweep = async (sweepId: string): Promise<Sweep> => {
+  const response = await apiFetch(`${API_BASE_URL}/sweeps/${encodeURIComponent(sweepId)}`, { method: 'DELETE' });
+  if (!response.ok) throw await toApiError(response);
+  return (await parseResponse(response, SweepResponseSchema, 'sweep')).sweep;
+};
+
+// Query accepted by GET /generations
+export interface GenerationListQuery {
+  page?: number;
+  pageSize?: number;
+  sortBy?: GenerationFieldPath;
+  order?: 'asc' | 'desc';
+  filters?: Partial<Record<SettingsFieldPath, string>>; // Exact-match settings filters
+  trash?: boolean; // List soft-deleted generations instead of live ones
+}
+
+/**
+ * Lists stored generations from the server-side history.
+ * @param query - Pagination, sort order and exact-match settings filters.
+ * @returns One page of generation records.
+ * @throws An ApiError with a code and message if the request fails.
+ */
+export const listGenerations = async (query: GenerationListQuery = {}): Promise<GenerationListPage> => {
+  const params = new URLSearchParams();
+  if (query.page !== undefined) params.set('page', String(query.page));
+  if (query.pageSize !== undefined) params.set('pageSize', String(query.pageSize));
+  if (query.sortBy) params.set('sortBy', query.sortBy);
+  if (query.order) params.set('order', query.order);
+  if (query.trash) params.set('trash', 'true');
+  for (const [fieldPath, value] of Object.entries(query.filters ?? {})) {
+    if (value) params.set(fieldPath, value);
   }
-};
\ No newline at end of file
+
+  const response = await apiFetch(`${API_BASE_URL}/generations?${params.toString()}`);
+  if (!response.ok) throw await toApiError(response);
+  const { items, page, pageSize, total, totalPages } = await parseResponse(response, GenerationListPageSchema, 'generations');
+  return { items, page, pageSize, total, totalPages };
+};
+
+/**
+ * Fetches a single stored generation.
+ * @param generationId - Id of the generation record.
+ * @returns The record, or null if it does not exist.
+ * @throws An ApiError with a code and message for any other failure.
+ */
+export const getGeneration = async (generationId: string): Promise<GenerationRecord | null> => {
+  const response = await apiFetch(`${API_BASE_URL}/generations/${encodeURIComponent(generationId)}`);
+  if (response.status === 404) return null;
+  if (!response.ok) throw await toApiError(response);
+  return (await parseResponse(response, GenerationResponseSchema, 'generation')).generation;
+};
+
+/**
+ * Deletes a stored generation on the server.
+ * @param generationId - Id of the generation record.
+ * @param options.soft - Move to the trash (restorable) instead of removing the image and record permanently.
+ * @returns False if the generation did not exist.
+ * @throws An ApiError with a code and message for any other failure.
+ */
+export const deleteGeneration = async (generationId: string, options: { soft?: boolean } = {}): Promise<boolean> => {
+  const query = options.soft ? '?soft=true' : '';
+  const response = await apiFetch(`${API_BASE_URL}/generations/${encodeURIComponent(generationId)}${query}`, { method: 'DELETE' });
+  if (response.status === 404) return false;
+  if (!response.ok) throw await toApiError(response);
+  return true;
+};
+
+/**
+ * Deletes many stored generations in one request.
+ * @param generationIds - Ids of the generation records.
+ * @param options.soft - Move to the trash instead of deleting permanently.
+ * @returns Which ids were deleted, missing, or failed.
+ * @throws An ApiError with a code and message if the request fails.
+ */
+export const deleteGenerations = async (generationIds: string[], options: { soft?: boolean } = {}): Promise<DeleteGenerationsResult> => {
+  const response = await apiFetch(`${API_BASE_URL}/generations/bulk-delete`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ ids: generationIds, soft: options.soft ?? false }),
+  });
+  if (!response.ok) throw await toApiError(response);
+  const { deleted, notFound, failed } = await parseResponse(response, DeleteGenerationsResultSchema, 'bulk delete');
+  return { deleted, notFound, failed };
+};
+
+/**
+ * Restores a generation from the trash.
+ * @param generationId - Id of a soft-deleted generation.
+ * @throws An ApiError with a code and message if it is not found or not in the trash.
+ */
+export const restoreGeneration = async (generationId: string): Promise<void> => {
+  const response = await apiFetch(`${API_BASE_URL}/generations/${encodeURIComponent(generationId)}/restore`, { method: 'POST' });
+  if (!response.ok) throw await toApiError(response);
+};
+
+/**
+ * Edits a generated image with a follow-up instruction; the model sees the whole refinement chain so far.
+ * @param generationId - Id of the generation to refine.
+ * @param instruction - What to change, e.g. "make the jacket red".
+ * @param provider - Provider id from GET /providers; defaults to the one that made the image.
+ * @returns The new generation, linked to the refined one by parentGenerationId.
+ * @throws An ApiError with a code and message if the refinement fails.
+ */
+export const refineGeneration = async (generationId: string, instruction: string, provider?: string): Promise<GenerationRecord> => {
+  const body: RefineRequest = { instruction, provider };
+  const response = await apiFetch(`${API_BASE_URL}/generations/${encodeURIComponent(generationId)}/refine`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+  if (!response.ok) throw await toApiError(response);
+  return (await parseResponse(response, GenerationResponseSchema, 'refinement')).generation;
+};
+
+/**
+ * Regenerates only a masked region of a generated image; everything outside the mask is kept.
+ * @param generationId - Id of the generation to edit.
+ * @param maskData - PNG data URI with the image's aspect ratio: white marks the region to regenerate, black the pixels to keep.
+ * @param instruction - What the region should show instead, e.g. "relaxed hands".
+ * @param provider - Provider id from GET /providers; defaults to the one that made the image.
+ * @returns The new generation, linked to the edited one by parentGenerationId.
+ * @throws An ApiError with a code and message if inpainting fails.
+ */
+export const inpaintGeneration = async (generationId: string, maskData: string, instruction: string, provider?: string): Promise<GenerationRecord> => {
+  const body: InpaintRequest = { instruction, maskData, provider };
+  const response = await apiFetch(`${API_BASE_URL}/generations/${encodeURIComponent(generationId)}/inpaint`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+  if (!response.ok) throw await toApiError(response);
+  return (await parseResponse(response, GenerationResponseSchema, 'inpainting')).generation;
+};
+
+/**
+ * Places the subject of a generated image in a new scene, keeping the model's face, pose and framing.
+ * @param generationId - Id of the generation to edit.
+ * @param environmentSettings - Scene fields to change (background, lighting, time of day, weather, season); the rest are kept.
+ * @param provider - Provider id from GET /providers; defaults to the one that made the image.
+ * @returns The new generation, linked to the edited one by parentGenerationId.
+ * @throws An ApiError with a code and message if the swap fails.
+ */
+export const swapBackground = async (generationId: string, environmentSettings: BackgroundSwapSettings, provider?: string): Promise<GenerationRecord> => {
+  const body: BackgroundSwapRequest = { environmentSettings, provider };
+  const response = await apiFetch(`${API_BASE_URL}/generations/${encodeURIComponent(generationId)}/background`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+  if (!response.ok) throw await toApiError(response);
+  return (await parseResponse(response, GenerationResponseSchema, 'background swap')).generation;
+};
+
+/**
+ * Fetches the refinement chain a generation belongs to.
+ * @param generationId - Id of any generation in the chain.
+ * @returns The original and all of its refinements, oldest first, or null if the generation does not exist.
+ * @throws An ApiError with a code and message for any other failure.
+ */
+export const getRefinementChain = async (generationId: string): Promise<RefinementChain | null> => {
+  const response = await apiFetch(`${API_BASE_URL}/generations/${encodeURIComponent(generationId)}/refinements`);
+  if (response.status === 404) return null;
+  if (!response.ok) throw await toApiError(response);
+  const { rootGenerationId, items } = await parseResponse(response, RefinementChainResponseSchema, 'refinement chain');
+  return { rootGenerationId, items };
+};
+
+/**
+ * Lists the image-generation providers the backend has enabled.
+ * @returns The providers and the id used when a request names none.
+ * @throws An ApiError with a code and message if the request fails.
+ */
+export const listProviders = async (): Promise<{ providers: ProviderInfo[]; defaultProvider: string }> => {
+  const response = await apiFetch(`${API_BASE_URL}/providers`);
+  if (!response.ok) throw await toApiError(response);
+  const { providers, defaultProvider } = await parseResponse(response, ProvidersResponseSchema, 'providers');
+  return { providers, defaultProvider };
+};
+
+/**
+ * Renders the prompt the backend would use for these settings, without generating anything.
+ * @param request - Settings, plus an optional template version, expert-mode override and garment roles.
+ * @returns The final prompt, the template output before overrides, and the template version used.
+ * @throws An ApiError with a code and message if the settings are invalid or the request fails.
+ */
+export const previewPrompt = async (request: PromptPreviewRequestInput, signal?: AbortSignal): Promise<{ prompt: string; generatedPrompt: string; templateVersion: string }> => {
+  const response = await apiFetch(`${API_BASE_URL}/prompt-templates/preview`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(request),
+    signal,
+  });
+  if (!response.ok) throw await toApiError(response);
+  const { prompt, generatedPrompt, templateVersion } = await parseResponse(response, PromptPreviewResponseSchema, 'prompt preview');
+  return { prompt, generatedPrompt, templateVersion };
+};
+
+/**
+ * Lists the presets in the team library. Built-in presets are not included.
+ * @returns Team presets sorted by name.
+ * @throws An ApiError with a code and message if the request fails.
+ */
+export const listTeamPresets = async (): Promise<SettingsPreset[]> => {
+  const response = await apiFetch(`${API_BASE_URL}/presets`);
+  if (!response.ok) throw await toApiError(response);
+  const { presets } = await parseResponse(response, PresetListResponseSchema, 'presets');
+  return presets;
+};
+
+/**
+ * Saves a new preset to the team library.
+ * @param request - Preset name and settings.
+ * @returns The stored preset with its server-assigned id.
+ * @throws An ApiError with a code and message if the preset is invalid or the request fails.
+ */
+export const createTeamPreset = async (request: CreatePresetRequest): Promise<SettingsPreset> => {
+  const response = await apiFetch(`${API_BASE_URL}/presets`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(request),
+  });
+  if (!response.ok) throw await toApiError(response);
+  const { preset } = await parseResponse(response, PresetResponseSchema, 'preset');
+  return preset;
+};
+
+/**
+ * Renames a team preset and/or replaces its settings.
+ * @param presetId - Id of a team preset.
+ * @param changes - New name and/or settings.
+ * @returns The updated preset.
+ * @throws An ApiError with a code and message if it is not found or the request fails.
+ */
+export const updateTeamPreset = async (presetId: string, changes: UpdatePresetRequest): Promise<SettingsPreset> => {
+  const response = await apiFetch(`${API_BASE_URL}/presets/${encodeURIComponent(presetId)}`, {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(changes),
+  });
+  if (!response.ok) throw await toApiError(response);
+  const { preset } = await parseResponse(response, PresetResponseSchema, 'preset');
+  return preset;
+};
+
+/**
+ * Deletes a team preset.
+ * @param presetId - Id of a team preset.
+ * @returns False if the preset did not exist.
+ * @throws An ApiError with a code and message for any other failure.
+ */
+export const deleteTeamPreset = async (presetId: string): Promise<boolean> => {
+  const response = await apiFetch(`${API_BASE_URL}/presets/${encodeURIComponent(presetId)}`, { method: 'DELETE' });
+  if (response.status === 404) return false;
+  if (!response.ok) throw await toApiError(response);
+  return true;
+};
+
+/**
+ * Adds every preset in an exported preset file to the team library.
+ * @param file - Parsed preset file.
+ * @returns The newly stored presets.
+ * @throws An ApiError with a code and message if the file is invalid or the request fails.
+ */
+export const importTeamPresets = async (file: PresetFile): Promise<SettingsPreset[]> => {
+  const response = await apiFetch(`${API_BASE_URL}/presets/import`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(file),
+  });
+  if (!response.ok) throw await toApiError(response);
+  const { presets } = await parseResponse(response, PresetListResponseSchema, 'preset import');
+  return presets;
+};
+
+/**
+ * Checks whether the backend can remove garment backgrounds.
+ * @returns True when a segmentation service is configured.
+ * @throws An ApiError with a code and message if the request fails.
+ */
+export const getBackgroundRemovalStatus = async (): Promise<boolean> => {
+  const response = await apiFetch(`${API_BASE_URL}/background-removal`);
+  if (!response.ok) throw await toApiError(response);
+  const { available } = await parseResponse(response, BackgroundRemovalStatusSchema, 'background removal status');
+  return available;
+};
+
+/**
+ * Removes the background of a garment image on the backend.
+ * @param imageData - Garment image as a data URL.
+ * @returns A PNG data URL with a transparent background.
+ * @throws An ApiError with a code and message if removal is unavailable or fails.
+ */
+export const removeBackground = async (imageData: string, signal?: AbortSignal): Promise<string> => {
+  const response = await apiFetch(`${API_BASE_URL}/background-removal`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ imageData }),
+    signal,
+  });
+  if (!response.ok) throw await toApiError(response);
+  const { imageData: cleaned } = await parseResponse(response, BackgroundRemovalResponseSchema, 'background removal');
+  return cleaned;
+};
+
+/**
+ * Lists the saved model identities.
+ * @returns Identities sorted by name.
+ * @throws An ApiError with a code and message if the request fails.
+ */
+export const listIdentities = async (): Promise<ModelIdentity[]> => {
+  const response = await apiFetch(`${API_BASE_URL}/identities`);
+  if (!response.ok) throw await toApiError(response);
+  const { identities } = await parseResponse(response, IdentityListResponseSchema, 'identities');
+  return identities;
+};
+
+/**
+ * Saves a model identity from a generated image.
+ * @param request - Identity name, the generation it comes from and the reference crop as a data URI.
+ * @returns The stored identity, with the generation's model settings as its attributes.
+ * @throws An ApiError with a code and message if the crop is invalid, the generation is gone or the request fails.
+ */
+export const createIdentity = async (request: CreateIdentityRequest): Promise<ModelIdentity> => {
+  const response = await apiFetch(`${API_BASE_URL}/identities`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(request),
+  });
+  if (!response.ok) throw await toApiError(response);
+  const { identity } = await parseResponse(response, IdentityResponseSchema, 'identity');
+  return identity;
+};
+
+/**
+ * Renames a model identity and/or replaces its attributes.
+ * @param identityId - Id of a saved identity.
+ * @param changes - New name and/or model settings.
+ * @returns The updated identity.
+ * @throws An ApiError with a code and message if it is not found or the request fails.
+ */
+export const updateIdentity = async (identityId: string, changes: UpdateIdentityRequest): Promise<ModelIdentity> => {
+  const response = await apiFetch(`${API_BASE_URL}/identities/${encodeURIComponent(identityId)}`, {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(changes),
+  });
+  if (!response.ok) throw await toApiError(response);
+  const { identity } = await parseResponse(response, IdentityResponseSchema, 'identity');
+  return identity;
+};
+
+/**
+ * Deletes a model identity and its reference crop.
+ * @param identityId - Id of a saved identity.
+ * @returns False if the identity did not exist.
+ * @throws An ApiError with a code and message for any other failure.
+ */
+export const deleteIdentity = async (identityId: string): Promise<boolean> => {
+  const response = await apiFetch(`${API_BASE_URL}/identities/${encodeURIComponent(identityId)}`, { method: 'DELETE' });
+  if (response.status === 404) return false;
+  if (!response.ok) throw await toApiError(response);
+  return true;
+};
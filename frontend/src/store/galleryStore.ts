@@ -6,21 +6,30 @@ import { GALLERY_STORAGE_KEY, MAX_GALLERY_ITEMS } from '../constants'; // Trying
 export interface GalleryItem {
   relativePath: string;
   timestamp: number; // Store timestamp for sorting or display
+  generationId?: string; // Server-side record id; missing on items saved by older versions
 }
 
 interface GalleryState {
   galleryItems: GalleryItem[]; // Changed state name and type
-  addImage: (relativePath: string) => void;
+  addImage: (relativePath: string, generationId?: string) => void;
   clearGallery: () => void;
   deleteImage: (relativePath: string) => void; // Action to delete an image
 }
 
+// Server id for a gallery item. Older items lack generationId, but the image file is always named
+// "<generationId>.<ext>" so it can be recovered from the path.
+export const getGalleryItemGenerationId = (item: GalleryItem): string => {
+  if (item.generationId) return item.generationId;
+  const fileName = item.relativePath.split('/').pop() ?? '';
+  return fileName.replace(/\.[^.]+$/, '');
+};
+
 const useGalleryStore = create<GalleryState>()(
   persist(
     (set, get) => ({
       galleryItems: [], // Initial state
 
-      addImage: (relativePath: string) => {
+      addImage: (relativePath: string, generationId?: string) => {
         const currentItems = get().galleryItems;
         // Prevent duplicates based on relativePath (optional)
         // if (currentItems.some(item => item.relativePath === relativePath)) {
@@ -29,6 +38,7 @@ const useGalleryStore = create<GalleryState>()(
         const newItem: GalleryItem = {
           relativePath: relativePath,
           timestamp: Date.now(), // Add timestamp when adding
+          generationId: generationId,
         };
         const newItems = [newItem, ...currentItems].slice(0, MAX_GALLERY_ITEMS);
         set({ galleryItems: newItems });
@@ -1,21 +1,64 @@
 import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { ClientErrorInfo, GarmentRole, GenerationJobStatus, GenerationSettings, JobRetry } from '../services/api';
+import { GENERATION_JOB_STORAGE_KEY } from '../constants';
+
+// One uploaded garment image and what it shows
+export interface UploadedGarment {
+  id: string; // Client-side key for the list
+  role: GarmentRole;
+  imageData: string; // Data URL sent to the backend - the cleaned image once clean-up finishes
+  originalImageData: string; // Downscaled and re-encoded upload, for the before/after preview and re-running clean-up
+  sourceBytes: number; // Size of the file the user picked
+  isProcessing?: boolean; // Clean-up is running; imageData is not final yet
+  processingError?: string | null; // Clean-up failed; imageData is the original
+}
+
+// One variation returned by a batch generation request
+export interface GenerationResult {
+  generationId: string | null; // Null when this variation failed
+  imageRelativePath: string | null; // Null when this variation failed
+  errorMessage: string | null; // Per-variation failure reason
+}
+
+// Generation job the UI is waiting on; only set while it is queued or running
+export interface ActiveJob {
+  id: string;
+  status: GenerationJobStatus;
+  completedVariations: number;
+  variationCount: number;
+  retry?: JobRetry | null; // Set while the server retries a variation after a transient failure
+}
 
 interface GenerationState {
   // Input
-  uploadedImageData: string | null;
-  setUploadedImageData: (data: string | null) => void;
+  uploadedGarments: UploadedGarment[]; // Sent in this order; the prompt numbers them "image 1", "image 2", ...
+  addUploadedGarments: (garments: UploadedGarment[]) => void; // Appended to the current list, which clean-up may have changed meanwhile
+  removeUploadedGarment: (garmentId: string) => void;
+  updateUploadedGarment: (garmentId: string, changes: Partial<UploadedGarment>) => void; // No-op if it was removed
 
   // Output
+  generatedResults: GenerationResult[]; // All variations from the latest batch
+  setGeneratedResults: (results: GenerationResult[], settings: GenerationSettings | null) => void;
+  selectedResultIndex: number | null; // Variation currently shown as the "active" image
+  selectResult: (index: number) => void;
   generatedImageRelativePath: string | null;
   setGeneratedImageRelativePath: (path: string | null) => void;
+  generatedGenerationId: string | null; // Server record of the displayed image, if known
+  generatedSettings: GenerationSettings | null; // Settings that produced the displayed image, if known
+  setGenerationDetails: (generationId: string | null, settings: GenerationSettings | null) => void;
   generatedPrompt: string | null;
   setGeneratedPrompt: (prompt: string | null) => void;
 
   // Status & Errors
-  isLoading: boolean;
-  setIsLoading: (loading: boolean) => void;
+  activeJob: ActiveJob | null; // Persisted so a page reload resumes polling
+  setActiveJob: (job: ActiveJob | null) => void;
+  activeSweepId: string | null; // Sweep shown in the sweep grid; persisted like activeJob, kept once it finishes
+  setActiveSweepId: (sweepId: string | null) => void;
   errorMessage: string | null; // Error from generation API
-  setErrorMessage: (message: string | null) => void;
+  errorInfo: ClientErrorInfo | null; // Code and retryability of errorMessage, when the API reported them
+  setErrorMessage: (message: string | null) => void; // Plain message without a code
+  setError: (error: ClientErrorInfo) => void;
   uploadError: string | null; // Error from ImageUploader component
   setUploadError: (error: string | null) => void;
 
@@ -23,31 +66,93 @@ interface GenerationState {
   clearGenerationState: () => void;
 }
 
-const useGenerationStore = create<GenerationState>((set) => ({
-  // Initial State
-  uploadedImageData: null,
-  generatedImageRelativePath: null,
-  generatedPrompt: null,
-  isLoading: false,
-  errorMessage: null,
-  uploadError: null,
-
-  // Actions
-  setUploadedImageData: (data) => set({ uploadedImageData: data }),
-  setGeneratedImageRelativePath: (path) => set({ generatedImageRelativePath: path }),
-  setGeneratedPrompt: (prompt) => set({ generatedPrompt: prompt }),
-  setIsLoading: (loading) => set({ isLoading: loading }),
-  setErrorMessage: (message) => set({ errorMessage: message }),
-  setUploadError: (error) => set({ uploadError: error }),
-
-  // Combined clear action
-  clearGenerationState: () => set({
-    generatedImageRelativePath: null,
-    generatedPrompt: null,
-    isLoading: false,
-    errorMessage: null,
-    // Keep uploadedImageData and uploadError separate as they relate to input
-  }),
-}));
-
-export default useGenerationStore;
\ No newline at end of file
+const useGenerationStore = create<GenerationState>()(
+  persist(
+    (set, get) => ({
+      // Initial State
+      uploadedGarments: [],
+      generatedResults: [],
+      selectedResultIndex: null,
+      generatedImageRelativePath: null,
+      generatedGenerationId: null,
+      generatedSettings: null,
+      generatedPrompt: null,
+      activeJob: null,
+      activeSweepId: null,
+      errorMessage: null,
+      errorInfo: null,
+      uploadError: null,
+
+      // Actions
+      addUploadedGarments: (garments) => set(state => ({ uploadedGarments: [...state.uploadedGarments, ...garments] })),
+      removeUploadedGarment: (garmentId) => set(state => ({
+        uploadedGarments: state.uploadedGarments.filter(garment => garment.id !== garmentId),
+      })),
+      updateUploadedGarment: (garmentId, changes) => set(state => ({
+        uploadedGarments: state.uploadedGarments.map(garment => (garment.id === garmentId ? { ...garment, ...changes } : garment)),
+      })),
+      setGeneratedResults: (results, settings) => {
+        // Auto-select the first successful variation
+        const firstSuccessIndex = results.findIndex(result => result.imageRelativePath !== null);
+        set({
+          generatedResults: results,
+          selectedResultIndex: firstSuccessIndex === -1 ? null : firstSuccessIndex,
+          generatedImageRelativePath: firstSuccessIndex === -1 ? null : results[firstSuccessIndex].imageRelativePath,
+          generatedGenerationId: firstSuccessIndex === -1 ? null : results[firstSuccessIndex].generationId,
+          generatedSettings: settings, // Shared by every variation in the batch
+        });
+      },
+      selectResult: (index) => {
+        const result = get().generatedResults[index];
+        if (!result?.imageRelativePath) return; // Failed variations can't be selected
+        set({
+          selectedResultIndex: index,
+          generatedImageRelativePath: result.imageRelativePath,
+          generatedGenerationId: result.generationId,
+        });
+      },
+      // Showing a single image (e.g. from the gallery) replaces the current batch
+      setGeneratedImageRelativePath: (path) => set({
+        generatedImageRelativePath: path,
+        generatedResults: [],
+        selectedResultIndex: null,
+        generatedGenerationId: null,
+        generatedSettings: null,
+      }),
+      setGenerationDetails: (generationId, settings) => set({
+        generatedGenerationId: generationId,
+        generatedSettings: settings,
+      }),
+      setGeneratedPrompt: (prompt) => set({ generatedPrompt: prompt }),
+      setActiveJob: (job) => set({ activeJob: job }),
+      setActiveSweepId: (sweepId) => set({ activeSweepId: sweepId }),
+      setErrorMessage: (message) => set({ errorMessage: message, errorInfo: null }),
+      setError: (error) => set({ errorMessage: error.message, errorInfo: error }),
+      setUploadError: (error) => set({ uploadError: error }),
+
+      // Combined clear action
+      clearGenerationState: () => set({
+        generatedResults: [],
+        selectedResultIndex: null,
+        generatedImageRelativePath: null,
+        generatedGenerationId: null,
+        generatedSettings: null,
+        generatedPrompt: null,
+        errorMessage: null,
+        errorInfo: null,
+        // Keep uploadedGarments and uploadError separate as they relate to input
+        // Keep activeJob - it is cleared by the polling loop once the job finishes
+      }),
+    }),
+    {
+      name: GENERATION_JOB_STORAGE_KEY,
+      // Only the in-flight job and sweep survive a reload; their results are re-fetched from the backend
+      partialize: (state) => ({ activeJob: state.activeJob, activeSweepId: state.activeSweepId }),
+    }
+  )
+);
+
+// True while a generation job is queued or running
+export const selectIsGenerating = (state: GenerationState) => state.activeJob !== null;
+
+export default useGenerationStore;
@@ -0,0 +1,26 @@
+import { create } from 'zustand';
+import { ModelIdentity } from '../services/api';
+
+// Saved model identities as loaded from the backend (not persisted in the browser).
+// Shared by the identity picker in the model settings and the form that saves a new identity.
+interface IdentityState {
+  identities: ModelIdentity[];
+  isLoaded: boolean;
+  setIdentities: (identities: ModelIdentity[]) => void;
+  upsertIdentity: (identity: ModelIdentity) => void; // Adds a new identity or replaces an updated one
+  removeIdentity: (identityId: string) => void;
+}
+
+const sortByName = (identities: ModelIdentity[]) => identities.slice().sort((a, b) => a.name.localeCompare(b.name));
+
+const useIdentityStore = create<IdentityState>()((set) => ({
+  identities: [],
+  isLoaded: false,
+  setIdentities: (identities) => set({ identities: sortByName(identities), isLoaded: true }),
+  upsertIdentity: (identity) => set(state => ({
+    identities: sortByName([...state.identities.filter(existing => existing.id !== identity.id), identity]),
+  })),
+  removeIdentity: (identityId) => set(state => ({ identities: state.identities.filter(identity => identity.id !== identityId) })),
+}));
+
+export default useIdentityStore;
@@ -0,0 +1,42 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { CreatePresetRequest, UpdatePresetRequest } from 'shared';
+import { PRESET_STORAGE_KEY } from '../constants';
+import { SettingsPreset } from '../services/api';
+
+// Personal presets ("My presets"), kept in this browser only.
+// Built-in presets come from the shared package and team presets from the backend.
+interface PresetState {
+  presets: SettingsPreset[];
+  addPresets: (presets: CreatePresetRequest[]) => SettingsPreset[]; // Returns the stored presets
+  updatePreset: (presetId: string, changes: UpdatePresetRequest) => void;
+  deletePreset: (presetId: string) => void;
+}
+
+const usePresetStore = create<PresetState>()(
+  persist(
+    (set) => ({
+      presets: [],
+
+      addPresets: (requests) => {
+        const now = new Date().toISOString();
+        const added = requests.map(({ name, settings }) => ({ id: crypto.randomUUID(), name, settings, createdAt: now, updatedAt: now }));
+        set(state => ({ presets: [...state.presets, ...added].sort((a, b) => a.name.localeCompare(b.name)) }));
+        return added;
+      },
+
+      updatePreset: (presetId, changes) => set(state => ({
+        presets: state.presets
+          .map(preset => (preset.id === presetId ? { ...preset, ...changes, updatedAt: new Date().toISOString() } : preset))
+          .sort((a, b) => a.name.localeCompare(b.name)),
+      })),
+
+      deletePreset: (presetId) => set(state => ({ presets: state.presets.filter(preset => preset.id !== presetId) })),
+    }),
+    {
+      name: PRESET_STORAGE_KEY,
+    }
+  )
+);
+
+export default usePresetStore;
@@ -1,12 +1,47 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware'; // Import persist middleware
-import { ModelSettingsState } from '../components/ModelSettings';
-import { EnvironmentSettingsState } from '../components/EnvironmentSettings';
+import type { EnvironmentSettings, ModelSettings } from 'shared';
+import { DEFAULT_VARIATION_COUNT } from '../constants';
+import { GenerationSettings, PromptOverride } from '../services/api';
+import { EncodeImageOptions } from '../utils/imageEncoder';
+
+// Expert-mode edits as typed in the prompt preview panel
+export interface PromptEdits {
+  prompt: string | null; // Edited prompt; null follows the rendered prompt
+  extraInstructions: string;
+  avoid: string; // Comma- or newline-separated
+}
+
+// Clean-up applied to garment images when they are uploaded
+export interface PreprocessingOptions {
+  autoCrop: boolean; // Crop to the garment's bounding box
+  backgroundRemoval: 'off' | 'local' | 'server'; // Local works on plain backgrounds; server uses the backend's segmentation service
+}
+
+const defaultPreprocessing: PreprocessingOptions = { autoCrop: true, backgroundRemoval: 'off' };
+
+// Downscaling and re-encoding applied to new uploads
+const defaultUploadEncoding: EncodeImageOptions = { maxDimension: 2048, mimeType: 'image/webp', quality: 0.85 };
+
+const emptyPromptEdits: PromptEdits = { prompt: null, extraInstructions: '', avoid: '' };
+
+// The override sent with a generation, or undefined when the edits change nothing
+export const toPromptOverride = (edits: PromptEdits): PromptOverride | undefined => {
+  const prompt = edits.prompt?.trim();
+  const extraInstructions = edits.extraInstructions.trim();
+  const avoid = edits.avoid.split(/[,\n]/).map(item => item.trim()).filter(Boolean);
+  if (!prompt && !extraInstructions && avoid.length === 0) return undefined;
+  return {
+    ...(prompt && { prompt }),
+    ...(extraInstructions && { extraInstructions }),
+    ...(avoid.length > 0 && { avoid }),
+  };
+};
 
 // --- Default Values (extracted from components) ---
 
 // Default Model Settings
-const defaultModelSettings: ModelSettingsState = {
+const defaultModelSettings: ModelSettings = {
   gender: 'Female',
   bodyType: 'Slim',
   ageRange: '18-25',
@@ -19,7 +54,7 @@ const defaultModelSettings: ModelSettingsState = {
 };
 
 // Default Environment Settings (using keys for presets where applicable)
-const defaultEnvironmentSettings: EnvironmentSettingsState = {
+const defaultEnvironmentSettings: EnvironmentSettings = {
   backgroundPreset: 'studio-white', // Default to the key
   backgroundCustom: '',
   lighting: 'Studio Softbox',
@@ -33,10 +68,26 @@ const defaultEnvironmentSettings: EnvironmentSettingsState = {
 // --- Store Interface ---
 
 interface SettingsState {
-  modelSettings: ModelSettingsState;
-  environmentSettings: EnvironmentSettingsState;
-  setModelSettings: (settings: ModelSettingsState) => void;
-  setEnvironmentSettings: (settings: EnvironmentSettingsState) => void;
+  modelSettings: ModelSettings;
+  environmentSettings: EnvironmentSettings;
+  identityId: string | null; // Saved model identity to keep across generations; null invents a new person each time
+  variationCount: number; // Number of images generated per click
+  provider: string | null; // Image-generation provider id; null uses the backend's default
+  expertMode: boolean; // Send promptEdits with generations
+  promptEdits: PromptEdits;
+  preprocessing: PreprocessingOptions;
+  uploadEncoding: EncodeImageOptions;
+  setModelSettings: (settings: ModelSettings) => void;
+  setEnvironmentSettings: (settings: EnvironmentSettings) => void;
+  setIdentityId: (identityId: string | null) => void;
+  setVariationCount: (count: number) => void;
+  setProvider: (provider: string | null) => void;
+  setExpertMode: (enabled: boolean) => void;
+  setPromptEdits: (edits: Partial<PromptEdits>) => void;
+  resetPromptEdits: () => void;
+  setPreprocessing: (options: Partial<PreprocessingOptions>) => void;
+  setUploadEncoding: (options: Partial<EncodeImageOptions>) => void;
+  restoreSettings: (settings: GenerationSettings) => void; // Load settings saved with a past generation
   // Optional: Add actions to update individual settings if needed later
 }
 
@@ -47,8 +98,28 @@ const useSettingsStore = create<SettingsState>()(
     (set) => ({
       modelSettings: defaultModelSettings,
       environmentSettings: defaultEnvironmentSettings,
+      identityId: null,
+      variationCount: DEFAULT_VARIATION_COUNT,
+      provider: null,
+      expertMode: false,
+      promptEdits: emptyPromptEdits,
+      preprocessing: defaultPreprocessing,
+      uploadEncoding: defaultUploadEncoding,
       setModelSettings: (settings) => set({ modelSettings: settings }),
       setEnvironmentSettings: (settings) => set({ environmentSettings: settings }),
+      setIdentityId: (identityId) => set({ identityId }),
+      setVariationCount: (count) => set({ variationCount: count }),
+      setProvider: (provider) => set({ provider }),
+      setExpertMode: (enabled) => set({ expertMode: enabled }),
+      setPromptEdits: (edits) => set(state => ({ promptEdits: { ...state.promptEdits, ...edits } })),
+      resetPromptEdits: () => set({ promptEdits: emptyPromptEdits }),
+      setPreprocessing: (options) => set(state => ({ preprocessing: { ...state.preprocessing, ...options } })),
+      setUploadEncoding: (options) => set(state => ({ uploadEncoding: { ...state.uploadEncoding, ...options } })),
+      // Merge over defaults so records saved before a field existed still produce a complete state
+      restoreSettings: (settings) => set({
+        modelSettings: { ...defaultModelSettings, ...settings.modelSettings },
+        environmentSettings: { ...defaultEnvironmentSettings, ...settings.environmentSettings },
+      }),
     }),
     {
       name: 'ai-fashion-settings-storage', // Name for localStorage item
@@ -0,0 +1,82 @@
+/**
+ * Main-thread side of the image encoder worker: resize to a maximum dimension and re-encode as WebP or JPEG
+ */
+
+export type UploadImageFormat = 'image/webp' | 'image/jpeg';
+
+export interface EncodeImageOptions {
+  maxDimension: number; // Longest side in pixels; smaller images are not upscaled
+  mimeType: UploadImageFormat;
+  quality: number; // 0-1
+}
+
+export interface EncodeImageRequest extends EncodeImageOptions {
+  id: number;
+  file: Blob;
+}
+
+export type EncodeImageResponse =
+  | { id: number; blob: Blob; width: number; height: number }
+  | { id: number; error: string };
+
+let worker: Worker | null = null;
+let nextRequestId = 1;
+const pending = new Map<number, { resolve: (response: EncodeImageResponse) => void; reject: (error: Error) => void }>();
+
+// One worker for the whole app, created on first use
+const getWorker = () => {
+  if (worker) return worker;
+  worker = new Worker(new URL('../workers/imageEncoder.worker.ts', import.meta.url), { type: 'module' });
+  worker.onmessage = (event: MessageEvent<EncodeImageResponse>) => {
+    pending.get(event.data.id)?.resolve(event.data);
+    pending.delete(event.data.id);
+  };
+  worker.onerror = (event) => {
+    // A crashed worker fails everything in flight; the next call starts a fresh one
+    pending.forEach(({ reject }) => reject(new Error(event.message || 'Image encoder failed.')));
+    pending.clear();
+    worker?.terminate();
+    worker = null;
+  };
+  return worker;
+};
+
+/**
+ * True when the browser can encode in a worker (OffscreenCanvas and createImageBitmap).
+ */
+export const isImageEncoderSupported = () =>
+  typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined' && typeof createImageBitmap !== 'undefined';
+
+/**
+ * Downscales and re-encodes an image in the encoder worker, honoring its EXIF orientation and stripping metadata.
+ * @param file - Source image.
+ * @param options - Maximum dimension, output format and quality.
+ * @returns The encoded image and its pixel size.
+ * @throws An Error if the image can't be decoded or encoded.
+ */
+export const encodeImage = (file: Blob, options: EncodeImageOptions): Promise<{ blob: Blob; width: number; height: number }> =>
+  new Promise<EncodeImageResponse>((resolve, reject) => {
+    const id = nextRequestId++;
+    pending.set(id, { resolve, reject });
+    getWorker().postMessage({ id, file, ...options } satisfies EncodeImageRequest);
+  }).then(response => {
+    if ('error' in response) throw new Error(response.error);
+    return response;
+  });
+
+/**
+ * Size in bytes of the data a base64 data URL encodes.
+ */
+export const dataUrlBytes = (dataUrl: string) => {
+  const base64 = dataUrl.slice(dataUrl.indexOf(',') + 1);
+  return Math.floor(base64.length * 3 / 4) - (base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0);
+};
+
+/**
+ * Human-readable byte count, e.g. "8.4 MB".
+ */
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
@@ -0,0 +1,157 @@
+/**
+ * Garment image clean-up run in the browser before upload: plain-background removal and auto-crop
+ */
+import { AUTO_CROP_MARGIN_RATIO, BACKGROUND_COLOR_TOLERANCE } from '../constants';
+
+type Rgb = [number, number, number];
+
+const ALPHA_THRESHOLD = 16; // Pixels more transparent than this count as background
+
+const loadImage = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const image = new Image();
+  image.onload = () => resolve(image);
+  image.onerror = () => reject(new Error('Could not decode the image.'));
+  image.src = src;
+});
+
+const drawToCanvas = (image: CanvasImageSource, width: number, height: number, sourceRect?: [number, number, number, number]) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) throw new Error('Canvas is not supported in this browser.');
+  if (sourceRect) {
+    const [sourceX, sourceY, sourceWidth, sourceHeight] = sourceRect;
+    context.drawImage(image, sourceX, sourceY, sourceWidth, sourceHeight, 0, 0, width, height);
+  }
+  else {
+    context.drawImage(image, 0, 0);
+  }
+  return { canvas, context };
+};
+
+const mimeTypeOf = (dataUrl: string) => dataUrl.slice(5, dataUrl.indexOf(';'));
+
+// Indexes of the outermost ring of pixels
+function* borderPixels(width: number, height: number) {
+  for (let x = 0; x < width; x++) {
+    yield x;
+    yield (height - 1) * width + x;
+  }
+  for (let y = 1; y < height - 1; y++) {
+    yield y * width;
+    yield y * width + width - 1;
+  }
+}
+
+// Average colour of the border: the background estimate for product photos
+const borderColor = (data: Uint8ClampedArray, width: number, height: number): Rgb => {
+  const sum: Rgb = [0, 0, 0];
+  let count = 0;
+  for (const pixel of borderPixels(width, height)) {
+    sum[0] += data[pixel * 4];
+    sum[1] += data[pixel * 4 + 1];
+    sum[2] += data[pixel * 4 + 2];
+    count++;
+  }
+  return sum.map(total => total / count) as Rgb;
+};
+
+const isNearColor = (data: Uint8ClampedArray, pixel: number, [r, g, b]: Rgb, tolerance: number) => {
+  const offset = pixel * 4;
+  return Math.hypot(data[offset] - r, data[offset + 1] - g, data[offset + 2] - b) <= tolerance;
+};
+
+/**
+ * Makes a plain background transparent by flood-filling from the border with pixels close to the border colour.
+ * Works for studio and single-colour backgrounds; cluttered backgrounds need the backend's segmentation service.
+ * @param dataUrl - Garment image as a data URL.
+ * @returns A WebP data URL for WebP input, PNG otherwise.
+ */
+export const removePlainBackground = async (dataUrl: string, tolerance = BACKGROUND_COLOR_TOLERANCE): Promise<string> => {
+  const image = await loadImage(dataUrl);
+  const { naturalWidth: width, naturalHeight: height } = image;
+  const { canvas, context } = drawToCanvas(image, width, height);
+  const pixels = context.getImageData(0, 0, width, height);
+  const { data } = pixels;
+  const background = borderColor(data, width, height);
+
+  const visited = new Uint8Array(width * height);
+  const stack: number[] = [];
+  for (const pixel of borderPixels(width, height)) {
+    if (!visited[pixel] && isNearColor(data, pixel, background, tolerance)) {
+      visited[pixel] = 1;
+      stack.push(pixel);
+    }
+  }
+  while (stack.length > 0) {
+    const pixel = stack.pop()!;
+    data[pixel * 4 + 3] = 0;
+    const x = pixel % width;
+    const neighbours = [
+      x > 0 ? pixel - 1 : -1,
+      x < width - 1 ? pixel + 1 : -1,
+      pixel - width,
+      pixel + width,
+    ];
+    for (const neighbour of neighbours) {
+      if (neighbour >= 0 && neighbour < visited.length && !visited[neighbour] && isNearColor(data, neighbour, background, tolerance)) {
+        visited[neighbour] = 1;
+        stack.push(neighbour);
+      }
+    }
+  }
+
+  context.putImageData(pixels, 0, 0);
+  return canvas.toDataURL(mimeTypeOf(dataUrl) === 'image/webp' ? 'image/webp' : 'image/png', 0.92); // Formats with alpha
+};
+
+/**
+ * Crops to the garment's bounding box plus a small margin. The garment is whatever is opaque (for images with a
+ * transparent background) or differs from the border colour.
+ * @param dataUrl - Garment image as a data URL.
+ * @returns The cropped image in the same format, or the input unchanged when there is nothing to crop.
+ */
+export const autoCropImage = async (dataUrl: string, tolerance = BACKGROUND_COLOR_TOLERANCE): Promise<string> => {
+  const image = await loadImage(dataUrl);
+  const { naturalWidth: width, naturalHeight: height } = image;
+  const { data } = drawToCanvas(image, width, height).context.getImageData(0, 0, width, height);
+
+  let hasTransparentBorder = false;
+  for (const pixel of borderPixels(width, height)) {
+    if (data[pixel * 4 + 3] < ALPHA_THRESHOLD) {
+      hasTransparentBorder = true;
+      break;
+    }
+  }
+  const background = borderColor(data, width, height);
+  const isForeground = hasTransparentBorder
+    ? (pixel: number) => data[pixel * 4 + 3] >= ALPHA_THRESHOLD
+    : (pixel: number) => !isNearColor(data, pixel, background, tolerance);
+
+  let [left, top, right, bottom] = [width, height, -1, -1];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!isForeground(y * width + x)) continue;
+      if (x < left) left = x;
+      if (x > right) right = x;
+      if (y < top) top = y;
+      if (y > bottom) bottom = y;
+    }
+  }
+  if (right < 0) return dataUrl; // Nothing but background
+
+  const marginX = Math.round((right - left + 1) * AUTO_CROP_MARGIN_RATIO);
+  const marginY = Math.round((bottom - top + 1) * AUTO_CROP_MARGIN_RATIO);
+  left = Math.max(0, left - marginX);
+  top = Math.max(0, top - marginY);
+  right = Math.min(width - 1, right + marginX);
+  bottom = Math.min(height - 1, bottom + marginY);
+  const cropWidth = right - left + 1;
+  const cropHeight = bottom - top + 1;
+  if (cropWidth === width && cropHeight === height) return dataUrl; // Avoid a lossy re-encode for nothing
+
+  const { canvas } = drawToCanvas(image, cropWidth, cropHeight, [left, top, cropWidth, cropHeight]);
+  const mimeType = mimeTypeOf(dataUrl);
+  return canvas.toDataURL(mimeType === 'image/jpeg' || mimeType === 'image/webp' ? mimeType : 'image/png', 0.92);
+};
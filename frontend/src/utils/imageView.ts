@@ -0,0 +1,15 @@
+// Zoom and pan of a zoomable ImageViewer; offsets are in screen pixels
+export interface ImageViewState {
+  zoom: number;
+  offsetX: number;
+  offsetY: number;
+}
+
+export const DEFAULT_IMAGE_VIEW: ImageViewState = { zoom: 1, offsetX: 0, offsetY: 0 };
+export const MAX_IMAGE_ZOOM = 8;
+
+// Multiplies the zoom, clamped to 1..MAX_IMAGE_ZOOM; zooming all the way out recentres the image
+export const zoomImageView = (view: ImageViewState, factor: number): ImageViewState => {
+  const zoom = Math.min(MAX_IMAGE_ZOOM, Math.max(1, view.zoom * factor));
+  return zoom === 1 ? DEFAULT_IMAGE_VIEW : { ...view, zoom };
+};
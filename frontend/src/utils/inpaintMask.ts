@@ -0,0 +1,84 @@
+// Inpainting masks drawn over a generated image. Strokes are painted in any colour on a transparent canvas
+// at the image's natural size; the mask sent to the backend is white where painted and black elsewhere.
+
+export type MaskTool = 'brush' | 'lasso' | 'erase';
+
+export interface MaskPoint {
+  x: number;
+  y: number;
+}
+
+export const MASK_PAINT_COLOR = 'rgb(239, 68, 68)';
+
+// Brush width as a percentage of the image's longer side, so it feels the same at any resolution
+export const MASK_BRUSH_SIZE_RANGE = { min: 1, max: 15, default: 5 };
+
+const contextOf = (canvas: HTMLCanvasElement) => {
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not supported in this browser.');
+  return context;
+};
+
+// A brush or eraser segment; a single point draws a dot
+export const paintStroke = (canvas: HTMLCanvasElement, from: MaskPoint, to: MaskPoint, width: number, erase: boolean) => {
+  const context = contextOf(canvas);
+  context.globalCompositeOperation = erase ? 'destination-out' : 'source-over';
+  context.strokeStyle = MASK_PAINT_COLOR;
+  context.lineWidth = width;
+  context.lineCap = 'round';
+  context.beginPath();
+  context.moveTo(from.x, from.y);
+  context.lineTo(to.x, to.y);
+  context.stroke();
+};
+
+// Fills a closed lasso path, or just outlines it while it is still being drawn
+export const paintLasso = (canvas: HTMLCanvasElement, points: MaskPoint[], { fill }: { fill: boolean }) => {
+  if (points.length < 2) return;
+  const context = contextOf(canvas);
+  context.globalCompositeOperation = 'source-over';
+  context.beginPath();
+  context.moveTo(points[0].x, points[0].y);
+  points.slice(1).forEach(point => context.lineTo(point.x, point.y));
+  context.closePath();
+  if (fill) {
+    context.fillStyle = MASK_PAINT_COLOR;
+    context.fill();
+  } else {
+    context.strokeStyle = MASK_PAINT_COLOR;
+    context.lineWidth = Math.max(2, canvas.width / 300);
+    context.setLineDash([8, 6]);
+    context.stroke();
+    context.setLineDash([]);
+  }
+};
+
+export const clearCanvas = (canvas: HTMLCanvasElement) => {
+  contextOf(canvas).clearRect(0, 0, canvas.width, canvas.height);
+};
+
+// True once anything has been painted
+export const hasPaint = (canvas: HTMLCanvasElement) => {
+  const { data } = contextOf(canvas).getImageData(0, 0, canvas.width, canvas.height);
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] > 0) return true;
+  }
+  return false;
+};
+
+// Black-and-white PNG data URI of the painted region, at the paint canvas's size
+export const toMaskDataUrl = (paint: HTMLCanvasElement) => {
+  const mask = document.createElement('canvas');
+  mask.width = paint.width;
+  mask.height = paint.height;
+  const context = contextOf(mask);
+  context.drawImage(paint, 0, 0);
+  // Painted pixels turn white, then black goes in behind them
+  context.globalCompositeOperation = 'source-in';
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, mask.width, mask.height);
+  context.globalCompositeOperation = 'destination-over';
+  context.fillStyle = '#000000';
+  context.fillRect(0, 0, mask.width, mask.height);
+  return mask.toDataURL('image/png');
+};
@@ -0,0 +1,61 @@
+/**
+ * Model identities: the reference crop taken from a generated image, and the attributes applied when one is selected
+ */
+import type { ModelSettings } from 'shared';
+import { ModelIdentity } from '../services/api';
+
+export type ReferenceCrop = 'head' | 'upper-body' | 'full';
+
+// Region of the generated image kept as the reference, as fractions of its width and height.
+// Generated models are centred and upright, so fixed regions find the face without detection.
+export const REFERENCE_CROPS: Record<ReferenceCrop, { label: string; x: number; y: number; width: number; height: number }> = {
+  head: { label: 'Head and shoulders', x: 0.2, y: 0, width: 0.6, height: 0.4 },
+  'upper-body': { label: 'Upper body', x: 0.1, y: 0, width: 0.8, height: 0.6 },
+  full: { label: 'Whole image', x: 0, y: 0, width: 1, height: 1 },
+};
+
+const MAX_REFERENCE_DIMENSION = 1024; // Longest side of the saved crop
+
+// Styling choices that change from shot to shot; everything else describes the person
+const SHOT_FIELDS: (keyof ModelSettings)[] = ['pose', 'accessories'];
+
+// The current model settings with the identity's attributes applied; pose and accessories are kept
+export const applyIdentityAttributes = (current: ModelSettings, identity: ModelIdentity): ModelSettings => {
+  const attributes = Object.entries(identity.modelSettings).filter(([field]) => !SHOT_FIELDS.includes(field as keyof ModelSettings));
+  return { ...current, ...Object.fromEntries(attributes) };
+};
+
+// Loads a backend image so it can be drawn to a canvas and read back; images are served with CORS headers
+const loadCrossOriginImage = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const image = new Image();
+  image.crossOrigin = 'anonymous';
+  image.onload = () => resolve(image);
+  image.onerror = () => reject(new Error('Could not load the image to crop.'));
+  image.src = src;
+});
+
+/**
+ * Crops the reference region out of a generated image.
+ * @param imageUrl - Absolute URL of the generated image.
+ * @param crop - Region to keep.
+ * @returns The crop as a JPEG data URI, at most MAX_REFERENCE_DIMENSION pixels on its longest side.
+ */
+export const cropReferenceImage = async (imageUrl: string, crop: ReferenceCrop): Promise<string> => {
+  const image = await loadCrossOriginImage(imageUrl);
+  const region = REFERENCE_CROPS[crop];
+  const sourceX = region.x * image.naturalWidth;
+  const sourceY = region.y * image.naturalHeight;
+  const sourceWidth = region.width * image.naturalWidth;
+  const sourceHeight = region.height * image.naturalHeight;
+  const scale = Math.min(1, MAX_REFERENCE_DIMENSION / Math.max(sourceWidth, sourceHeight));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(sourceWidth * scale);
+  canvas.height = Math.round(sourceHeight * scale);
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not supported in this browser.');
+  context.fillStyle = '#ffffff'; // JPEG has no transparency
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(image, sourceX, sourceY, sourceWidth, sourceHeight, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', 0.92);
+};
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { BUILT_IN_PRESETS } from 'shared';
+import { compareSettings, getSettingsFieldLabel, getSettingsValueLabel } from './settingsFields';
+
+const settings = BUILT_IN_PRESETS[0].settings;
+
+describe('settings labels', () => {
+  it('labels select and free-text fields', () => {
+    expect(getSettingsFieldLabel('modelSettings.bodyType')).toBe('Body Type');
+    expect(getSettingsFieldLabel('environmentSettings.backgroundCustom')).toBe('Custom Background');
+  });
+
+  it('shows background presets by name and other values as-is', () => {
+    expect(getSettingsValueLabel('environmentSettings.backgroundPreset', 'studio-white')).toBe('Studio - White');
+    expect(getSettingsValueLabel('modelSettings.pose', 'Walking')).toBe('Walking');
+    expect(getSettingsValueLabel('modelSettings.pose', 'Not an option')).toBe('Not an option');
+  });
+});
+
+describe('compareSettings', () => {
+  it('flags only the fields that differ', () => {
+    const other = { ...settings, modelSettings: { ...settings.modelSettings, pose: 'Walking' } };
+    const different = compareSettings(settings, other).filter(row => row.isDifferent);
+    expect(different.map(row => row.fieldPath)).toEqual(['modelSettings.pose']);
+    expect(different[0].values).toEqual([settings.modelSettings.pose, 'Walking']);
+  });
+});
@@ -0,0 +1,90 @@
+import { GenerationSettings, SETTINGS_FIELD_PATHS, SettingsFieldPath, SettingsGroup } from 'shared';
+import {
+  GENDER_OPTIONS,
+  BODY_TYPE_OPTIONS,
+  AGE_RANGE_OPTIONS,
+  ETHNICITY_OPTIONS,
+  HAIR_STYLE_OPTIONS,
+  HAIR_COLOR_OPTIONS,
+  HEIGHT_OPTIONS,
+  POSE_OPTIONS,
+  ACCESSORIES_OPTIONS,
+  BACKGROUND_PRESET_MAP,
+  LIGHTING_OPTIONS,
+  LENS_STYLE_OPTIONS,
+  TIME_OF_DAY_OPTIONS,
+  WEATHER_OPTIONS,
+  SEASON_OPTIONS,
+  CAMERA_ANGLE_OPTIONS,
+} from '../constants';
+
+// A settings field with a fixed set of values
+export interface SelectSettingsField {
+  fieldPath: SettingsFieldPath;
+  label: string;
+  options: { value: string; label: string }[];
+}
+
+const toOptions = (values: string[]) => values.map(value => ({ value, label: value }));
+
+// Every select-style settings field, in panel order; the history filters and sorts by these
+export const SELECT_SETTINGS_FIELDS: SelectSettingsField[] = [
+  { fieldPath: 'modelSettings.gender', label: 'Gender', options: toOptions(GENDER_OPTIONS) },
+  { fieldPath: 'modelSettings.bodyType', label: 'Body Type', options: toOptions(BODY_TYPE_OPTIONS) },
+  { fieldPath: 'modelSettings.ageRange', label: 'Age Range', options: toOptions(AGE_RANGE_OPTIONS) },
+  { fieldPath: 'modelSettings.ethnicity', label: 'Ethnicity', options: toOptions(ETHNICITY_OPTIONS) },
+  { fieldPath: 'modelSettings.height', label: 'Height', options: toOptions(HEIGHT_OPTIONS) },
+  { fieldPath: 'modelSettings.hairStyle', label: 'Hair Style', options: toOptions(HAIR_STYLE_OPTIONS) },
+  { fieldPath: 'modelSettings.hairColor', label: 'Hair Color', options: toOptions(HAIR_COLOR_OPTIONS) },
+  { fieldPath: 'modelSettings.pose', label: 'Pose', options: toOptions(POSE_OPTIONS) },
+  { fieldPath: 'modelSettings.accessories', label: 'Accessories', options: toOptions(ACCESSORIES_OPTIONS) },
+  {
+    fieldPath: 'environmentSettings.backgroundPreset',
+    label: 'Background',
+    options: Object.entries(BACKGROUND_PRESET_MAP).map(([label, value]) => ({ value, label })),
+  },
+  { fieldPath: 'environmentSettings.lighting', label: 'Lighting', options: toOptions(LIGHTING_OPTIONS) },
+  { fieldPath: 'environmentSettings.lensStyle', label: 'Lens Style', options: toOptions(LENS_STYLE_OPTIONS) },
+  { fieldPath: 'environmentSettings.timeOfDay', label: 'Time of Day', options: toOptions(TIME_OF_DAY_OPTIONS) },
+  { fieldPath: 'environmentSettings.weather', label: 'Weather', options: toOptions(WEATHER_OPTIONS) },
+  { fieldPath: 'environmentSettings.season', label: 'Season', options: toOptions(SEASON_OPTIONS) },
+  { fieldPath: 'environmentSettings.cameraAngle', label: 'Camera Angle', options: toOptions(CAMERA_ANGLE_OPTIONS) },
+];
+
+// Free-text fields have no option list, only a label
+const FREE_TEXT_FIELD_LABELS: Partial<Record<SettingsFieldPath, string>> = {
+  'environmentSettings.backgroundCustom': 'Custom Background',
+};
+
+// Display label of a settings field, e.g. "Body Type"
+export const getSettingsFieldLabel = (fieldPath: SettingsFieldPath) =>
+  SELECT_SETTINGS_FIELDS.find(field => field.fieldPath === fieldPath)?.label ?? FREE_TEXT_FIELD_LABELS[fieldPath] ?? fieldPath;
+
+// Display label of a value of a settings field; background presets are stored by key
+export const getSettingsValueLabel = (fieldPath: SettingsFieldPath, value: string) =>
+  SELECT_SETTINGS_FIELDS.find(field => field.fieldPath === fieldPath)?.options.find(option => option.value === value)?.label ?? value;
+
+// One settings field of two generations side by side
+export interface SettingsComparisonRow {
+  fieldPath: SettingsFieldPath;
+  label: string;
+  values: [string, string]; // Display labels; empty when unset
+  isDifferent: boolean;
+}
+
+const getSettingsField = (settings: GenerationSettings, fieldPath: SettingsFieldPath) => {
+  const [group, field] = fieldPath.split('.') as [SettingsGroup, string];
+  return (settings[group] as Record<string, string | undefined>)[field] ?? '';
+};
+
+// Compares every settings field of two generations, in panel order
+export const compareSettings = (first: GenerationSettings, second: GenerationSettings): SettingsComparisonRow[] =>
+  SETTINGS_FIELD_PATHS.map(fieldPath => {
+    const [firstValue, secondValue] = [first, second].map(settings => getSettingsField(settings, fieldPath));
+    return {
+      fieldPath,
+      label: getSettingsFieldLabel(fieldPath),
+      values: [getSettingsValueLabel(fieldPath, firstValue), getSettingsValueLabel(fieldPath, secondValue)],
+      isDifferent: firstValue !== secondValue,
+    };
+  });
@@ -0,0 +1,34 @@
+/**
+ * Web Worker that downscales and re-encodes uploaded images off the main thread.
+ * Decoding applies the EXIF orientation; re-encoding drops all metadata (EXIF, GPS) from the output.
+ */
+import type { EncodeImageRequest, EncodeImageResponse } from '../utils/imageEncoder';
+
+self.onmessage = async (event: MessageEvent<EncodeImageRequest>) => {
+  const { id, file, maxDimension, mimeType, quality } = event.data;
+  let response: EncodeImageResponse;
+  try {
+    const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+    const scale = Math.min(1, maxDimension / Math.max(bitmap.width, bitmap.height));
+    const width = Math.max(1, Math.round(bitmap.width * scale));
+    const height = Math.max(1, Math.round(bitmap.height * scale));
+
+    const canvas = new OffscreenCanvas(width, height);
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('OffscreenCanvas 2D context is not available.');
+    context.imageSmoothingQuality = 'high';
+    if (mimeType === 'image/jpeg') {
+      // JPEG has no alpha; flatten transparent areas onto white instead of black
+      context.fillStyle = '#ffffff';
+      context.fillRect(0, 0, width, height);
+    }
+    context.drawImage(bitmap, 0, 0, width, height);
+    bitmap.close();
+
+    const blob = await canvas.convertToBlob({ type: mimeType, quality });
+    response = { id, blob, width, height };
+  } catch (error) {
+    response = { id, error: error instanceof Error ? error.message : 'Could not re-encode the image.' };
+  }
+  self.postMessage(response);
+};
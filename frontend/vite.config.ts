@@ -1,5 +1,5 @@
 /// <reference types="vitest" />
-import { defineConfig } from 'vite'
+import { defineConfig, searchForWorkspaceRoot } from 'vite'
 import react from '@vitejs/plugin-react'
 import tailwindcss from '@tailwindcss/vite'
 // import path from 'path'; // Removed unused import
@@ -10,6 +10,12 @@ export default defineConfig({
     react(),
     tailwindcss(),
   ],
+  server: {
+    fs: {
+      // The shared API contract package lives next to the frontend (linked via file:../shared)
+      allow: [searchForWorkspaceRoot(process.cwd()), '../shared'],
+    },
+  },
   // Vitest configuration moved inside defineConfig
   test: {
     globals: true, // Use global APIs like describe, it, expect
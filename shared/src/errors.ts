@@ -0,0 +1,56 @@
+import { z } from 'zod';
+
+// Stable, machine-readable error taxonomy. Clients branch on `code`, never on `message`.
+export const ErrorCodeSchema = z.enum([
+  'INVALID_INPUT', // Request failed validation; see fieldErrors
+  'NOT_FOUND', // Generation, job or image doesn't exist
+  'CONFLICT', // Resource is in the wrong state for the operation
+  'CANCELLED', // Generation was cancelled by the client
+  'TIMEOUT', // Model call exceeded the server's timeout
+  'SAFETY_BLOCKED', // Prompt or output was blocked by the model's safety filters
+  'AUTH', // Backend credentials for the model were rejected
+  'QUOTA', // Model rate limit or quota exhausted
+  'NO_IMAGE_RETURNED', // Model answered without an image
+  'UPSTREAM_UNAVAILABLE', // Model service unreachable or failing
+  'STORAGE', // Image or metadata could not be stored
+  'INTERNAL', // Anything else
+]);
+
+export type ErrorCode = z.infer<typeof ErrorCodeSchema>;
+
+// One invalid field, addressed by its dotted path in the request (e.g. "settings.modelSettings.gender")
+export const FieldErrorSchema = z.object({
+  field: z.string(),
+  message: z.string(),
+});
+
+// Structured error as reported for requests, jobs and individual variations
+export const ErrorInfoSchema = z.object({
+  code: ErrorCodeSchema,
+  message: z.string(), // Human-readable summary
+  retryable: z.boolean(), // True if repeating the same request may succeed
+  details: z.record(z.unknown()).optional(), // Diagnostic data (e.g. safety ratings); not for display as-is
+});
+
+// Body of every non-2xx JSON response
+export const ApiErrorResponseSchema = ErrorInfoSchema.extend({
+  success: z.literal(false),
+  fieldErrors: z.array(FieldErrorSchema).optional(), // Present on INVALID_INPUT errors
+});
+
+export type FieldError = z.infer<typeof FieldErrorSchema>;
+export type ErrorInfo = z.infer<typeof ErrorInfoSchema>;
+export type ApiErrorResponse = z.infer<typeof ApiErrorResponseSchema>;
+
+// Flattens a validation failure into field-level errors
+export function toFieldErrors(error: z.ZodError): FieldError[] {
+  return error.issues.map(issue => ({
+    field: issue.path.length > 0 ? issue.path.join('.') : '(body)',
+    message: issue.message,
+  }));
+}
+
+// Builds the standard 400 body for a request that failed schema validation
+export function validationErrorResponse(error: z.ZodError, message = 'Invalid request.'): ApiErrorResponse {
+  return { success: false, code: 'INVALID_INPUT', message, retryable: false, fieldErrors: toFieldErrors(error) };
+}
@@ -0,0 +1,36 @@
+import { z } from 'zod';
+import { UploadIdSchema } from './uploads';
+
+// --- Garment images ---
+
+export const MAX_GARMENTS = 6; // Garment images per generation request
+
+// What each uploaded image shows. "garment" is an unlabelled item - the single-upload case.
+export const GARMENT_ROLES = ['garment', 'top', 'bottom', 'outerwear', 'shoes', 'accessory'] as const;
+export const GarmentRoleSchema = z.enum(GARMENT_ROLES);
+export type GarmentRole = z.infer<typeof GarmentRoleSchema>;
+
+// How prompts and the UI refer to each role
+export const GARMENT_ROLE_LABELS: Record<GarmentRole, string> = {
+  garment: 'clothing item',
+  top: 'top',
+  bottom: 'bottom',
+  outerwear: 'outerwear',
+  shoes: 'shoes',
+  accessory: 'accessory',
+};
+
+export const ImageDataUriSchema = z.string().regex(/^data:image\/[\w.+-]+;base64,.+$/s, 'Must be a base64 image data URI');
+
+// One uploaded garment, inline or by upload id; sent to the provider as its own image part, in list order
+export const GarmentImageSchema = z.object({
+  role: GarmentRoleSchema,
+  imageData: ImageDataUriSchema.optional(),
+  uploadId: UploadIdSchema.optional(),
+}).superRefine((garment, ctx) => {
+  if ((garment.imageData === undefined) === (garment.uploadId === undefined)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['imageData'], message: 'Provide either imageData or uploadId' });
+  }
+});
+
+export type GarmentImage = z.infer<typeof GarmentImageSchema>;
@@ -0,0 +1,51 @@
+import { z } from 'zod';
+import { GenerationSettingsSchema } from './settings';
+import { ErrorInfoSchema } from './errors';
+import { PromptOverrideSchema } from './prompts';
+import { GarmentImageSchema, ImageDataUriSchema, MAX_GARMENTS } from './garments';
+import { UploadIdSchema } from './uploads';
+
+export const MAX_VARIATIONS = 8; // Upper bound on images per generation request
+
+// --- Requests ---
+
+// Body of POST /generate and POST /jobs. Send one of imageData or uploadId (one unlabelled garment), or garments.
+export const GenerateRequestSchema = z.object({
+  settings: GenerationSettingsSchema,
+  imageData: ImageDataUriSchema.optional(),
+  uploadId: UploadIdSchema.optional(), // Same as imageData, by reference to POST /uploads
+  garments: z.array(GarmentImageSchema).min(1).max(MAX_GARMENTS).optional(), // Outfit pieces, each with its role
+  variationCount: z.number().int().min(1).max(MAX_VARIATIONS).default(1),
+  provider: z.string().min(1).optional(), // Provider id from GET /providers; the server's default when omitted
+  promptTemplateVersion: z.string().min(1).optional(), // Prompt template version; the active one when omitted
+  promptOverride: PromptOverrideSchema.optional(), // Expert-mode edits to the rendered prompt
+  identityId: z.string().min(1).optional(), // Model identity from GET /identities; keeps the same person across generations
+}).superRefine((request, ctx) => {
+  const imageSources = [request.imageData, request.uploadId, request.garments].filter(source => source !== undefined);
+  if (imageSources.length !== 1) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['garments'], message: 'Provide exactly one of imageData, uploadId or garments' });
+  }
+});
+
+// Input type (variationCount, provider, promptTemplateVersion, promptOverride and identityId optional) is what clients send; output type is what the server works with
+export type GenerateRequestInput = z.input<typeof GenerateRequestSchema>;
+export type GenerateRequest = z.output<typeof GenerateRequestSchema>;
+
+// --- Responses ---
+
+// Per-variation outcome; failures carry their own error code
+export const VariationResultSchema = z.discriminatedUnion('success', [
+  z.object({ success: z.literal(true), generationId: z.string(), imageUrl: z.string() }),
+  ErrorInfoSchema.extend({ success: z.literal(false) }),
+]);
+
+// Successful POST /generate response
+export const GenerateResponseSchema = z.object({
+  success: z.literal(true),
+  imageUrl: z.string(), // First successful variation
+  promptUsed: z.string(),
+  results: z.array(VariationResultSchema),
+});
+
+export type VariationResult = z.infer<typeof VariationResultSchema>;
+export type GenerateResponse = z.infer<typeof GenerateResponseSchema>;
@@ -0,0 +1,142 @@
+import { z } from 'zod';
+import { GenerationSettingsSchema, SETTINGS_FIELDS, SettingsGroup } from './settings';
+import { ErrorCodeSchema } from './errors';
+import { PromptOverrideSchema } from './prompts';
+import { GarmentRoleSchema } from './garments';
+
+export const DEFAULT_HISTORY_PAGE_SIZE = 20;
+export const MAX_HISTORY_PAGE_SIZE = 100;
+
+// --- Records ---
+
+// How a refinement was made: a follow-up instruction for the whole image, a masked region regenerated,
+// or the same subject placed in a new scene
+export const RefinementModeSchema = z.enum(['instruction', 'inpaint', 'background']);
+
+export type RefinementMode = z.infer<typeof RefinementModeSchema>;
+
+// One model call made for a generation; failed attempts were retried
+export const GenerationAttemptSchema = z.object({
+  attempt: z.number().int(), // 1-based
+  startedAt: z.string(),
+  durationMs: z.number(),
+  errorCode: ErrorCodeSchema.optional(), // Unset for the successful attempt
+  message: z.string().optional(),
+});
+
+// Stored generation record as kept in the backend's metadata store
+export const GenerationRecordSchema = z.object({
+  generationId: z.string(),
+  createdAt: z.string(),
+  batchId: z.string().optional(),
+  variationIndex: z.number().int().optional(),
+  settingsUsed: GenerationSettingsSchema,
+  promptUsed: z.string(), // Prompt sent to the provider, expert-mode edits included
+  imagePath: z.string(), // Relative image URL, prefix with API_BASE_URL
+  status: z.string(),
+  deletedAt: z.string().optional(), // Set while the generation is in the trash
+  attempts: z.array(GenerationAttemptSchema).optional(), // Missing on records from before retries
+  provider: z.string().optional(), // Provider id and model that produced the image; missing on older records
+  model: z.string().optional(),
+  promptTemplateVersion: z.string().optional(), // Template that rendered the prompt; missing on older records
+  generatedPrompt: z.string().optional(), // Template output before the user's edits; only set when promptOverride was used
+  promptOverride: PromptOverrideSchema.optional(),
+  garmentRoles: z.array(GarmentRoleSchema).optional(), // Role of each garment image, in the order sent; missing on older records
+  identityId: z.string().optional(), // Model identity the image was generated with
+  sweepId: z.string().optional(), // Settings sweep (POST /sweeps) the image was generated for
+  // Set on refinements (POST /generations/:id/refine, /inpaint and /background): the image that was edited, the
+  // first image of the chain, the user's instruction (or a summary of the new scene) and the kind of edit
+  parentGenerationId: z.string().optional(),
+  refinementRootId: z.string().optional(),
+  refinementInstruction: z.string().optional(),
+  refinementMode: RefinementModeSchema.optional(), // Missing on refinements made before inpainting existed, which are all "instruction"
+});
+
+export type GenerationAttempt = z.infer<typeof GenerationAttemptSchema>;
+export type GenerationRecord = z.infer<typeof GenerationRecordSchema>;
+
+// --- Queryable fields ---
+
+// "<settings group>.<field>" paths, e.g. "modelSettings.gender"
+export type SettingsFieldPath = {
+  [Group in SettingsGroup]: `${Group}.${(typeof SETTINGS_FIELDS)[Group][number]}`
+}[SettingsGroup];
+
+// "createdAt" or a settings field path
+export type GenerationFieldPath = 'createdAt' | SettingsFieldPath;
+
+export const SETTINGS_FIELD_PATHS = (Object.keys(SETTINGS_FIELDS) as SettingsGroup[])
+  .flatMap(group => SETTINGS_FIELDS[group].map(field => `${group}.${field}` as SettingsFieldPath));
+
+export function isSettingsFieldPath(fieldPath: string): fieldPath is SettingsFieldPath {
+  return (SETTINGS_FIELD_PATHS as string[]).includes(fieldPath);
+}
+
+// True for "createdAt" and known settings field paths
+export function isQueryableField(fieldPath: string): fieldPath is GenerationFieldPath {
+  return fieldPath === 'createdAt' || isSettingsFieldPath(fieldPath);
+}
+
+// Resolves a queryable field path against a record
+export function getRecordField(record: GenerationRecord, fieldPath: GenerationFieldPath): string | undefined {
+  if (fieldPath === 'createdAt') return record.createdAt;
+  const [group, field] = fieldPath.split('.') as [SettingsGroup, string];
+  return (record.settingsUsed?.[group] as Record<string, string> | undefined)?.[field];
+}
+
+// --- GET /generations ---
+
+// Fixed query params; settings filters ("modelSettings.gender=Female") are collected separately
+export const HistoryQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(MAX_HISTORY_PAGE_SIZE).default(DEFAULT_HISTORY_PAGE_SIZE),
+  sortBy: z.string().refine(isQueryableField, 'Not a sortable field').default('createdAt'),
+  order: z.enum(['asc', 'desc']).default('desc'),
+  trash: z.enum(['true', 'false']).default('false').transform(value => value === 'true'), // List soft-deleted generations instead
+});
+
+export interface HistoryFilter {
+  fieldPath: SettingsFieldPath;
+  value: string; // Exact match
+}
+
+export type HistoryQuery = Omit<z.output<typeof HistoryQuerySchema>, 'sortBy'> & {
+  sortBy: GenerationFieldPath;
+  filters: HistoryFilter[];
+};
+
+// One page of GET /generations
+export const GenerationListPageSchema = z.object({
+  success: z.literal(true),
+  items: z.array(GenerationRecordSchema),
+  page: z.number().int(),
+  pageSize: z.number().int(),
+  total: z.number().int(),
+  totalPages: z.number().int(),
+});
+
+export type GenerationListPage = Omit<z.infer<typeof GenerationListPageSchema>, 'success'>;
+
+// GET /generations/:id, POST /generations/:id/restore and POST /generations/:id/refine
+export const GenerationResponseSchema = z.object({
+  success: z.literal(true),
+  generation: GenerationRecordSchema,
+});
+
+// --- Deletion ---
+
+// Body of POST /generations/bulk-delete
+export const BulkDeleteRequestSchema = z.object({
+  ids: z.array(z.string()),
+  soft: z.boolean().default(false), // Move to the trash instead of deleting permanently
+});
+
+// Outcome of a bulk deletion
+export const DeleteGenerationsResultSchema = z.object({
+  success: z.literal(true),
+  deleted: z.array(z.string()),
+  notFound: z.array(z.string()),
+  failed: z.array(z.string()), // Ids whose image file could not be removed
+});
+
+export type DeleteGenerationsResult = Omit<z.infer<typeof DeleteGenerationsResultSchema>, 'success'>;
@@ -0,0 +1,52 @@
+import { z } from 'zod';
+import { ModelSettingsSchema } from './settings';
+import { ImageDataUriSchema } from './garments';
+
+// --- Model identities ---
+
+export const IdentityNameSchema = z.string().trim().min(1, 'Required').max(100, 'Must be 100 characters or fewer');
+
+// A named virtual model saved from a generated image, so one person can wear a whole collection.
+// Generations that use it send the reference crop to the provider along with the garments.
+export const ModelIdentitySchema = z.object({
+  id: z.string(),
+  name: IdentityNameSchema,
+  referenceImagePath: z.string(), // Relative image URL of the reference crop, prefix with API_BASE_URL
+  modelSettings: ModelSettingsSchema, // Attributes the identity was generated with; applied when it is selected
+  sourceGenerationId: z.string().optional(), // Generation the crop was taken from
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+export type ModelIdentity = z.infer<typeof ModelIdentitySchema>;
+
+// --- Requests ---
+
+// Body of POST /identities. The crop (face and upper body) is taken from the generation's image by the client;
+// the identity's attributes are copied from the generation's settings.
+export const CreateIdentityRequestSchema = z.object({
+  name: IdentityNameSchema,
+  generationId: z.string().min(1),
+  referenceImageData: ImageDataUriSchema,
+});
+
+// Body of PATCH /identities/:id
+export const UpdateIdentityRequestSchema = z.object({
+  name: IdentityNameSchema.optional(),
+  modelSettings: ModelSettingsSchema.optional(),
+}).refine(changes => changes.name !== undefined || changes.modelSettings !== undefined, 'Provide a name or model settings to change');
+
+export type CreateIdentityRequest = z.infer<typeof CreateIdentityRequestSchema>;
+export type UpdateIdentityRequest = z.infer<typeof UpdateIdentityRequestSchema>;
+
+// --- Responses ---
+
+export const IdentityListResponseSchema = z.object({
+  success: z.literal(true),
+  identities: z.array(ModelIdentitySchema),
+});
+
+export const IdentityResponseSchema = z.object({
+  success: z.literal(true),
+  identity: ModelIdentitySchema,
+});
@@ -0,0 +1,18 @@
+// API contract shared by the frontend and backend.
+// Every request and response body has a zod schema here; both sides validate against it
+// and derive their TypeScript types from it, so a renamed field fails the build on both ends.
+
+export * from './settings';
+export * from './uploads';
+export * from './garments';
+export * from './preprocessing';
+export * from './errors';
+export * from './generation';
+export * from './jobs';
+export * from './sweeps';
+export * from './history';
+export * from './refinement';
+export * from './providers';
+export * from './prompts';
+export * from './presets';
+export * from './identities';
@@ -0,0 +1,39 @@
+import { z } from 'zod';
+import { GenerationSettingsSchema } from './settings';
+import { VariationResultSchema } from './generation';
+import { ErrorInfoSchema } from './errors';
+
+// Lifecycle of an asynchronous generation job
+export const GenerationJobStatusSchema = z.enum(['queued', 'running', 'completed', 'failed', 'cancelled']);
+
+// A variation currently being retried after a transient failure
+export const JobRetrySchema = z.object({
+  attempt: z.number().int(), // Attempt in progress (2 for the first retry)
+  maxAttempts: z.number().int(),
+});
+
+// Job as reported by the /jobs routes
+export const GenerationJobSchema = z.object({
+  id: z.string(),
+  status: GenerationJobStatusSchema,
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  variationCount: z.number().int(),
+  completedVariations: z.number().int(),
+  settingsUsed: GenerationSettingsSchema,
+  promptUsed: z.string().nullable(), // Set once completed
+  results: z.array(VariationResultSchema).nullable(), // Set once completed or failed
+  message: z.string().nullable(), // Failure/cancellation reason
+  error: ErrorInfoSchema.nullable(), // Structured failure/cancellation reason
+  retry: JobRetrySchema.nullable(), // Highest retry among running variations, null when none is retrying
+});
+
+// { success: true, job } envelope used by every /jobs route
+export const JobResponseSchema = z.object({
+  success: z.literal(true),
+  job: GenerationJobSchema,
+});
+
+export type GenerationJobStatus = z.infer<typeof GenerationJobStatusSchema>;
+export type JobRetry = z.infer<typeof JobRetrySchema>;
+export type GenerationJob = z.infer<typeof GenerationJobSchema>;
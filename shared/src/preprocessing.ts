@@ -0,0 +1,22 @@
+import { z } from 'zod';
+import { ImageDataUriSchema } from './garments';
+
+// --- Background removal ---
+
+// GET /background-removal
+export const BackgroundRemovalStatusSchema = z.object({
+  success: z.literal(true),
+  available: z.boolean(), // False when the backend has no segmentation service configured
+});
+
+// Body of POST /background-removal
+export const BackgroundRemovalRequestSchema = z.object({
+  imageData: ImageDataUriSchema,
+});
+
+export const BackgroundRemovalResponseSchema = z.object({
+  success: z.literal(true),
+  imageData: z.string(), // PNG data URI with a transparent background
+});
+
+export type BackgroundRemovalRequest = z.infer<typeof BackgroundRemovalRequestSchema>;
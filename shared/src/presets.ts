@@ -0,0 +1,88 @@
+import { z } from 'zod';
+import { GenerationSettings, GenerationSettingsSchema } from './settings';
+
+// --- Presets ---
+
+export const PresetNameSchema = z.string().trim().min(1, 'Required').max(100, 'Must be 100 characters or fewer');
+
+// Named settings pair. Built-in presets are read-only and known to both sides; others are stored
+// in the browser ("My presets") or by the backend ("Team library").
+export const SettingsPresetSchema = z.object({
+  id: z.string(),
+  name: PresetNameSchema,
+  settings: GenerationSettingsSchema,
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  builtIn: z.boolean().optional(),
+});
+
+export type SettingsPreset = z.infer<typeof SettingsPresetSchema>;
+
+// --- Requests ---
+
+// Body of POST /presets
+export const CreatePresetRequestSchema = z.object({
+  name: PresetNameSchema,
+  settings: GenerationSettingsSchema,
+});
+
+// Body of PATCH /presets/:id
+export const UpdatePresetRequestSchema = CreatePresetRequestSchema.partial()
+  .refine(changes => changes.name !== undefined || changes.settings !== undefined, 'Provide a name or settings to change');
+
+export const PRESET_FILE_FORMAT = 'ai-fashion-presets';
+export const MAX_PRESETS_PER_FILE = 200;
+
+// Exported preset file; also the body of POST /presets/import
+export const PresetFileSchema = z.object({
+  format: z.literal(PRESET_FILE_FORMAT),
+  version: z.literal(1),
+  presets: z.array(CreatePresetRequestSchema).max(MAX_PRESETS_PER_FILE),
+});
+
+export type CreatePresetRequest = z.infer<typeof CreatePresetRequestSchema>;
+export type UpdatePresetRequest = z.infer<typeof UpdatePresetRequestSchema>;
+export type PresetFile = z.infer<typeof PresetFileSchema>;
+
+// --- Responses ---
+
+export const PresetListResponseSchema = z.object({
+  success: z.literal(true),
+  presets: z.array(SettingsPresetSchema),
+});
+
+export const PresetResponseSchema = z.object({
+  success: z.literal(true),
+  preset: SettingsPresetSchema,
+});
+
+// --- Built-in presets ---
+
+const BUILT_IN_TIMESTAMP = '2025-01-01T00:00:00.000Z';
+
+function builtIn(id: string, name: string, settings: GenerationSettings): SettingsPreset {
+  return { id: `builtin:${id}`, name, settings, createdAt: BUILT_IN_TIMESTAMP, updatedAt: BUILT_IN_TIMESTAMP, builtIn: true };
+}
+
+export const BUILT_IN_PRESETS: SettingsPreset[] = [
+  builtIn('ecommerce-white', 'E-commerce white', {
+    modelSettings: { gender: 'Female', bodyType: 'Average', ageRange: '26-35', ethnicity: 'Mixed-race', hairStyle: 'Straight', hairColor: 'Brown', height: 'Average', pose: 'Standing', accessories: 'None' },
+    environmentSettings: { backgroundPreset: 'studio-white', backgroundCustom: '', lighting: 'Studio Softbox', lensStyle: 'Fashion Magazine (Standard)', timeOfDay: 'Noon', weather: 'Clear', season: 'Spring', cameraAngle: 'Eye Level' },
+  }),
+  builtIn('summer-lookbook', 'Summer lookbook', {
+    modelSettings: { gender: 'Female', bodyType: 'Athletic', ageRange: '18-25', ethnicity: 'Hispanic/Latino', hairStyle: 'Wavy', hairColor: 'Blonde', height: 'Tall', pose: 'Walking', accessories: 'Glasses' },
+    environmentSettings: { backgroundPreset: 'seasonal-summer', backgroundCustom: '', lighting: 'Golden Hour Sunlight', lensStyle: 'Portrait (Shallow DoF)', timeOfDay: 'Sunset', weather: 'Sunny', season: 'Summer', cameraAngle: 'Eye Level' },
+  }),
+  builtIn('urban-editorial', 'Urban editorial', {
+    modelSettings: { gender: 'Male', bodyType: 'Slim', ageRange: '26-35', ethnicity: 'Black/African Descent', hairStyle: 'Short', hairColor: 'Black', height: 'Tall', pose: 'Fashion Pose', accessories: 'Multiple' },
+    environmentSettings: { backgroundPreset: 'outdoor-urban', backgroundCustom: '', lighting: 'Cinematic Moody', lensStyle: 'Cinematic Look', timeOfDay: 'Evening', weather: 'Overcast', season: 'Fall', cameraAngle: 'Low Angle' },
+  }),
+  builtIn('winter-campaign', 'Winter campaign', {
+    modelSettings: { gender: 'Androgynous', bodyType: 'Average', ageRange: '36-45', ethnicity: 'East Asian', hairStyle: 'Bun', hairColor: 'Black', height: 'Average', pose: 'Casual Pose', accessories: 'Scarf' },
+    environmentSettings: { backgroundPreset: 'seasonal-winter', backgroundCustom: '', lighting: 'Natural Daylight', lensStyle: 'Wide Angle Environmental', timeOfDay: 'Morning', weather: 'Snowy', season: 'Winter', cameraAngle: 'Eye Level' },
+  }),
+];
+
+export function isBuiltInPresetId(id: string) {
+  return id.startsWith('builtin:');
+}
@@ -0,0 +1,75 @@
+import { z } from 'zod';
+import { GenerationSettingsSchema } from './settings';
+import { GarmentRoleSchema, MAX_GARMENTS } from './garments';
+
+// --- Template files ---
+
+// Named piece of a template: a template string, or items joined with a separator (empty items dropped)
+export const PromptPartialSchema = z.union([
+  z.string(),
+  z.object({ join: z.string(), items: z.array(z.string()) }),
+]);
+
+// Contents of a prompt template file ("<version>.json" in the backend's template directory).
+// Strings may use {{modelSettings.gender}}-style placeholders for any settings field, {{partialName}},
+// filters ({{modelSettings.pose|lower}}, {{environmentSettings.lighting|phrase}}) and
+// {{#if name}}...{{else}}...{{/if}} sections.
+export const PromptTemplateSchema = z.object({
+  description: z.string().default(''),
+  prompt: z.string().min(1),
+  partials: z.record(PromptPartialSchema).default({}),
+  // Per-field phrase maps for the `phrase` filter: option value (case-insensitive) -> template, "*" for any
+  // other value. Phrase templates can use {{value}}; an empty phrase omits the option.
+  phrases: z.record(z.record(z.string())).default({}),
+});
+
+export type PromptPartial = z.infer<typeof PromptPartialSchema>;
+export type PromptTemplate = z.output<typeof PromptTemplateSchema>;
+
+// --- Expert overrides ---
+
+export const MAX_PROMPT_LENGTH = 8000;
+
+// User edits applied on top of the rendered prompt ("expert mode")
+export const PromptOverrideSchema = z.object({
+  prompt: z.string().trim().min(1).max(MAX_PROMPT_LENGTH).optional(), // Replaces the rendered prompt
+  extraInstructions: z.string().trim().max(2000).optional(), // Appended after the prompt
+  avoid: z.array(z.string().trim().min(1).max(200)).max(30).optional(), // Things the image must not contain
+});
+
+export type PromptOverride = z.infer<typeof PromptOverrideSchema>;
+
+// --- GET /prompt-templates ---
+
+export const PromptTemplateInfoSchema = z.object({
+  version: z.string(),
+  description: z.string(),
+});
+
+export const PromptTemplateListSchema = z.object({
+  success: z.literal(true),
+  templates: z.array(PromptTemplateInfoSchema),
+  activeVersion: z.string(), // Used when a request names no version
+});
+
+// --- POST /prompt-templates/preview ---
+
+export const PromptPreviewRequestSchema = z.object({
+  settings: GenerationSettingsSchema,
+  templateVersion: z.string().min(1).optional(), // The active version when omitted
+  promptOverride: PromptOverrideSchema.optional(),
+  garmentRoles: z.array(GarmentRoleSchema).min(1).max(MAX_GARMENTS).default(['garment']), // Roles of the uploaded garments
+});
+
+export const PromptPreviewResponseSchema = z.object({
+  success: z.literal(true),
+  prompt: z.string(), // What would be sent to the provider, overrides included
+  generatedPrompt: z.string(), // Rendered from the template alone
+  templateVersion: z.string(),
+});
+
+export type PromptTemplateInfo = z.infer<typeof PromptTemplateInfoSchema>;
+export type PromptTemplateList = z.infer<typeof PromptTemplateListSchema>;
+export type PromptPreviewRequestInput = z.input<typeof PromptPreviewRequestSchema>; // garmentRoles optional
+export type PromptPreviewRequest = z.output<typeof PromptPreviewRequestSchema>;
+export type PromptPreviewResponse = z.infer<typeof PromptPreviewResponseSchema>;
@@ -0,0 +1,19 @@
+import { z } from 'zod';
+
+// Image-generation provider as advertised by GET /providers
+export const ProviderInfoSchema = z.object({
+  id: z.string(), // Sent back as `provider` in generation requests
+  label: z.string(),
+  model: z.string(),
+  offline: z.boolean(), // True for the mock provider, which needs no network access
+});
+
+// GET /providers response
+export const ProvidersResponseSchema = z.object({
+  success: z.literal(true),
+  providers: z.array(ProviderInfoSchema),
+  defaultProvider: z.string(), // Used when a request names no provider
+});
+
+export type ProviderInfo = z.infer<typeof ProviderInfoSchema>;
+export type ProvidersResponse = z.infer<typeof ProvidersResponseSchema>;
@@ -0,0 +1,56 @@
+import { z } from 'zod';
+import { GenerationRecordSchema } from './history';
+import { EnvironmentSettingsSchema } from './settings';
+
+// --- Refinement ---
+
+export const MAX_REFINEMENT_DEPTH = 10; // Refinements of refinements; each level adds a turn to the conversation sent to the model
+
+// Body of POST /generations/:id/refine
+export const RefineRequestSchema = z.object({
+  instruction: z.string().trim().min(1, 'Required').max(1000, 'Must be 1000 characters or fewer'), // e.g. "make the jacket red"
+  provider: z.string().min(1).optional(), // Provider id from GET /providers; defaults to the one that made the image
+});
+
+export type RefineRequest = z.infer<typeof RefineRequestSchema>;
+
+// Body of POST /generations/:id/inpaint. The mask matches the image's aspect ratio: white marks the region to
+// regenerate, black (or transparent) the pixels to keep.
+export const InpaintRequestSchema = RefineRequestSchema.extend({
+  maskData: z.string().regex(/^data:image\/png;base64,/, 'Must be a PNG data URI'),
+});
+
+export type InpaintRequest = z.infer<typeof InpaintRequestSchema>;
+
+// Scene fields a background swap can change. Everything else - the model, pose, lens and camera angle - comes
+// from the source image, so the subject and framing stay the same.
+export const BackgroundSwapSettingsSchema = EnvironmentSettingsSchema.pick({
+  backgroundPreset: true,
+  backgroundCustom: true,
+  lighting: true,
+  timeOfDay: true,
+  weather: true,
+  season: true,
+}).partial();
+
+export type BackgroundSwapSettings = z.infer<typeof BackgroundSwapSettingsSchema>;
+
+// Body of POST /generations/:id/background. Fields left out keep the source's value; an empty
+// backgroundCustom switches back to the preset.
+export const BackgroundSwapRequestSchema = z.object({
+  environmentSettings: BackgroundSwapSettingsSchema
+    .refine(changes => Object.values(changes).some(value => value !== undefined), 'Change at least one scene setting'),
+  provider: z.string().min(1).optional(),
+});
+
+export type BackgroundSwapRequest = z.infer<typeof BackgroundSwapRequestSchema>;
+
+// GET /generations/:id/refinements - every generation in the id's refinement chain, oldest first.
+// The original image comes first; parentGenerationId links the rest into a tree (one image can be refined several ways).
+export const RefinementChainResponseSchema = z.object({
+  success: z.literal(true),
+  rootGenerationId: z.string(),
+  items: z.array(GenerationRecordSchema),
+});
+
+export type RefinementChain = Omit<z.infer<typeof RefinementChainResponseSchema>, 'success'>;
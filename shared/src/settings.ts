@@ -0,0 +1,47 @@
+import { z } from 'zod';
+
+// Select-style settings always carry a value; an empty string means the client lost track of a field
+const requiredOption = z.string().min(1, 'Required');
+
+// Model appearance settings (ModelSettings panel)
+export const ModelSettingsSchema = z.object({
+  gender: requiredOption,
+  bodyType: requiredOption,
+  ageRange: requiredOption,
+  ethnicity: requiredOption,
+  hairStyle: requiredOption,
+  hairColor: requiredOption,
+  height: requiredOption,
+  pose: requiredOption,
+  accessories: requiredOption,
+});
+
+// Scene and camera settings (EnvironmentSettings panel)
+export const EnvironmentSettingsSchema = z.object({
+  backgroundPreset: requiredOption, // Preset key such as "studio-white"
+  backgroundCustom: z.string().max(500, 'Must be 500 characters or fewer'), // Overrides the preset when non-empty
+  lighting: requiredOption,
+  lensStyle: requiredOption,
+  timeOfDay: requiredOption,
+  weather: requiredOption,
+  season: requiredOption,
+  cameraAngle: requiredOption,
+});
+
+// Settings that drive prompt construction; stored with every generation as settingsUsed
+export const GenerationSettingsSchema = z.object({
+  modelSettings: ModelSettingsSchema,
+  environmentSettings: EnvironmentSettingsSchema,
+});
+
+export type ModelSettings = z.infer<typeof ModelSettingsSchema>;
+export type EnvironmentSettings = z.infer<typeof EnvironmentSettingsSchema>;
+export type GenerationSettings = z.infer<typeof GenerationSettingsSchema>;
+
+// Field names per settings group, derived from the schemas so they can't drift
+export const SETTINGS_FIELDS = {
+  modelSettings: ModelSettingsSchema.keyof().options,
+  environmentSettings: EnvironmentSettingsSchema.keyof().options,
+};
+
+export type SettingsGroup = keyof typeof SETTINGS_FIELDS;
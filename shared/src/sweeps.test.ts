@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { BUILT_IN_PRESETS } from './presets';
+import { MAX_SWEEP_IMAGES, SweepDimension, SweepRequestSchema, applySweepValues, countSweepCombinations, expandSweep } from './sweeps';
+
+const settings = BUILT_IN_PRESETS[0].settings;
+
+const bodyTypes: SweepDimension = { fieldPath: 'modelSettings.bodyType', values: ['Slim', 'Average', 'Curvy'] };
+const poses: SweepDimension = { fieldPath: 'modelSettings.pose', values: ['Standing', 'Walking'] };
+
+const sweepRequest = (dimensions: unknown, variationCount = 1) => ({
+  request: { settings, imageData: 'data:image/png;base64,AAAA', variationCount },
+  dimensions,
+});
+
+describe('expandSweep', () => {
+  it('returns every combination with the first dimension varying slowest', () => {
+    expect(expandSweep([bodyTypes, poses])).toEqual([
+      { 'modelSettings.bodyType': 'Slim', 'modelSettings.pose': 'Standing' },
+      { 'modelSettings.bodyType': 'Slim', 'modelSettings.pose': 'Walking' },
+      { 'modelSettings.bodyType': 'Average', 'modelSettings.pose': 'Standing' },
+      { 'modelSettings.bodyType': 'Average', 'modelSettings.pose': 'Walking' },
+      { 'modelSettings.bodyType': 'Curvy', 'modelSettings.pose': 'Standing' },
+      { 'modelSettings.bodyType': 'Curvy', 'modelSettings.pose': 'Walking' },
+    ]);
+  });
+
+  it('matches countSweepCombinations', () => {
+    const lighting: SweepDimension = { fieldPath: 'environmentSettings.lighting', values: ['Studio Softbox', 'Neon'] };
+    expect(expandSweep([bodyTypes, poses, lighting])).toHaveLength(countSweepCombinations([bodyTypes, poses, lighting]));
+  });
+});
+
+describe('applySweepValues', () => {
+  it('replaces only the varied fields, in both groups', () => {
+    const applied = applySweepValues(settings, { 'modelSettings.pose': 'Walking', 'environmentSettings.season': 'Winter' });
+    expect(applied.modelSettings).toEqual({ ...settings.modelSettings, pose: 'Walking' });
+    expect(applied.environmentSettings).toEqual({ ...settings.environmentSettings, season: 'Winter' });
+  });
+
+  it('leaves the base settings untouched', () => {
+    const before = JSON.parse(JSON.stringify(settings));
+    applySweepValues(settings, { 'modelSettings.bodyType': 'Curvy' });
+    expect(settings).toEqual(before);
+  });
+});
+
+describe('SweepRequestSchema', () => {
+  it('accepts a sweep within the limits', () => {
+    expect(SweepRequestSchema.safeParse(sweepRequest([bodyTypes, poses], 2)).success).toBe(true);
+  });
+
+  it('rejects a field varied twice and repeated values', () => {
+    const result = SweepRequestSchema.safeParse(sweepRequest([bodyTypes, { fieldPath: 'modelSettings.bodyType', values: ['Slim', 'Slim'] }]));
+    expect(result.success).toBe(false);
+    expect(result.error?.issues.map(issue => issue.path.join('.'))).toEqual(['dimensions.1.fieldPath', 'dimensions.1.values']);
+  });
+
+  it('rejects unknown settings fields', () => {
+    expect(SweepRequestSchema.safeParse(sweepRequest([{ fieldPath: 'modelSettings.shoeSize', values: ['42'] }])).success).toBe(false);
+  });
+
+  it(`rejects sweeps over ${MAX_SWEEP_IMAGES} images, counting variations`, () => {
+    const result = SweepRequestSchema.safeParse(sweepRequest([bodyTypes, poses], 8)); // 6 x 8 = 48
+    expect(result.success).toBe(true);
+    const tooMany = SweepRequestSchema.safeParse(sweepRequest([bodyTypes, { ...poses, values: [...poses.values, 'Sitting'] }], 6)); // 9 x 6 = 54
+    expect(tooMany.error?.issues[0].message).toContain(`at most ${MAX_SWEEP_IMAGES} images`);
+  });
+});
@@ -0,0 +1,92 @@
+import { z } from 'zod';
+import { GenerationSettings, SettingsGroup } from './settings';
+import { GenerateRequestSchema } from './generation';
+import { GenerationJobSchema } from './jobs';
+import { SettingsFieldPath, isSettingsFieldPath } from './history';
+
+// --- Settings sweeps ---
+
+export const MAX_SWEEP_DIMENSIONS = 3;
+export const MAX_SWEEP_IMAGES = 48; // Combinations x variationCount per sweep
+
+// One varied settings field and the values it takes, e.g. every body type
+export const SweepDimensionSchema = z.object({
+  fieldPath: z.custom<SettingsFieldPath>(value => typeof value === 'string' && isSettingsFieldPath(value), 'Not a settings field'),
+  values: z.array(z.string().min(1)).min(1, 'Pick at least one value').max(30),
+});
+
+export type SweepDimension = z.infer<typeof SweepDimensionSchema>;
+
+// Values of the varied fields for one combination, keyed by field path
+export type SweepValues = Partial<Record<SettingsFieldPath, string>>;
+
+export function countSweepCombinations(dimensions: SweepDimension[]) {
+  return dimensions.reduce((count, dimension) => count * dimension.values.length, 1);
+}
+
+// Every combination of the dimensions' values; the first dimension varies slowest
+export function expandSweep(dimensions: SweepDimension[]): SweepValues[] {
+  return dimensions.reduce<SweepValues[]>(
+    (combinations, { fieldPath, values }) => combinations.flatMap(combination => values.map(value => ({ ...combination, [fieldPath]: value }))),
+    [{}],
+  );
+}
+
+// The base settings with one combination's values applied
+export function applySweepValues(settings: GenerationSettings, values: SweepValues): GenerationSettings {
+  const applied = { modelSettings: { ...settings.modelSettings }, environmentSettings: { ...settings.environmentSettings } };
+  for (const [fieldPath, value] of Object.entries(values)) {
+    const [group, field] = fieldPath.split('.') as [SettingsGroup, string];
+    (applied[group] as Record<string, string>)[field] = value!;
+  }
+  return applied;
+}
+
+// --- Requests ---
+
+// Body of POST /sweeps: a regular generation request, run once per combination with the varied fields replaced
+export const SweepRequestSchema = z.object({
+  request: GenerateRequestSchema,
+  dimensions: z.array(SweepDimensionSchema).min(1, 'Vary at least one setting').max(MAX_SWEEP_DIMENSIONS),
+}).superRefine(({ request, dimensions }, ctx) => {
+  dimensions.forEach(({ fieldPath, values }, index) => {
+    if (dimensions.findIndex(other => other.fieldPath === fieldPath) !== index) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['dimensions', index, 'fieldPath'], message: 'Each setting can be varied once' });
+    }
+    if (new Set(values).size !== values.length) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['dimensions', index, 'values'], message: 'Values must be unique' });
+    }
+  });
+  const imageCount = countSweepCombinations(dimensions) * request.variationCount;
+  if (imageCount > MAX_SWEEP_IMAGES) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['dimensions'], message: `A sweep can make at most ${MAX_SWEEP_IMAGES} images (this one would make ${imageCount})` });
+  }
+});
+
+export type SweepRequestInput = z.input<typeof SweepRequestSchema>;
+export type SweepRequest = z.output<typeof SweepRequestSchema>;
+
+// --- Responses ---
+
+// One combination and the generation job that renders it
+export const SweepItemSchema = z.object({
+  values: z.record(z.string()), // SweepValues
+  job: GenerationJobSchema,
+});
+
+// Sweep as reported by the /sweeps routes
+export const SweepSchema = z.object({
+  id: z.string(),
+  createdAt: z.string(),
+  dimensions: z.array(SweepDimensionSchema),
+  items: z.array(SweepItemSchema), // In expandSweep order
+});
+
+// { success: true, sweep } envelope used by every /sweeps route
+export const SweepResponseSchema = z.object({
+  success: z.literal(true),
+  sweep: SweepSchema,
+});
+
+export type SweepItem = z.infer<typeof SweepItemSchema>;
+export type Sweep = z.infer<typeof SweepSchema>;
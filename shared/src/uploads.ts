@@ -0,0 +1,33 @@
+import { z } from 'zod';
+
+// --- Uploads ---
+
+export const MAX_UPLOAD_BYTES = 10 * 1024 * 1024; // Per image, uploaded or inline
+export const UPLOAD_IMAGE_FORMATS = ['image/png', 'image/jpeg', 'image/webp']; // Identified by file signature, not the declared type
+
+// details.reason of the INVALID_INPUT error for a rejected garment image
+export const ImageRejectionReasonSchema = z.enum([
+  'unsupported_format', // Recognised, but not one of UPLOAD_IMAGE_FORMATS
+  'corrupt', // Unknown signature, truncated file or malformed header
+  'animated', // Animated PNG or WebP
+  'too_small', // Shortest side below the server's minimum
+  'too_large', // Bytes, longest side or pixel count above the server's maximum
+]);
+
+export type ImageRejectionReason = z.infer<typeof ImageRejectionReasonSchema>;
+
+// Returned by POST /uploads; generation requests reference the image with it instead of re-sending the bytes
+export const UploadIdSchema = z.string().regex(/^[\w-]+\.[a-z0-9]+$/i, 'Must be an upload id from POST /uploads');
+
+// POST /uploads (body: the raw image bytes with their image/* Content-Type)
+export const UploadResponseSchema = z.object({
+  success: z.literal(true),
+  uploadId: UploadIdSchema,
+  mimeType: z.string(), // Sniffed from the file signature
+  bytes: z.number().int(),
+  width: z.number().int(),
+  height: z.number().int(),
+  expiresAt: z.string(), // ISO timestamp; generations referencing the upload after this answer NOT_FOUND
+});
+
+export type UploadResponse = z.infer<typeof UploadResponseSchema>;